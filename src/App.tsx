@@ -1,32 +1,121 @@
 import './App.css';
 import React from "react";
 import Grid from '@mui/material/Grid';  
-import Frame from './Frame';
+import Frame, { BiplaneCandidate } from './Frame';
 import * as XLSX from "xlsx";
 import { saveAs } from "file-saver";
 import Button from '@mui/material/Button'; 
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import MenuItem from '@mui/material/MenuItem';
+import Select, { SelectChangeEvent } from '@mui/material/Select';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import NavigateBeforeIcon from '@mui/icons-material/NavigateBefore';
+import NavigateNextIcon from '@mui/icons-material/NavigateNext';
 import JSZip from 'jszip';
+import { createSession, parseSession, FrameAnnotation, Session, deserializeLines, mergeAnnotation } from './Session/Session';
+import { AutosaveStore, FrameStatus, StoredSessionSummary } from './Session/AutosaveStore';
+import { acquisitionKey, AnnotationStore, frameStatus } from './Session/AnnotationStore';
+import { Calibration } from './Canvas/Calibration';
+import { Canvas } from './Canvas/Canvas';
+import { agreementSpreadsheetHeader, agreementSpreadsheetRows, auditSpreadsheetHeader, auditSpreadsheetRows, biplaneSpreadsheetHeader, biplaneSpreadsheetRows, frameSpreadsheetRows, interObserverSpreadsheetHeader,
+  interObserverSpreadsheetRows, metadataColumnCount, readerLesionSpreadsheetHeader, readerLesionSpreadsheetRows, spreadsheetHeader } from './Export/Spreadsheet';
+import { DicomFrame, extractDicomFrames, isDicomFile } from './Dicom/DicomFrames';
+import { FilenameSchema, FilenameSchemaMode } from './Metadata/FilenameSchema';
+import { defaultPairingOptions, FramePair, pairFiles, PairingOptions, PairingResult } from './Pairing/PairingStrategy';
+import PairingDialog from './Pairing/PairingDialog';
+import { defaultSummarySheets, lesionSheetData, lesionSheetName, SummarySheet, summarySheetData } from './Export/Summary';
+import SummaryDialog from './Export/SummaryDialog';
+import AgreementDialog from './Metrics/AgreementDialog';
+import FrameSidebar from './Review/FrameSidebar';
+import LazyMount from './Review/LazyMount';
+import { defaultQCAMetrics, QCAMetric, qcaMetricLabels, qcaMetrics } from './Metrics/QCAMetrics';
+import { isSeparationTooSmall, minBiplaneSeparation } from './Metrics/Biplane';
+import { addReaderSet, consensusAnnotation, readerAnnotations, ReaderSet, removeReaderSet } from './Readers/Readers';
+import ReadersDialog from './Readers/ReadersDialog';
+import { auditEntry } from './Session/Audit';
+import { defaultExclusionReasons } from './Review/Quality';
+import ExclusionReasonsDialog from './Review/ExclusionReasonsDialog';
+import { Dominance } from './Segments/Segments';
+
+// Frames layout: every frame in a grid, or one frame at a time with a sidebar listing the frames
+type ViewMode = "overview" | "review";
 
 type AppState = {
-  suffix: string,                                                               // Mask suffix
-  framesArray: JSX.Element[],                                                   // Array containing the uploaded frames
-  framesRefArray: React.RefObject<Frame>[]                                      // Array containing references to the Frame components created
+  uploadedFiles: File[],                                                        // Files of the last upload, with the DICOM files decoded
+  pairingOptions: PairingOptions,                                               // Strategy used to pair the images and masks
+  pairingOpen: boolean,                                                         // Whether the pairing dialog is shown
+  schemaPattern: string,                                                        // Filename schema template or regular expression
+  schemaMode: FilenameSchemaMode,                                               // Whether the schema pattern is a template or a regex
+  schemaError: string | null,                                                   // Error in the schema pattern, if it is invalid
+  schemaPreviewOpen: boolean,                                                   // Whether the schema preview is shown
+  framesRefArray: React.RefObject<Frame>[],                                     // References to the Frame components, set while they are mounted
+  frameStatuses: FrameStatus[],                                                 // Annotation status of each frame
+  viewMode: ViewMode,                                                           // Whether all the frames or a single one are shown
+  currentFrame: number,                                                         // Index of the frame shown in review mode
+  jumpTarget: string,                                                           // Frame number typed in the jump-to-frame field
+  storedSessions: StoredSessionSummary[] | null,                                // Sessions stored by the autosave, or null if their list is hidden
+  autosaveError: string | null,                                                 // Reason the work is not being autosaved, if the last attempt failed
+  metrics: QCAMetric[],                                                         // Metrics shown on the canvases and exported to the workbook
+  summarySheets: SummarySheet[],                                                // Sheets summarizing the lesions in the workbook
+  summaryOpen: boolean,                                                         // Whether the summary sheets dialog is shown
+  agreementOpen: boolean,                                                       // Whether the image and mask agreement dialog is shown
+  readerSets: ReaderSet[],                                                      // Annotations imported for each reader, compared to each other
+  readersOpen: boolean,                                                         // Whether the readers dialog is shown
+  readerID: string,                                                             // ID of the reader annotating the frames, recorded in their audit trail
+  exclusionReasons: string[],                                                   // Reasons the frames can be excluded for
+  exclusionReasonsOpen: boolean                                                 // Whether the exclusion reasons dialog is shown
 }
 
 export class App extends React.Component<{}, AppState> {
+  private static framePlaceholderHeight = 560;                                  // Height of the frames that were never mounted, in pixels
+
   private folderUploadRef = React.createRef<HTMLInputElement>();                // Reference to the folder upload input field
   private filesUploadRef = React.createRef<HTMLInputElement>();                 // Reference to the files upload input field
+  private sessionUploadRef = React.createRef<HTMLInputElement>();               // Reference to the session upload input field
+  private readersUploadRef = React.createRef<HTMLInputElement>();               // Reference to the readers upload input field
+  private autosaveStore = new AutosaveStore();                                  // Store persisting the annotations in IndexedDB
+  private sessionID: string = new Date().toISOString();                         // ID of the current upload, used to group autosaved frames
+  private dicomFrames = new Map<string, DicomFrame>();                          // Frames extracted from the uploaded DICOM files, by PNG name
+  private annotationStore = new AnnotationStore();                              // Annotations of every frame, whether mounted or not
 
   // Initial app state
   state: AppState = {
-    suffix: Frame.maskSuffix,
-    framesArray: [],
-    framesRefArray: []
+    uploadedFiles: [],
+    pairingOptions: defaultPairingOptions,
+    pairingOpen: false,
+    schemaPattern: Frame.filenameSchema.pattern,
+    schemaMode: Frame.filenameSchema.mode,
+    schemaError: null,
+    schemaPreviewOpen: false,
+    framesRefArray: [],
+    frameStatuses: [],
+    viewMode: "overview",
+    currentFrame: 0,
+    jumpTarget: "",
+    storedSessions: null,
+    autosaveError: null,
+    metrics: defaultQCAMetrics,
+    summarySheets: defaultSummarySheets,
+    summaryOpen: false,
+    agreementOpen: false,
+    readerSets: [],
+    readersOpen: false,
+    readerID: "",
+    exclusionReasons: defaultExclusionReasons,
+    exclusionReasonsOpen: false
   }
 
   // Getters
-  public get suffix(): string { return this.state.suffix }
-  public get framesArray(): JSX.Element[] { return this.state.framesArray }
+  public get frameCount(): number { return this.state.framesRefArray.length }
   public get framesRefArray(): React.RefObject<Frame>[] { return this.state.framesRefArray }
 
   componentDidMount() {
@@ -35,8 +124,13 @@ export class App extends React.Component<{}, AppState> {
       this.folderUploadRef.current.setAttribute("directory", "true");
       this.folderUploadRef.current.setAttribute("webkitdirectory", "true");
     }
+    document.addEventListener("keydown", this.handleReviewShortcut);
   }  
 
+  componentWillUnmount() {
+    document.removeEventListener("keydown", this.handleReviewShortcut);
+  }
+
   /***************************************************************************************************/
   /************************************* User interaction methods ************************************/
   /***************************************************************************************************/
@@ -51,10 +145,184 @@ export class App extends React.Component<{}, AppState> {
     if(this.filesUploadRef && this.filesUploadRef.current) this.filesUploadRef.current.click();
   };
 
-  // Update the expected mask suffix
-  public handleSuffixChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    this.setState({ suffix: e.target.value });
-    Frame.maskSuffix = e.target.value;
+  // Trigger a session upload
+  public sessionUpload = () => {
+    if(this.sessionUploadRef && this.sessionUploadRef.current) this.sessionUploadRef.current.click();
+  }
+
+  // Trigger an upload of the sessions of several readers
+  public readersUpload = () => {
+    if(this.readersUploadRef && this.readersUploadRef.current) this.readersUploadRef.current.click();
+  }
+
+  // Update the strategy used to pair the images and masks
+  public handlePairingOptionsChange = (options: PairingOptions) => {
+    this.setState({ pairingOptions: options });
+  }
+
+  // Show or hide the pairing dialog
+  public togglePairing = () => {
+    this.setState({ pairingOpen: !this.state.pairingOpen });
+  }
+
+  // Update the filename schema pattern
+  public handleSchemaPatternChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.updateFilenameSchema(e.target.value, this.state.schemaMode);
+  }
+
+  // Update whether the filename schema pattern is a template or a regular expression
+  public handleSchemaModeChange = (e: SelectChangeEvent) => {
+    this.updateFilenameSchema(this.state.schemaPattern, e.target.value as FilenameSchemaMode);
+  }
+
+  // Update the metrics shown on the canvases and exported, keeping them in their canonical order
+  public handleMetricsChange = (e: SelectChangeEvent<QCAMetric[]>) => {
+    let selected = e.target.value as QCAMetric[];
+    this.setState({ metrics: qcaMetrics.filter(metric => selected.includes(metric)) });
+  }
+
+  // Show or hide the summary sheets dialog
+  public toggleSummary = () => {
+    this.setState({ summaryOpen: !this.state.summaryOpen });
+  }
+
+  // Show or hide the image and mask agreement dialog
+  public toggleAgreement = () => {
+    this.setState({ agreementOpen: !this.state.agreementOpen });
+  }
+
+  // Show or hide the readers dialog
+  public toggleReaders = () => {
+    this.setState({ readersOpen: !this.state.readersOpen });
+  }
+
+  // Update the ID of the reader annotating the frames
+  public handleReaderIDChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.setState({ readerID: e.target.value });
+  }
+
+  // Show or hide the exclusion reasons dialog
+  public toggleExclusionReasons = () => {
+    this.setState({ exclusionReasonsOpen: !this.state.exclusionReasonsOpen });
+  }
+
+  // Update the reasons the frames can be excluded for
+  public handleExclusionReasonsChange = (reasons: string[]) => {
+    this.setState({ exclusionReasons: reasons });
+  }
+
+  // Update the keys of the summary sheets
+  public handleSummarySheetsChange = (sheets: SummarySheet[]) => {
+    this.setState({ summarySheets: sheets });
+  }
+
+  // Compile the filename schema and, if it is valid, parse the metadata of the uploaded frames with it
+  public updateFilenameSchema = (pattern: string, mode: FilenameSchemaMode) => {
+    try {
+      Frame.filenameSchema = new FilenameSchema(pattern, mode);
+      this.setState({ schemaPattern: pattern, schemaMode: mode, schemaError: null });
+      this.annotationStore.applyFilenameSchema(Frame.filenameSchema);
+      this.framesRefArray.forEach(frameRef => frameRef.current?.applyFilenameSchema());
+    } catch(error) {
+      this.setState({ schemaPattern: pattern, schemaMode: mode, schemaError: (error as Error).message });
+    }
+  }
+
+  // Show or hide the preview of how the filename schema parses the uploaded files
+  public toggleSchemaPreview = () => {
+    this.setState({ schemaPreviewOpen: !this.state.schemaPreviewOpen });
+  }
+
+  /***************************************************************************************************/
+  /************************************** Review mode methods ****************************************/
+  /***************************************************************************************************/
+
+  // Switch between the overview of every frame and the review of one frame at a time
+  public toggleViewMode = () => {
+    this.setState({ viewMode: this.state.viewMode === "overview" ? "review" : "overview" });
+  }
+
+  // Show the frame with the given index in review mode, if it exists
+  public goToFrame = (index: number) => {
+    if(index >= 0 && index < this.frameCount) this.setState({ currentFrame: index, viewMode: "review" });
+  }
+
+  // Show the next or previous frame
+  public nextFrame = () => { this.goToFrame(this.state.currentFrame + 1) }
+  public previousFrame = () => { this.goToFrame(this.state.currentFrame - 1) }
+
+  // Show the next frame, after the current one and wrapping around, that is not completely annotated
+  public nextIncompleteFrame = () => {
+    let count = this.frameCount;
+    for(let offset = 1; offset <= count; offset++) {
+      let index = (this.state.currentFrame + offset) % count;
+      if(this.state.frameStatuses[index] !== "complete") {
+        this.goToFrame(index);
+        return;
+      }
+    }
+    alert("Every frame is completely annotated");
+  }
+
+  // Update the frame number typed in the jump-to-frame field
+  public handleJumpTargetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.setState({ jumpTarget: e.target.value });
+  }
+
+  // Show the frame whose number, starting at 1, was typed in the jump-to-frame field
+  public jumpToFrame = (e: React.FormEvent) => {
+    e.preventDefault();
+    let index = parseInt(this.state.jumpTarget) - 1;
+    if(isNaN(index) || index < 0 || index >= this.frameCount) alert("Enter a frame number between 1 and " + this.frameCount);
+    else this.goToFrame(index);
+  }
+
+  // Keyboard shortcuts of the review mode, ignored while typing in a field or when the focused canvas already handled them:
+  //  - ArrowRight/ArrowLeft: next/previous frame, N: next incomplete frame
+  //  - E: toggle the edit mode of the image, Ctrl+Z/Ctrl+Shift+Z: undo/redo on the image
+  //  - M: propagate the lines to the masks, I: propagate the lines to the image
+  //  - R: reset the brightness and contrast filters
+  public handleReviewShortcut = (e: KeyboardEvent) => {
+    let target = e.target as HTMLElement;
+    if(this.state.viewMode !== "review" || e.defaultPrevented || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+    let frame = this.framesRefArray[this.state.currentFrame]?.current;
+    let key = e.key.toLowerCase();
+
+    if((e.ctrlKey || e.metaKey) && key === "z") e.shiftKey ? frame?.redo() : frame?.undo();
+    else if(e.ctrlKey || e.metaKey || e.altKey) return;
+    else if(key === "arrowright") this.nextFrame();
+    else if(key === "arrowleft") this.previousFrame();
+    else if(key === "n") this.nextIncompleteFrame();
+    else if(key === "e") frame?.toggleEditMode();
+    else if(key === "m") frame?.propagateLinesToMask();
+    else if(key === "i") frame?.propagateLinesToImage();
+    else if(key === "r") frame?.resetFilters();
+    else return;
+    e.preventDefault();
+  }
+
+  // Render the navigation controls of the review mode
+  private renderReviewNavigation = (): JSX.Element => {
+    return (
+      <div>
+        <IconButton color="primary" onClick={this.previousFrame} disabled={this.state.currentFrame === 0} title="Previous frame (←)">
+          <NavigateBeforeIcon/>
+        </IconButton>
+        Frame {this.state.currentFrame + 1} of {this.frameCount}
+        <IconButton color="primary" onClick={this.nextFrame} disabled={this.state.currentFrame === this.frameCount - 1} title="Next frame (→)">
+          <NavigateNextIcon/>
+        </IconButton>
+        <Button onClick={this.nextIncompleteFrame} title="N">Next Incomplete</Button>
+        <form onSubmit={this.jumpToFrame} style={{ display: "inline" }}>
+          <TextField size="small" type="number" label="Go to frame" value={this.state.jumpTarget} onChange={this.handleJumpTargetChange} sx={{ width: 130 }}/>
+          <Button type="submit">Go</Button>
+        </form>
+        <p style={{ color: "gray" }}>
+          Shortcuts: ←/→ previous/next frame, N next incomplete, E toggle edit, Ctrl+Z/Ctrl+Shift+Z undo/redo,
+          M propagate to masks, I propagate to image, R reset filters
+        </p>
+      </div>
+    );
   }
 
   /***************************************************************************************************/
@@ -66,105 +334,94 @@ export class App extends React.Component<{}, AppState> {
     const { files } = e.target;
 
     if (files && files.length !== 0) {
-      let localFramesArray: Array<JSX.Element>, unmatchedImages: string[], unmatchedMasks: string[];
-
-      // Build an array of frame elements from the files array
-      [localFramesArray, unmatchedImages, unmatchedMasks] = this.buildFramesArray(Array.from(files));
-
-      // Assign the locally built frames array to the global one
-      this.setState({ framesArray: localFramesArray });
-
-      // Alert the user to the unmatched images and masks
-      if(unmatchedImages.length > 0 || unmatchedMasks.length > 0)
-        alert(this.unmatchedFilesArrayToMessage(unmatchedImages, "image") + this.unmatchedFilesArrayToMessage(unmatchedMasks, "mask"));
-      else if(localFramesArray.length === 0) alert("No valid frames detected");
+      // Decode the DICOM files into PNG frames before building the frames
+      this.extractDicomFiles(Array.from(files))
+        .then(this.loadFiles)
+        .catch((error: Error) => alert("Could not load the files: " + error.message));
     }
   }
-  
-  // Given an unordered array of image and mask Files, return an ordered array of JSX.Elements 
-  // containing paired image and mask frames. Mask names are assumed to be of the type 
-  // <ImageName> + <Suffix> + .png
-  public buildFramesArray = (files: File[]): [JSX.Element[], string[], string[]] => {
-    let frames: JSX.Element[] = [];
-    let frameRefs: React.RefObject<Frame>[] = [];
-    let unmatchedImages: string[] = [], unmatchedMasks: string[] = [];
-
-    // Return if there are no files or the file list is empty
-    if(!files || files.length === 0) return [frames, unmatchedImages, unmatchedMasks];
-    
-    // Sort the files
-    files = files.sort((a, b) => a.name.localeCompare(b.name));
-
-    // i and j are the indices of the current and next file to check, respectively
-    var i = 0, j = 1;
-    var reference: React.RefObject<Frame>;
-
-    // Iterate the files array to build the frames array
-    while(i < files.length) {            
-      // If the file is a mask
-      if(Frame.testMaskRegex(files[i].name)) {
-        // If the mask has the right suffix, add it to the frames array with image=null, 
-        // and add its name to the unmatched masks array
-        if(files[i].name.endsWith(Frame.maskSuffix + '.png')) {
-          reference = React.createRef();
-          frames.push(<Frame ref={reference} imageFile={null} maskFile={files[i]} name={files[i].name} key={files[i].name}></Frame>);        
-          unmatchedMasks.push(files[i].name);
-          frameRefs.push(reference);
+
+  // Replace the DICOM files in the given array by the PNG frames extracted from them, remembering their
+  // metadata. The files that cannot be decoded are dropped, and the user is alerted to them
+  public extractDicomFiles = async (files: File[]): Promise<File[]> => {
+    let pngFiles: File[] = [], failures: string[] = [];
+    this.dicomFrames = new Map();
+
+    for(let file of files) {
+      try {
+        if(!(await isDicomFile(file))) {
+          pngFiles.push(file);
+          continue;
         }
-        i += 1;
-        j = i + 1;
-      } 
-      // If the file is an image and the last, add it to the frames array with mask=null and finish the cycle
-      else if(i === files.length - 1 || j >= files.length) {        
-        reference = React.createRef();
-        frames.push(<Frame ref={reference} imageFile={files[i]} maskFile={null} name={files[i].name} key={files[i].name}></Frame>);
-        unmatchedImages.push(files[i].name);
-        frameRefs.push(reference);
-        break;
-      }
-      // If the next file is another image, add the current one to the frames array with mask=null
-      else if(!Frame.testMaskRegex(files[j].name)) {
-        reference = React.createRef();
-        frames.push(<Frame ref={reference} imageFile={files[i]} maskFile={null} name={files[i].name} key={files[i].name}></Frame>);
-        frameRefs.push(reference);
-        unmatchedImages.push(files[i].name);
-        i = j;
-        j = i + 1;
+        let frames = await extractDicomFrames(file);
+        frames.forEach(frame => {
+          this.dicomFrames.set(frame.file.name, frame);
+          pngFiles.push(frame.file);
+        });
+      } catch(error) {
+        failures.push(file.name + ": " + (error as Error).message);
       }
-      // If the next file is a mask but with a wrong suffix, skip
-      else if(!files[j].name.endsWith(this.suffix + '.png')) {
-        j += 1
-      }
-      // If the next file is the corresponding mask, add the image and mask to the frames array
-      else if(files[i].name === files[j].name.replace(this.suffix + '.png', '.png')) {
-        reference = React.createRef();
-        frames.push(<Frame ref={reference} imageFile={files[i]} maskFile={files[j]} name={files[i].name} key={files[i].name}></Frame>);
-        frameRefs.push(reference);
-        i = j + 1;
-        j = i + 1;
-      }
-      // If the next file is a mask with the right suffix but not the corresponding one, add both to the frames array with image=null
-      else {
-        reference = React.createRef();
-        frames.push(<Frame ref={reference} imageFile={files[i]} maskFile={null} name={files[i].name} key={files[i].name}></Frame>);
-        frameRefs.push(reference);
-        unmatchedImages.push(files[i].name);
-
-        reference = React.createRef();
-        frames.push(<Frame ref={reference} imageFile={null} maskFile={files[j]} name={files[j].name} key={files[j].name}></Frame>);
-        frameRefs.push(reference);
-        unmatchedMasks.push(files[j].name);
-        i = j + 1;
-        j = i + 1;
-      }    
     }
-    this.setState({ framesRefArray: frameRefs });
-    return [frames, unmatchedImages, unmatchedMasks];
+
+    if(failures.length > 0) alert("The following files could not be read:\n" + failures.join("\n"));
+    return pngFiles;
+  }
+
+  // Pair the given image and mask files and display their frames. If some files are unmatched, show the
+  // pairing dialog instead, so that the user can review the pairs or choose another pairing strategy
+  public loadFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    this.setState({ uploadedFiles: files });
+
+    let result: PairingResult;
+    try {
+      result = pairFiles(files, this.state.pairingOptions);
+    } catch(error) {
+      this.setState({ pairingOpen: true });
+      return;
+    }
+
+    if(result.unmatchedImages.length > 0 || result.unmatchedMasks.length > 0 || result.incompletePairs.length > 0 || result.pairs.length === 0)
+      this.setState({ pairingOpen: true });
+    else this.loadPairs(result.pairs);
+  }
+
+  // Store empty annotations for the given pairs and display their frames, which are only mounted once they are
+  // scrolled into view or navigated to. Then, offer to restore any autosaved work on them. The reader is asked for
+  // their ID, if they did not enter it yet, so that their actions are recorded under it
+  public loadPairs = (pairs: FramePair[]) => {
+    this.sessionID = new Date().toISOString();
+    this.annotationStore.load(pairs, Frame.filenameSchema, this.dicomFrames);
+    let readerID = this.state.readerID || (window.prompt("Enter your reader ID, recorded with your annotations:") ?? "").trim();
+    this.setState({ 
+      readerID: readerID,
+      framesRefArray: pairs.map(() => React.createRef<Frame>()), 
+      frameStatuses: this.annotationStore.frames.map(frameStatus),
+      pairingOpen: false, 
+      currentFrame: 0 
+    }, this.offerAutosaveRestore);
+  }
+
+  // Render the frame with the given index, restoring its stored annotation when it is mounted
+  private renderFrame = (index: number): JSX.Element => {
+    let frame = this.annotationStore.get(index);
+    return (
+      <Frame ref={this.framesRefArray[index]} imageFile={frame.pair.image} imageName={frame.pair.imageName} masks={frame.pair.masks}
+        key={frame.key} metadata={frame.metadata ?? undefined} annotation={frame.annotation}
+        onChange={mounted => this.handleFrameChange(index, mounted)} 
+        onAcquisitionCalibrate={(mounted, calibration) => this.handleAcquisitionCalibrate(index, calibration)} 
+        metrics={this.state.metrics} biplaneCandidates={this.biplaneCandidates(index)}
+        onBiplaneLink={(mounted, partner) => this.handleBiplaneLink(index, partner)}
+        readerAnnotations={readerAnnotations(this.state.readerSets, frame.annotation)}
+        onConsensus={(mounted, reader) => this.handleConsensus(index, reader)} reader={this.state.readerID}
+        exclusionReasonOptions={this.state.exclusionReasons}
+        onDominanceChange={(mounted, dominance) => this.handlePatientDominance(index, dominance)}></Frame>
+    );
   }
 
   // Given an array of unmatched filenames, returns a string containing a warning message,
   // of null, if the array is empty. fileType should contain the type of the files, e.g., 
-  // "image" or "mask"
+  // "session"
   public unmatchedFilesArrayToMessage = (files: string[], fileType: string): string => {
     let message: string = "";
 
@@ -172,8 +429,7 @@ export class App extends React.Component<{}, AppState> {
     if(!files || files.length === 0) return message; 
 
     // Message header
-    if(fileType === "image") message = "The following images have no matching masks:\n";
-    else if(fileType === "mask") message = "The following masks have no matching images:\n";
+    if(fileType === "session") message = "The following session frames have no matching uploaded files:\n";
     else message = "The following files are unmatched:\n";
 
     // Message body
@@ -182,6 +438,241 @@ export class App extends React.Component<{}, AppState> {
     return message;
   }
 
+  /***************************************************************************************************/
+  /************************************* Session export and import ***********************************/
+  /***************************************************************************************************/
+
+  // Download the annotations of every frame as a JSON session file
+  public exportSession = () => {
+    let session = createSession(this.annotationStore.frames.map(frame => frame.annotation), this.state.readerID);
+    saveAs(new Blob([JSON.stringify(session, null, 2)], {type: "application/json"}), 'qca_session.json');
+  }
+
+  // Read a session file and restore its annotations onto the uploaded frames
+  public handleSessionUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { files } = e.target;
+    if(!files || files.length === 0) return;
+
+    files[0].text().then(text => {
+      this.restoreSession(parseSession(text));
+    }).catch((error: Error) => alert("Could not import the session: " + error.message));
+
+    // Clear the input, so that the same file can be imported again
+    e.target.value = "";
+  }
+
+  // Restore the annotations of a session onto the frames with matching image or mask names, alerting the
+  // user to the annotations that have no matching frame
+  public restoreSession = (session: Session) => {
+    let unmatchedFrames: string[] = [];
+    session.frames.forEach(annotation => {
+      let index = this.annotationStore.indexOfAnnotation(annotation);
+      if(index !== -1) this.restoreFrame(index, annotation);
+      else unmatchedFrames.push(annotation.imageName);
+    });
+
+    if(unmatchedFrames.length > 0) 
+      alert(this.unmatchedFilesArrayToMessage(unmatchedFrames, "session"));
+  }
+
+  // Restore a saved annotation onto the frame with the given index, through its component if it is mounted or,
+  // otherwise, directly in the store
+  public restoreFrame = (index: number, annotation: FrameAnnotation) => {
+    let frame = this.framesRefArray[index]?.current;
+    if(frame) frame.restoreAnnotation(annotation);
+    else this.updateStoredFrame(index, mergeAnnotation(this.annotationStore.get(index).annotation, annotation));
+  }
+
+  /***************************************************************************************************/
+  /*************************************** Calibration methods ***************************************/
+  /***************************************************************************************************/
+
+  // Apply the calibration of a frame to every other frame of the same acquisition, mounted or not
+  public handleAcquisitionCalibrate = (source: number, calibration: Calibration | null) => {
+    let key = acquisitionKey(this.annotationStore.get(source).annotation);
+    this.annotationStore.frames.forEach((frame, index) => {
+      if(index === source || acquisitionKey(frame.annotation) !== key) return;
+      let mounted = this.framesRefArray[index]?.current;
+      if(mounted) mounted.setCalibration(calibration);
+      else this.updateStoredFrame(index, { ...frame.annotation, calibration: calibration });
+    });
+  }
+
+  /***************************************************************************************************/
+  /***************************************** Segment methods *****************************************/
+  /***************************************************************************************************/
+
+  // Apply the coronary dominance set on a frame to every other frame of the same patient, mounted or not
+  public handlePatientDominance = (source: number, dominance: Dominance | null) => {
+    let patientID = this.annotationStore.get(source).annotation.patientID;
+    this.annotationStore.frames.forEach((frame, index) => {
+      if(index === source || frame.annotation.patientID !== patientID) return;
+      let mounted = this.framesRefArray[index]?.current;
+      if(mounted) mounted.setDominance(dominance);
+      else this.updateStoredFrame(index, { ...frame.annotation, dominance: dominance });
+    });
+  }
+
+  /***************************************************************************************************/
+  /***************************************** Biplane methods *****************************************/
+  /***************************************************************************************************/
+
+  // Frames of the same patient as the given one, which can be linked to it as another projection of the same lesions
+  public biplaneCandidates = (index: number): BiplaneCandidate[] => {
+    let patientID = this.annotationStore.get(index).annotation.patientID;
+    if(patientID === null) return [];
+    return this.annotationStore.frames.filter((frame, other) => other !== index && frame.annotation.patientID === patientID).map(frame => ({
+      imageName: frame.pair.imageName,
+      primaryAngle: frame.annotation.primaryAngle,
+      secondaryAngle: frame.annotation.secondaryAngle
+    }));
+  }
+
+  // Link two frames as projections of the same lesions, both ways, or unlink a frame, unlinking their previous partners.
+  // Linking projections too close to each other is allowed, with a warning
+  public handleBiplaneLink = (index: number, partner: string | null) => {
+    let frames = this.annotationStore.frames, partnerIndex = partner === null ? -1 : this.annotationStore.indexOfImageName(partner);
+    [index, partnerIndex].forEach(linked => {
+      let previous = linked === -1 ? null : frames[linked].annotation.biplanePartner ?? null;
+      let previousIndex = previous === null ? -1 : this.annotationStore.indexOfImageName(previous);
+      if(previousIndex !== -1 && previousIndex !== index && previousIndex !== partnerIndex) this.setBiplanePartner(previousIndex, null);
+    });
+    this.setBiplanePartner(index, partnerIndex === -1 ? null : frames[partnerIndex].pair.imageName);
+    if(partnerIndex === -1) return;
+    this.setBiplanePartner(partnerIndex, frames[index].pair.imageName);
+    if(isSeparationTooSmall(frames[index].annotation, frames[partnerIndex].annotation))
+      alert("The projections of " + frames[index].pair.imageName + " and " + frames[partnerIndex].pair.imageName + " are less than " + 
+        minBiplaneSeparation + "º apart or of unknown angles, so their biplane measurements may be unreliable");
+  }
+
+  // Set the biplane partner of a frame, mounted or not
+  public setBiplanePartner = (index: number, partner: string | null) => {
+    let mounted = this.framesRefArray[index]?.current;
+    if(mounted) mounted.setBiplanePartner(partner);
+    else this.updateStoredFrame(index, { ...this.annotationStore.get(index).annotation, biplanePartner: partner });
+  }
+
+  // Annotation of the biplane partner of a frame, if it is linked to one that was uploaded
+  public biplanePartnerAnnotation = (annotation: FrameAnnotation): FrameAnnotation | null => {
+    let partnerIndex = annotation.biplanePartner ? this.annotationStore.indexOfImageName(annotation.biplanePartner) : -1;
+    return partnerIndex === -1 ? null : this.annotationStore.get(partnerIndex).annotation;
+  }
+
+  /***************************************************************************************************/
+  /****************************************** Reader methods *****************************************/
+  /***************************************************************************************************/
+
+  // Import the sessions exported by several readers, each named after the reader who exported it or, if unknown, after its
+  // file, replacing the annotations of the readers imported before under the same names
+  public handleReadersUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { files } = e.target;
+    if(!files || files.length === 0) return;
+
+    Promise.all(Array.from(files).map(file => file.text().then(text => ({ name: file.name.replace(/\.[^.]*$/, ""), session: parseSession(text) }))))
+      .then(imported => this.setState({ 
+        readerSets: imported.reduce((sets, { name, session }) => addReaderSet(sets, session.reader ?? name, session), this.state.readerSets) 
+      }))
+      .catch((error: Error) => alert("Could not import the readers: " + error.message));
+
+    // Clear the input, so that the same files can be imported again
+    e.target.value = "";
+  }
+
+  // Remove the annotations of a reader
+  public handleReaderRemove = (reader: string) => {
+    this.setState({ readerSets: removeReaderSet(this.state.readerSets, reader) });
+  }
+
+  // Replace the lines of a frame by those of a reader, or by the average of the lines of every reader, once the user
+  // confirms that the lines already drawn on it are to be replaced, recording the change in its audit log
+  public handleConsensus = (index: number, reader: string | null) => {
+    let current = this.annotationStore.get(index).annotation;
+    let readers = readerAnnotations(this.state.readerSets, current);
+    let drawn = current.imageLines.length !== 0 || current.masks.some(mask => mask.lines.length !== 0);
+    if(readers.length === 0 || (drawn && !window.confirm("Replace the lines drawn on " + current.imageName + "?"))) return;
+    let entry = auditEntry(this.state.readerID, "", reader !== null ? "Adopt the lines of " + reader : "Average the lines of the readers");
+    this.restoreFrame(index, { ...consensusAnnotation(current, readers, reader), auditLog: [...(current.auditLog ?? []), entry] });
+  }
+
+  /***************************************************************************************************/
+  /***************************************** Autosave methods ****************************************/
+  /***************************************************************************************************/
+
+  // Store and persist the annotations of a mounted frame whenever its lines or filters change
+  public handleFrameChange = (index: number, frame: Frame) => {
+    this.updateStoredFrame(index, frame.getAnnotation());
+  }
+
+  // Replace the stored annotation of a frame, update its status and persist it
+  public updateStoredFrame = (index: number, annotation: FrameAnnotation) => {
+    this.annotationStore.update(index, annotation);
+    let frame = this.annotationStore.get(index), status = frameStatus(frame);
+    if(this.state.frameStatuses[index] !== status) this.setState(prevState => {
+      let frameStatuses = [...prevState.frameStatuses];
+      frameStatuses[index] = status;
+      return { frameStatuses: frameStatuses };
+    });
+
+    this.autosaveStore.saveFrame({
+      key: frame.key,
+      sessionID: this.sessionID,
+      savedAt: new Date().toISOString(),
+      status: status,
+      annotation: annotation
+    }).then(() => {
+      if(this.state.autosaveError !== null) this.setState({ autosaveError: null });
+    }).catch(this.handleAutosaveError);
+  }
+
+  // Show that the work is not being autosaved, e.g., because IndexedDB is disabled, alerting the user only the first
+  // time, rather than on every change
+  public handleAutosaveError = (error: Error) => {
+    if(this.state.autosaveError === null) alert("Your work is not being autosaved: " + error.message);
+    this.setState({ autosaveError: error.message });
+  }
+
+  // If there is autosaved work for any of the uploaded frames, ask the user whether to restore it
+  public offerAutosaveRestore = () => {
+    this.autosaveStore.getFrames(this.annotationStore.frames.map(frame => frame.key)).then(records => {
+      if(records.length === 0) return;
+      let lastSavedAt = records.map(record => record.savedAt).sort().reverse()[0];
+      if(!window.confirm("Previous work was found for " + records.length + " of the uploaded frames, last saved on " + 
+        new Date(lastSavedAt).toLocaleString() + ". Do you want to restore it?")) return;
+
+      records.forEach(record => {
+        let index = this.annotationStore.indexOfKey(record.key);
+        if(index !== -1) this.restoreFrame(index, record.annotation);
+      });
+    }).catch(this.handleAutosaveError);
+  }
+
+  // Show the list of autosaved sessions
+  public showStoredSessions = () => {
+    this.autosaveStore.listSessions()
+      .then(sessions => this.setState({ storedSessions: sessions }))
+      .catch((error: Error) => alert("Could not read the autosaved sessions: " + error.message));
+  }
+
+  // Hide the list of autosaved sessions
+  public hideStoredSessions = () => {
+    this.setState({ storedSessions: null });
+  }
+
+  // Delete an autosaved session and refresh the list
+  public deleteStoredSession = (sessionID: string) => {
+    this.autosaveStore.deleteSession(sessionID)
+      .then(this.showStoredSessions)
+      .catch((error: Error) => alert("Could not delete the autosaved session: " + error.message));
+  }
+
+  // Delete every autosaved session and refresh the list
+  public clearStoredSessions = () => {
+    if(!window.confirm("Delete all the autosaved work?")) return;
+    this.autosaveStore.clear()
+      .then(this.showStoredSessions)
+      .catch((error: Error) => alert("Could not delete the autosaved sessions: " + error.message));
+  }
+
   /***************************************************************************************************/
   /************************************** Excel download methods *************************************/
   /***************************************************************************************************/
@@ -197,23 +688,17 @@ export class App extends React.Component<{}, AppState> {
     let ws_data: (string | number)[][] = Array.of<(string | number)[]>();
     let ws_merges: XLSX.Range[] = [];
 
-    // Insert the header into the list
-    ws_data.push(
-      ['Patient ID', 'Primary Angle', 'Secondary Angle', 'Frame Number', 'Type', 'Diameter 1', 'Diameter 2', 'Diameter 3', 'Diameter Stenosis', 'Area Stenosis']
-    )
+    // Insert the header into the list, with the extra metadata fields of the filename schema after the core ones
+    let extraFields = Frame.filenameSchema.extraFields;
+    ws_data.push(spreadsheetHeader(extraFields, this.state.metrics));
 
-    // For each frame, push its data into the list and update the list of cell merges
-    this.framesRefArray.forEach((frameRef, index) => {
-      let frame = frameRef.current;
-      if(frame) {
-        ws_data.push(...frame.getSpreadsheetRow());
-        ws_merges.push(
-          { s: {r: 2*index + 1, c: 0}, e: {r: 2*index + 2, c: 0}}, 
-          { s: {r: 2*index + 1, c: 1}, e: {r: 2*index + 2, c: 1}},
-          { s: {r: 2*index + 1, c: 2}, e: {r: 2*index + 2, c: 2}},
-          { s: {r: 2*index + 1, c: 3}, e: {r: 2*index + 2, c: 3}}
-        )
-      }
+    // For each stored frame, push its rows, one per lesion for the image and each mask source, into the list and merge their metadata cells
+    this.annotationStore.frames.forEach(frame => {
+      let rows = frameSpreadsheetRows(frame.annotation, extraFields, this.state.metrics, this.biplanePartnerAnnotation(frame.annotation));
+      let firstRow = ws_data.length;
+      ws_data.push(...rows);
+      if(rows.length > 1) for(let c = 0; c < metadataColumnCount(extraFields); c++) 
+        ws_merges.push({ s: {r: firstRow, c: c}, e: {r: firstRow + rows.length - 1, c: c}});
     });
 
     // Convert the array of arrays into an excel sheet
@@ -222,6 +707,55 @@ export class App extends React.Component<{}, AppState> {
     ws['!cols'] = this.uniformizeColumnWidth(ws_data);
     wb.Sheets['QCA'] = ws;
 
+    // Add the audit trail of every frame: its readers and active time, the times of its lines and the actions performed on it
+    let audit_data: (string | number)[][] = [auditSpreadsheetHeader(), ...auditSpreadsheetRows(this.annotationStore.frames.map(frame => frame.annotation))];
+    wb.SheetNames.push("Audit");
+    var audit_ws = XLSX.utils.aoa_to_sheet(audit_data);
+    audit_ws['!cols'] = this.fitToColumn(audit_data.slice(0, 1));
+    wb.Sheets['Audit'] = audit_ws;
+
+    // Add a sheet combining the lesions of each pair of linked projections, listing every pair once
+    let biplane_data: (string | number)[][] = [biplaneSpreadsheetHeader()];
+    this.annotationStore.frames.forEach((frame, index) => {
+      let partnerIndex = frame.annotation.biplanePartner ? this.annotationStore.indexOfImageName(frame.annotation.biplanePartner) : -1;
+      if(partnerIndex > index) biplane_data.push(...biplaneSpreadsheetRows(frame.annotation, this.annotationStore.get(partnerIndex).annotation));
+    });
+    wb.SheetNames.push("Biplane");
+    var biplane_ws = XLSX.utils.aoa_to_sheet(biplane_data);
+    biplane_ws['!cols'] = this.uniformizeColumnWidth(biplane_data);
+    wb.Sheets['Biplane'] = biplane_ws;
+
+    // Add the agreement between the images and each mask source
+    let agreement_data: (string | number)[][] = [agreementSpreadsheetHeader(), ...agreementSpreadsheetRows(this.annotationStore.frames.map(frame => frame.annotation), this.state.metrics)];
+    wb.SheetNames.push("Agreement");
+    var agreement_ws = XLSX.utils.aoa_to_sheet(agreement_data);
+    agreement_ws['!cols'] = this.fitToColumn(agreement_data);
+    wb.Sheets['Agreement'] = agreement_ws;
+
+    // Add the lesion sheet, whose formulas compute the stenoses from the diameters of the QCA sheet, and the summary sheets,
+    // whose formulas aggregate the lesion sheet, so that editing a diameter updates them
+    let annotations = this.annotationStore.frames.map(frame => frame.annotation);
+    [{ name: lesionSheetName, data: lesionSheetData(annotations, extraFields, this.state.metrics) },
+      ...this.state.summarySheets.filter(sheet => sheet.keys.length !== 0).map(sheet => ({ name: sheet.name, data: summarySheetData(annotations, extraFields, sheet) }))
+    ].forEach(sheet => {
+      wb.SheetNames.push(sheet.name);
+      var summary_ws = XLSX.utils.aoa_to_sheet(sheet.data);
+      summary_ws['!cols'] = this.fitToColumn(sheet.data.slice(0, 1));
+      wb.Sheets[sheet.name] = summary_ws;
+    });
+
+    // Add the measures of each reader and their variability, if there are readers to compare
+    if(this.state.readerSets.length >= 2) {
+      [{ name: "Reader Lesions", data: [readerLesionSpreadsheetHeader(this.state.readerSets), ...readerLesionSpreadsheetRows(this.state.readerSets)] },
+        { name: "Inter-observer", data: [interObserverSpreadsheetHeader(), ...interObserverSpreadsheetRows(this.state.readerSets)] }
+      ].forEach(sheet => {
+        wb.SheetNames.push(sheet.name);
+        var reader_ws = XLSX.utils.aoa_to_sheet(sheet.data);
+        reader_ws['!cols'] = this.fitToColumn(sheet.data.slice(0, 1));
+        wb.Sheets[sheet.name] = reader_ws;
+      });
+    }
+
     // Save the file
     var wbout = XLSX.write(wb, {bookType: 'xlsx', type: 'binary'});
     saveAs(new Blob([this.s2ab(wbout)], {type: "application/octet-stream"}), 'qca.xlsx');
@@ -257,73 +791,280 @@ export class App extends React.Component<{}, AppState> {
   /********************************** Image and mask download methods ********************************/
   /***************************************************************************************************/
 
-  // Download the images and masks
+  // Download the images and masks with their stored lines drawn over them, rendering them offscreen, so that the frames
+  // that are not mounted are exported as well
   public downloadImagesAndMasks = async () => {
     var zip = new JSZip();
-    var fetches: Promise<void | Response>[] = [];
-
-    // Build an array of fetch promises, allowing to wait for all images before downloading the zip    
-    this.framesRefArray.forEach((frameRef) => {
-      let frame = frameRef.current;
-      // If the frame is not null, push the image and mask fetches to the list
-      if(frame) {
-        fetches.push(
-          fetch(frame.imageURL).then(r => r.blob()).then((blob) => {
-            if(frame) zip?.file(frame.imageName.replace('.png', '_qca.png'), blob, {base64: true});
-          }),
-          fetch(frame.maskURL).then(r => r.blob()).then((blob) => {
-            if(frame) zip?.file(frame.maskName.replace('.png', '_qca.png'), blob, {base64: true});
-          })
+    var renders: Promise<void>[] = [];
+
+    // Build an array of render promises, allowing to wait for all images before downloading the zip    
+    this.annotationStore.frames.forEach(frame => {
+      let annotation = frame.annotation;
+      if(frame.pair.image) renders.push(
+        Canvas.renderAnnotatedImage(frame.pair.image, deserializeLines(annotation.imageLines))
+          .then(blob => { zip.file(frame.pair.imageName.replace('.png', '_qca.png'), blob) })
+      );
+      // Masks absent for some sources have no file
+      frame.pair.masks.forEach((mask, index) => {
+        if(mask.file) renders.push(
+          Canvas.renderAnnotatedImage(mask.file, deserializeLines(annotation.masks[index]?.lines ?? []))
+            .then(blob => { zip.file(mask.name.replace('.png', '_qca.png'), blob) })
         );
-      }
+      });
     });
 
-    // Wait on all the fetch promises and then download the zip
-    Promise.all(fetches).then(() => {
+    // Wait on all the render promises and then download the zip
+    Promise.all(renders).then(() => {
       zip.generateAsync({type: 'blob'}).then(content => saveAs(content, 'QCA'));
-    })
+    }).catch((error: Error) => alert("Could not export the images and masks: " + error.message));
+  }
+
+  // Render a table with the metadata parsed by the filename schema from each uploaded image name,
+  // highlighting the values that could not be parsed
+  private renderSchemaPreview = (): JSX.Element => {
+    let schema = Frame.filenameSchema, extraFields = schema.extraFields;
+    let isInvalid = (value: number | string) => value === "" || (typeof value === "number" && isNaN(value));
+    let cell = (value: number | string, key: string) => 
+      <TableCell key={key} style={isInvalid(value) ? { color: "red" } : {}}>{isInvalid(value) ? "—" : value}</TableCell>;
+
+    return (
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            {["Filename", "Patient ID", "Primary Angle", "Secondary Angle", "Frame Number", ...extraFields.map(FilenameSchema.fieldLabel)]
+              .map(label => <TableCell key={label}>{label}</TableCell>)}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {this.annotationStore.frames.map((frame, index) => {
+            let imageName = frame.pair.imageName;
+            if(frame.metadata)
+              return <TableRow key={index}><TableCell>{imageName}</TableCell><TableCell colSpan={4 + extraFields.length}>Read from DICOM tags</TableCell></TableRow>;
+            let metadata = schema.parse(imageName);
+            return (
+              <TableRow key={index}>
+                <TableCell>{imageName}</TableCell>
+                {cell(metadata.patientID, "patientID")}
+                {cell(metadata.primaryAngle, "primaryAngle")}
+                {cell(metadata.secondaryAngle, "secondaryAngle")}
+                {cell(metadata.frameNumber, "frameNumber")}
+                {extraFields.map(field => cell(metadata.fields[field], field))}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
   }
 
   public render() {
+    let review = this.state.viewMode === "review" && this.frameCount !== 0;
     return (
       <div className='App'>
         <Grid container rowSpacing={1} columnGap={0}>
-          { // Display the frames, if there are any
-            this.framesArray.length !== 0 &&
-              this.framesArray.map(frame => frame)
+          { // In review mode, show the sidebar listing the frames
+            review &&
+              <Grid item xs={2} sm={2} md={2}>
+                <FrameSidebar 
+                  names={this.annotationStore.frames.map(frame => frame.pair.imageName)}
+                  statuses={this.state.frameStatuses}
+                  current={this.state.currentFrame}
+                  onSelect={this.goToFrame}/>
+              </Grid>
           }
+          <Grid item xs={review ? 10 : 12} sm={review ? 10 : 12} md={review ? 10 : 12}>
+            { // In review mode, show the navigation controls
+              review && this.renderReviewNavigation()
+            }
+            { // In review mode, mount only the frame under review. Otherwise, mount the frames as they are scrolled into view.
+              // Unmounted frames keep their annotations in the store
+              review ? this.renderFrame(this.state.currentFrame) :
+                this.annotationStore.frames.map((frame, index) => 
+                  <LazyMount key={frame.key} placeholderHeight={App.framePlaceholderHeight} render={() => this.renderFrame(index)}/>
+                )
+            }
+          </Grid>
         </Grid>
 
         <Grid container rowSpacing={1} columnGap={0} justifyContent="center" alignItems="center">
   
             <Grid item xs={1} sm={1} md={1} textAlign="center">
-              <input style={{ display: "none" }} type="file" multiple ref={this.folderUploadRef} accept=".png" onChange={this.handleFileUpload}/>
+              <input style={{ display: "none" }} type="file" multiple ref={this.folderUploadRef} accept=".png,.dcm,.dicom,application/dicom" onChange={this.handleFileUpload}/>
               <Button onClick={this.folderUpload}>Upload Folder</Button>
             </Grid>
 
             <Grid item xs={1} sm={1} md={1} textAlign="center">
-              <input style={{ display: "none" }} type="file" multiple ref={this.filesUploadRef} accept=".png" onChange={this.handleFileUpload}/>
+              <input style={{ display: "none" }} type="file" multiple ref={this.filesUploadRef} accept=".png,.dcm,.dicom,application/dicom" onChange={this.handleFileUpload}/>
               <Button onClick={this.filesUpload}>Upload Files</Button>
             </Grid>
 
-            <Grid item xs={2} sm={2} md={2} textAlign="center">
-              <label>Mask suffix:<input type="text" value={ this.suffix } onChange={this.handleSuffixChange}/></label>
+            <Grid item xs={1} sm={1} md={1} textAlign="center">
+              <Button onClick={this.showStoredSessions}>Autosaved Work</Button>
             </Grid>
 
+            <Grid item xs={1} sm={1} md={1} textAlign="center">
+              <Button onClick={this.togglePairing}>Pairing</Button>
+            </Grid>
+
+            { // If there are frames, show the button switching between the overview and review modes
+              this.frameCount !== 0 &&
+                <Grid item xs={1} sm={1} md={1} textAlign="center">
+                  <Button onClick={this.toggleViewMode}>{this.state.viewMode === "overview" ? "Review Mode" : "Overview"}</Button>
+                </Grid>
+            }
+
+            <Grid item xs={4} sm={4} md={4} textAlign="center">
+              <label>Filename schema:<input type="text" size={40} value={ this.state.schemaPattern } onChange={this.handleSchemaPatternChange}/></label>
+              <Select size="small" value={this.state.schemaMode} onChange={this.handleSchemaModeChange}>
+                <MenuItem value="template">Template</MenuItem>
+                <MenuItem value="regex">Regex</MenuItem>
+              </Select>
+              <Button onClick={this.toggleSchemaPreview}>Preview</Button>
+              { // Show the schema error, if any
+                this.state.schemaError && <p style={{ color: "red" }}>{this.state.schemaError}</p>
+              }
+            </Grid>
+
+            <Grid item xs={1} sm={1} md={1} textAlign="center">
+              <Select size="small" multiple value={this.state.metrics} onChange={this.handleMetricsChange} 
+                renderValue={selected => "Metrics (" + selected.length + ")"} title="Metrics shown on the canvases and exported to the workbook">
+                {qcaMetrics.map(metric => <MenuItem key={metric} value={metric}>{qcaMetricLabels[metric]}</MenuItem>)}
+              </Select>
+            </Grid>
+
+            <Grid item xs={1} sm={1} md={1} textAlign="center">
+              <Button onClick={this.toggleExclusionReasons}>Exclusion Reasons</Button>
+            </Grid>
+
+            <Grid item xs={1} sm={1} md={1} textAlign="center">
+              <label>Reader ID:<input type="text" size={10} value={ this.state.readerID } onChange={this.handleReaderIDChange}/></label>
+            </Grid>
+
+            { // If the last autosave failed, show that the work is not being saved
+              this.state.autosaveError &&
+                <Grid item xs={2} sm={2} md={2} textAlign="center">
+                  <p style={{ color: "red" }} title={this.state.autosaveError}>Autosave unavailable</p>
+                </Grid>
+            }
+
             { // If there are frames, show the image and mask download button
-              this.framesArray?.length !== 0 &&
+              this.frameCount !== 0 &&
                 <Grid item classes={{ root: "item" }} xs={2} sm={2} md={2}>
                   <Button onClick={this.downloadImagesAndMasks}>Download Images and Masks</Button>
                 </Grid>
             }
 
             { // If there are frames, show the excel download button
-              this.framesArray?.length !== 0 &&
+              this.frameCount !== 0 &&
                 <Grid item classes={{ root: "item" }} xs={2} sm={2} md={2}>
                   <Button onClick={this.downloadExcel}>Download Excel</Button>
+                  <Button onClick={this.toggleSummary}>Summaries</Button>
+                  <Button onClick={this.toggleAgreement}>Agreement</Button>
+                </Grid>
+            }
+
+            { // If there are frames, show the session export button
+              this.frameCount !== 0 &&
+                <Grid item classes={{ root: "item" }} xs={2} sm={2} md={2}>
+                  <Button onClick={this.exportSession}>Export Session</Button>
+                </Grid>
+            }
+
+            { // If there are frames, show the session import button
+              this.frameCount !== 0 &&
+                <Grid item classes={{ root: "item" }} xs={2} sm={2} md={2}>
+                  <input style={{ display: "none" }} type="file" ref={this.sessionUploadRef} accept=".json" onChange={this.handleSessionUpload}/>
+                  <Button onClick={this.sessionUpload}>Import Session</Button>
+                </Grid>
+            }
+
+            { // If there are frames, show the readers import button
+              this.frameCount !== 0 &&
+                <Grid item classes={{ root: "item" }} xs={2} sm={2} md={2}>
+                  <input style={{ display: "none" }} type="file" multiple ref={this.readersUploadRef} accept=".json" onChange={this.handleReadersUpload}/>
+                  <Button onClick={this.readersUpload}>Import Readers</Button>
+                  <Button onClick={this.toggleReaders}>Readers</Button>
                 </Grid>
             }
           </Grid>  
+
+        {/* Pairing of the uploaded images and masks */}
+        <PairingDialog 
+          open={this.state.pairingOpen} 
+          files={this.state.uploadedFiles} 
+          options={this.state.pairingOptions}
+          onOptionsChange={this.handlePairingOptionsChange} 
+          onLoad={this.loadPairs} 
+          onClose={this.togglePairing}/>
+
+        {/* Keys of the summary sheets of the workbook */}
+        <SummaryDialog 
+          open={this.state.summaryOpen} 
+          sheets={this.state.summarySheets} 
+          extraFields={Frame.filenameSchema.extraFields}
+          onChange={this.handleSummarySheetsChange} 
+          onClose={this.toggleSummary}/>
+
+        {/* Agreement between the images and masks over every frame */}
+        <AgreementDialog 
+          open={this.state.agreementOpen} 
+          annotations={this.state.agreementOpen ? this.annotationStore.frames.map(frame => frame.annotation) : []}
+          metrics={this.state.metrics}
+          onClose={this.toggleAgreement}/>
+
+        {/* Reasons the frames can be excluded for */}
+        <ExclusionReasonsDialog 
+          open={this.state.exclusionReasonsOpen} 
+          reasons={this.state.exclusionReasons}
+          onChange={this.handleExclusionReasonsChange} 
+          onClose={this.toggleExclusionReasons}/>
+
+        {/* Readers whose annotations were imported, and their variability */}
+        <ReadersDialog 
+          open={this.state.readersOpen} 
+          sets={this.state.readerSets}
+          onRemove={this.handleReaderRemove}
+          onClose={this.toggleReaders}/>
+
+        {/* Preview of the metadata parsed from the uploaded filenames */}
+        <Dialog open={this.state.schemaPreviewOpen} onClose={this.toggleSchemaPreview} maxWidth="lg">
+          <DialogTitle>Filename Schema Preview</DialogTitle>
+          <DialogContent>
+            { // Show a message if there are no frames
+              this.framesRefArray.length === 0 && <p>Upload some files to preview how their names are parsed.</p>
+            }
+            { // Otherwise, show how each filename is parsed
+              this.framesRefArray.length !== 0 && this.renderSchemaPreview()
+            }
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={this.toggleSchemaPreview}>Close</Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* List of the autosaved sessions */}
+        <Dialog open={this.state.storedSessions !== null} onClose={this.hideStoredSessions} maxWidth="md">
+          <DialogTitle>Autosaved Work</DialogTitle>
+          <DialogContent>
+            { // Show a message if there are no autosaved sessions
+              this.state.storedSessions?.length === 0 && <p>There is no autosaved work.</p>
+            }
+            { // Otherwise, list them
+              this.state.storedSessions?.map(session =>
+                <Grid container key={session.sessionID} alignItems="center" columnGap={2}>
+                  <Grid item>Uploaded {new Date(session.sessionID).toLocaleString()}</Grid>
+                  <Grid item>{session.completeCount}/{session.frameCount} frames complete</Grid>
+                  <Grid item>Last saved {new Date(session.lastSavedAt).toLocaleString()}</Grid>
+                  <Grid item><Button color="error" onClick={() => this.deleteStoredSession(session.sessionID)}>Delete</Button></Grid>
+                </Grid>
+              )
+            }
+          </DialogContent>
+          <DialogActions>
+            <Button color="error" onClick={this.clearStoredSessions} disabled={this.state.storedSessions?.length === 0}>Delete All</Button>
+            <Button onClick={this.hideStoredSessions}>Close</Button>
+          </DialogActions>
+        </Dialog>
       </div>
     )
   }
@@ -1,9 +1,15 @@
 import { Point } from "./Point";
+import { LineRole } from "./LineRole";
 
 export default abstract class AbstractLine {
     private _startPoint: Point;
     private _endPoint: Point;
     private _length: number;
+    private _role: LineRole | null = null;
+    private _lesion: number = 1;
+    private _raw: { start: Point, end: Point } | null = null;
+    private _created: string | null = null;
+    private _modified: string | null = null;
   
     constructor(startPoint: Point, endPoint: Point) {
       this._startPoint = startPoint; 
@@ -18,6 +24,28 @@ export default abstract class AbstractLine {
   
     // Draw the line on the given canvas
     public abstract draw(ctx: CanvasRenderingContext2D): void;
+
+    // Create a line of the same class between the given points
+    protected abstract create(startPoint: Point, endPoint: Point): AbstractLine;
+
+    // Copy the line with other end points, keeping its role, lesion and timestamps. Lines stored in the canvas history
+    // are replaced by edited copies instead of being modified
+    public withPoints(startPoint: Point, endPoint: Point): AbstractLine {
+      let line = this.create({ ...startPoint }, { ...endPoint });
+      line.role = this.role;
+      line.lesion = this.lesion;
+      line.created = this.created;
+      line.modified = this.modified;
+      return line;
+    }
+
+    // Copy the line with another role, keeping the end points it was drawn with, if it was snapped
+    public withRole(role: LineRole | null): AbstractLine {
+      let line = this.withPoints(this.startPoint, this.endPoint);
+      line.role = role;
+      line.raw = this.raw;
+      return line;
+    }
   
     // Getters
     public get startPoint() { return this._startPoint }
@@ -27,6 +55,15 @@ export default abstract class AbstractLine {
     public get endX() { return this._endPoint.x }
     public get endY() { return this._endPoint.y } 
     public get length() { return this._length }
+    public get role() { return this._role }
+    public get lesion() { return this._lesion }
+    // End points the line was drawn with, before they were snapped to the vessel edges, or null if it was not snapped
+    public get raw() { return this._raw }
+    // Length of the line as drawn, before snapping
+    public get rawLength() { return this._raw ? Math.hypot(this._raw.end.x - this._raw.start.x, this._raw.end.y - this._raw.start.y) : this._length }
+    // ISO dates when the line was drawn and last changed, or null for lines drawn before they were recorded
+    public get created() { return this._created }
+    public get modified() { return this._modified }
   
     // Setters
     public set startPoint(startPoint: Point) { this._startPoint = startPoint }
@@ -35,4 +72,9 @@ export default abstract class AbstractLine {
     public set endPoint(endPoint: Point) { this._endPoint = endPoint }
     public set endX(endX: number) { this._endPoint.x = endX }
     public set endY(endY: number) { this._endPoint.y = endY }
+    public set role(role: LineRole | null) { this._role = role }
+    public set lesion(lesion: number) { this._lesion = lesion }
+    public set raw(raw: { start: Point, end: Point } | null) { this._raw = raw }
+    public set created(created: string | null) { this._created = created }
+    public set modified(modified: string | null) { this._modified = modified }
   }
\ No newline at end of file
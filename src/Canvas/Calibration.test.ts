@@ -0,0 +1,29 @@
+import { createCalibration, createPixelSpacingCalibration, formatLength, frenchToMillimetres, pixelsToMillimetres } from './Calibration';
+
+test('catheter sizes are converted from French to millimetres', () => {
+  expect(frenchToMillimetres(6)).toBeCloseTo(2);
+  expect(frenchToMillimetres(5)).toBeCloseTo(1.6667);
+
+  let calibration = createCalibration(40, frenchToMillimetres(6), 6);
+  expect(calibration?.source).toBe("catheter");
+  expect(calibration?.frenchSize).toBe(6);
+  expect(calibration?.mmPerPixel).toBeCloseTo(0.05);
+  expect(createCalibration(40, 10)?.source).toBe("length");
+});
+
+test('calibrations need positive lengths', () => {
+  expect(createCalibration(0, 2)).toBeNull();
+  expect(createCalibration(40, -2)).toBeNull();
+  expect(createCalibration(NaN, 2)).toBeNull();
+  expect(createPixelSpacingCalibration(0)).toBeNull();
+  expect(createPixelSpacingCalibration(-0.2)).toBeNull();
+  expect(createPixelSpacingCalibration(0.2)).toMatchObject({ source: "dicom", mmPerPixel: 0.2 });
+});
+
+test('lengths are shown in pixels and, once calibrated, millimetres', () => {
+  let calibration = createPixelSpacingCalibration(0.1);
+  expect(formatLength(12.345, null)).toBe("12.35 px");
+  expect(formatLength(12.345, calibration)).toBe("12.35 px (1.23 mm)");
+  expect(pixelsToMillimetres(10, calibration)).toBeCloseTo(1);
+  expect(pixelsToMillimetres(10, undefined)).toBeNaN();
+});
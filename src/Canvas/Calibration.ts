@@ -0,0 +1,58 @@
+// Pixel-to-millimetre calibration of a frame, obtained from a reference object of known size, such as
+// the guiding catheter, drawn over the image, or from the pixel spacing of a DICOM file
+export type CalibrationSource = "catheter" | "length" | "dicom";
+
+export type Calibration = {
+  source: CalibrationSource,                                                    // Type of the reference object
+  referencePixels: number,                                                      // Length of the reference line, in pixels
+  referenceMillimetres: number,                                                 // Known length of the reference object, in millimetres
+  frenchSize: number | null,                                                    // French size of the catheter, if the source is a catheter
+  mmPerPixel: number                                                            // Resulting calibration factor
+}
+
+export type CalibrationScope = "frame" | "acquisition";
+
+// Catheter sizes offered in the calibration menu, in French
+export const frenchSizes = [4, 5, 6, 7, 8, 9, 10];
+
+// Convert a French catheter size into its outer diameter in millimetres (1 Fr = 1/3 mm)
+export function frenchToMillimetres(frenchSize: number): number {
+  return frenchSize / 3;
+}
+
+// Build a calibration from a reference line and the known length of the object it spans. Returns null
+// if either length is not a positive number
+export function createCalibration(referencePixels: number, referenceMillimetres: number, frenchSize: number | null = null): Calibration | null {
+  if(!(referencePixels > 0) || !(referenceMillimetres > 0)) return null;
+  return {
+    source: frenchSize !== null ? "catheter" : "length",
+    referencePixels: referencePixels,
+    referenceMillimetres: referenceMillimetres,
+    frenchSize: frenchSize,
+    mmPerPixel: referenceMillimetres / referencePixels
+  };
+}
+
+// Build a calibration from a known pixel spacing, in millimetres per pixel
+export function createPixelSpacingCalibration(mmPerPixel: number): Calibration | null {
+  if(!(mmPerPixel > 0)) return null;
+  return {
+    source: "dicom",
+    referencePixels: 1,
+    referenceMillimetres: mmPerPixel,
+    frenchSize: null,
+    mmPerPixel: mmPerPixel
+  };
+}
+
+// Convert a length in pixels into millimetres, or NaN if there is no calibration
+export function pixelsToMillimetres(pixels: number, calibration: Calibration | null | undefined): number {
+  return calibration ? pixels * calibration.mmPerPixel : NaN;
+}
+
+// Format a length for display, in pixels and, if there is a calibration, in millimetres
+export function formatLength(pixels: number, calibration: Calibration | null | undefined): string {
+  let text = Math.round(pixels*100)/100 + " px";
+  if(calibration) text += " (" + Math.round(pixelsToMillimetres(pixels, calibration)*100)/100 + " mm)";
+  return text;
+}
@@ -1,18 +1,38 @@
 import React from "react";
 import Switch from '@mui/material/Switch'; 
 import Button from '@mui/material/Button'; 
-import { FormControlLabel, IconButton } from "@mui/material";
+import { Checkbox, FormControlLabel, IconButton, Menu, MenuItem, Select, SelectChangeEvent, TextField } from "@mui/material";
 import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ZoomOutMapIcon from '@mui/icons-material/ZoomOutMap';
 import { saveAs } from 'file-saver'
 import ClearIcon from '@mui/icons-material/Clear';
 import { Point } from "./Point";
 import { PixelLine } from "./PixelLine";
 import { FluidLine } from "./FluidLine";
 import AbstractLine from "./AbstractLine";
+import { Calibration, CalibrationScope, createCalibration, formatLength, frenchSizes, frenchToMillimetres } from "./Calibration";
+import { boundaryRoles, findLineByRole, inferLineRoles, LineRole, lineRoleLabels, lineRoles, lineRoleShortLabels, nextLineRole, qcaLineRoles } from "./LineRole";
+import { firstLesionID, isAnnotationComplete, isLesionComplete, lesionIDs, lesionLines, nextLesionID } from "./Lesion";
+import { LineHistory } from "./LineHistory";
+import { areaStenosisPercentage, diameterStenosisPercentage, interpolatedAreaStenosisPercentage, interpolatedDiameterStenosisPercentage, 
+  interpolatedReferenceDiameter, lesionLength, lesionMetrics } from "./Stenosis";
+import { defaultQCAMetrics, formatQCAMetric, QCAMetric, qcaMetricLabels } from "../Metrics/QCAMetrics";
+import { edgeCriteria, EdgeCriterion, edgeCriterionLabels, findEdges, IntensityProfile, profileToCSV, sampleProfile, snapToEdges } from "./EdgeDetection";
+import ProfileChart from "./ProfileChart";
+import { Centerline, placeDiameterLines, traceCenterline } from "./Centerline";
+import { ReaderLines } from "../Readers/Readers";
 
 type CanvasProps = {
   backgroundImage: HTMLImageElement,                                            // URL of the initial background image  
-  maxLines: number                                                              // Maximum number of lines to be drawn
+  onLinesChange?: () => void,                                                   // Called whenever lines are added, edited, restored, undone or redone
+  onAction?: (action: string) => void,                                          // Called with the description of each change of the lines by the user
+  calibration?: Calibration | null,                                             // Pixel-to-millimetre calibration of the frame
+  onCalibrate?: (calibration: Calibration | null, scope: CalibrationScope) => void, // Called when the user applies or clears a calibration
+  centerlineTracing?: boolean,                                                  // Whether the lines can be measured along the vessel centerline, e.g., on masks
+  metrics?: QCAMetric[],                                                        // Metrics printed for each lesion, by default the diameter and area stenosis
+  readerLines?: ReaderLines[]                                                   // Lines of other readers, shown under the lines being edited
 }
 type CanvasState = {
   height: number,                                                               // Height of the canvas
@@ -20,12 +40,34 @@ type CanvasState = {
   lines: AbstractLine[],                                                        // Either the array of pixelLines or fluidLines
   pixelLines: PixelLine[],                                                      // Pixelized lines to be plotted in the canvas
   fluidLines: FluidLine[],                                                      // Fluid lines to be plotted in the canvas
-  editMode: boolean                                                             // Whether canvas edition is enabled or not
+  editMode: boolean,                                                            // Whether canvas edition is enabled or not
+  selectedLine: AbstractLine | null,                                            // Line selected for edition, if any
+  previewLine: AbstractLine | null,                                             // Edited copy of the selected line while it is dragged
+  activeLesion: number,                                                         // Lesion to which the lines drawn are added
+  selectedRole: LineRole | "",                                                  // Role of the next line drawn, or "" to follow the drawing order
+  roleMenu: { position: Point, line: AbstractLine } | null,                     // Context menu to change the role of a line, if open
+  qcaMode: boolean,                                                             // Whether the lesion boundaries are drawn and the standard QCA metrics shown
+  snapCriterion: EdgeCriterion | "",                                            // Criterion used to snap the drawn lines to the vessel edges, or "" if off
+  hoveredSample: { chart: "intensity" | "diameter", index: number } | null,      // Sample hovered on the intensity or diameter profile chart, if any
+
+  // Calibration info
+  calibrationMode: boolean,                                                     // Whether the user is drawing a calibration line
+  calibrationLine: FluidLine | null,                                            // Line drawn across the calibration reference object
+  calibrationFrenchSize: number | "",                                           // Selected catheter size, or "" if a known length is used
+  calibrationLength: string,                                                    // Known length of the reference object, in millimetres
+  calibrationScope: CalibrationScope,                                           // Whether the calibration applies to the frame or to its acquisition
+
+  // Centerline info
+  centerlineMode: boolean,                                                      // Whether the user is clicking the ends of a centerline
+  centerlineStart: Point | null,                                                // First end clicked, in pixels, until the second one is
+  centerline: Centerline | null                                                 // Centerline last traced, with the vessel diameter along it
 }
 
-// FIXME rendering pixel lines is slower
 // FIXME does not work for images of different sizes
-// FIXME the image.onload method in the constructor expects the canvas rendering context object to be available, which might not be true
+
+// The canvas is rendered in two layers: a background canvas, which only blits the image, filtered once whenever the brightness
+// or contrast change, and an overlay canvas on top of it, which holds the lines and receives the mouse events. Drawing and editing
+// lines only redraw the overlay, and panning and zooming redraw the background without filtering the image again
 
 export class Canvas extends React.Component<CanvasProps, CanvasState> {
   // Default properties of the Canvas class
@@ -33,6 +75,15 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
   private static maxZoomOut: number = 0.2;                                      // Maximum zoomout factor
   private static lineWidth: number = 1;                                         // Line width
   private static lineColor: string = '#00FF00';                                 // Line color
+  private static calibrationLineColor: string = '#FFFF00';                      // Calibration line color
+  private static selectedLineColor: string = '#00FFFF';                         // Selected line color
+  private static profileMarkerColor: string = '#FF00FF';                        // Color of the position hovered on the profile charts
+  private static centerlineColor: string = '#FFA500';                           // Color of the centerline and its clicked ends
+  private static handleSize: number = 4;                                        // Size, in screen pixels, of the end point handles of the selected line
+  private static clickDistance: number = 3;                                     // Maximum mouse movement, in screen pixels, of a click
+  private static labelFont: string = '10px sans-serif';                         // Font of the line role labels
+  private static lineHitDistance: number = 5;                                   // Maximum distance, in screen pixels, to pick a line with the mouse
+  private static defaultFrenchSize: number = 6;                                 // Default catheter size of the calibration menu
 
   // Brightness settings
   private static _defaultBrightness = 100;                                     
@@ -51,18 +102,22 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
   private zoomFactor: number = 1;                                               // Current zoom factor
   private startPoint: Point = { x: 0, y: 0 };                                   // Starting mouse click position
   private endPoint: Point = { x: 0, y: 0 };                                     // Final mouse click position
-  private lastObjectType: typeof FluidLine | typeof PixelLine | null = null;    // Type of the last object added, allowing to undo operations
+  private history = new LineHistory();                                          // Undo and redo history of the lines
+  private silentLinesChange: boolean = false;                                   // Whether the next change of the lines is not notified
+  private lineDrag: { handle: "start" | "end" | "line", origin: Point } | null = null; // Part of the selected line being dragged, if any
 
   // Canvas elements
-  private canvasRef: React.RefObject<HTMLCanvasElement>;                        // Canvas reference
-  private ctx: CanvasRenderingContext2D | null = null;                          // Canvas rendering context
+  private canvasRef: React.RefObject<HTMLCanvasElement>;                        // Overlay canvas reference
+  private ctx: CanvasRenderingContext2D | null = null;                          // Overlay canvas rendering context, whose transforms are tracked
+  private backgroundRef = React.createRef<HTMLCanvasElement>();                 // Background canvas reference
+  private backgroundCtx: CanvasRenderingContext2D | null = null;                // Background canvas rendering context
+  private backgroundLayer: HTMLCanvasElement | null = null;                     // Offscreen canvas with the filtered background image
   private _brightness: number;                                                  // Brightness filter
   private _contrast: number;                                                    // Contrast filter
   private svg = document.createElementNS("http://www.w3.org/2000/svg",'svg');   // SVG namespace, used as an auxiliary for the transformation
   private xform: DOMMatrix = this.svg.createSVGMatrix();                        // Transformation matrix between the initial canvas context and the current one
   private savedTransforms: DOMMatrix[] = [];                                    // Stack of saved transformation
   private originalImageData: ImageData | undefined | null = null;               // Image data extracted from the background image
-  private promiseNumber: number = 0;                                            // Number of the promise used to wait for the images to load
 
   // Initial canvas state
   state: CanvasState = {                                          
@@ -71,7 +126,23 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
     lines: [],
     pixelLines: [],
     fluidLines: [], 
-    editMode: true
+    editMode: true,
+    selectedLine: null,
+    previewLine: null,
+    activeLesion: firstLesionID,
+    selectedRole: "",
+    roleMenu: null,
+    qcaMode: false,
+    snapCriterion: "",
+    hoveredSample: null,
+    calibrationMode: false,
+    calibrationLine: null,
+    calibrationFrenchSize: Canvas.defaultFrenchSize,
+    calibrationLength: "",
+    calibrationScope: "frame",
+    centerlineMode: false,
+    centerlineStart: null,
+    centerline: null
   };
 
   // Creates a reference to the canvas and sets the initial state
@@ -81,39 +152,46 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
     this._contrast = Canvas.defaultContrast;
     this.canvasRef = React.createRef();
 
+    // Once the image is loaded, extract its data on an offscreen canvas, build the filtered background layer and resize the canvases
     this.props.backgroundImage.onload = () => {
-      // Use a promise so that the program waits for the image to be draw to get its data
-      let promiseCount = ++this.promiseNumber;
-      new Promise((resolve) => {
-        this.ctx?.drawImage(this.props.backgroundImage, 0, 0);
-        resolve(promiseCount);
-      }).then(() => this.originalImageData = this.ctx?.getImageData(0, 0, this.state.width, this.state.height))
-      
-      this.setState(
-        { height: this.props.backgroundImage.height, width: this.props.backgroundImage.width}
-      );
+      let image = this.props.backgroundImage;
+      let canvas = document.createElement("canvas");
+      canvas.width = image.width;
+      canvas.height = image.height;
+      let ctx = canvas.getContext("2d");
+      ctx?.drawImage(image, 0, 0);
+      this.originalImageData = ctx?.getImageData(0, 0, image.width, image.height);
+      this.updateBackgroundLayer();
+      this.setState({ height: image.height, width: image.width }, this.redraw);
     }
   }
 
-  // Adds a listener for the wheel event, retrieves the rendering context, 
-  // modifies it to track transforms, and saves the default canvas state
+  // Adds a listener for the wheel event, retrieves the rendering contexts, 
+  // modifies the overlay one to track transforms, and saves the default canvas state
   componentDidMount() {
     this.canvasRef.current?.addEventListener('wheel', this.handleScroll, { passive: false });
+    this.backgroundCtx = this.backgroundRef.current?.getContext("2d") ?? null;
     let ctx = this.canvasRef.current?.getContext("2d");
     if(ctx != null) {
       this.ctx = ctx;
       this.trackTransforms();
-      this.ctx.lineWidth = Canvas.lineWidth;
-      this.ctx.strokeStyle = Canvas.lineColor;
-      this.ctx.fillStyle = Canvas.lineColor;
-      this.ctx.imageSmoothingEnabled = false;
+      this.configureContexts();
       // Save the current canvas state as the default
       this.ctx.save();
     }
   }
 
-  componentDidUpdate() {
-    this.redraw();
+  // Redraw the overlay whenever the state changes. Resizing the canvases resets their contexts, so the view is reset as well
+  componentDidUpdate(prevProps: CanvasProps, prevState: CanvasState) {
+    if(prevState.width !== this.state.width || prevState.height !== this.state.height) {
+      this.configureContexts();
+      this.resetView();
+    } else this.redrawOverlay();
+    if(prevState.lines !== this.state.lines) {
+      if(!this.silentLinesChange) this.props.onLinesChange?.();
+      this.silentLinesChange = false;
+    }
+    if(prevState.selectedLine !== this.state.selectedLine && this.state.hoveredSample?.chart === "intensity") this.setState({ hoveredSample: null });
   }
 
   // Before the component umnounts, remove the wheel event listener
@@ -143,16 +221,19 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
   public static set defaultContrast(defaultContrast: number) { Canvas._defaultContrast = defaultContrast }
   public set brightness(brightness: number) { 
     this._brightness = brightness;
-    this.redraw();
+    this.updateBackgroundLayer();
+    this.redrawBackground();
   }
   public set contrast(contrast: number) {
     this._contrast = contrast;
-    this.redraw();
+    this.updateBackgroundLayer();
+    this.redrawBackground();
   }
   public setFilters = (brightness: number, contrast: number) => {
-    this.contrast = contrast;
-    this.brightness = brightness;
-    this.redraw();
+    this._contrast = contrast;
+    this._brightness = brightness;
+    this.updateBackgroundLayer();
+    this.redrawBackground();
   }
 
   /***************************************************************************************************/
@@ -160,61 +241,239 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
   /***************************************************************************************************/
 
   /************************ Line addition and stenosis percentage computation ************************/
-  // Add a fluid line to the canvas, if the number of fluid lines is below the maximum and there are no pixel lines
-  public addFluidLine = (line: FluidLine, save: boolean = true) => {
-    if(this.state.fluidLines.length < this.props.maxLines && this.state.pixelLines.length === 0) {
-      this.lastObjectType = FluidLine;
-      line.draw(this.ctx as CanvasRenderingContext2D);
-      if(save) {
-        this.setState(prevState => ({
-          lines: [...prevState.lines, line],
-          fluidLines: [...prevState.fluidLines, line],
-          editMode: this.state.editMode && prevState.lines.length + 1 < this.props.maxLines
-        }));
-      }
-    }
+  // Add a fluid line to the canvas, if there are no pixel lines. Editing stops once the lesion of the line is complete
+  public addFluidLine = (line: FluidLine) => {
+    if(this.history.lines.some(other => other instanceof PixelLine)) return;
+    let lines = [...this.assignRole(line, this.history.lines), line];
+    this.executeCommand("Draw line", lines, { editMode: this.state.editMode && !isLesionComplete(lines, line.lesion, this.drawingRoles) });
   }
 
-  // Add a pixel line to the canvas, if the number of pixel lines is below the maximum and there are no fluid lines
-  public addPixelLine = (pixelLine: PixelLine, save: boolean = true) => {
-    if(this.state.pixelLines.length < this.props.maxLines && this.state.fluidLines.length === 0) {
-      this.lastObjectType = PixelLine;
-      pixelLine.draw(this.ctx as CanvasRenderingContext2D);
-      if(save) {
-        this.setState(prevState => ({
-          lines: [...prevState.lines, pixelLine],
-          pixelLines: [...prevState.pixelLines, pixelLine],
-          editMode: this.state.editMode && prevState.lines.length + 1 < this.props.maxLines
-        }));
-      }
-    }
+  // Add a pixel line to the canvas, if there are no fluid lines. Editing stops once the lesion of the line is complete
+  public addPixelLine = (pixelLine: PixelLine) => {
+    this.addPixelLines([pixelLine]);
+  }
+
+  // Add several pixel lines to the canvas as a single command, e.g., when propagating lines, if there are no fluid lines
+  public addPixelLines = (pixelLines: PixelLine[]) => {
+    if(pixelLines.length === 0 || this.history.lines.some(other => other instanceof FluidLine)) return;
+    let lines = this.history.lines;
+    pixelLines.forEach(pixelLine => lines = [...this.assignRole(pixelLine, lines), pixelLine]);
+    let lesion = pixelLines[pixelLines.length - 1].lesion;
+    this.executeCommand(pixelLines.length === 1 ? "Draw line" : "Propagate lines", lines, 
+      { editMode: this.state.editMode && !isLesionComplete(lines, lesion, this.drawingRoles) });
+  }
+
+  // Replace every line of the canvas by the given ones as a single command, e.g., when propagating lines
+  public replaceLines = (lines: AbstractLine[], description: string = "Propagate lines") => {
+    this.executeCommand(description, lines, { editMode: !isAnnotationComplete(lines) });
+  }
+
+  // Remove the given line
+  public deleteLine = (line: AbstractLine) => {
+    this.executeCommand("Delete line", this.history.lines.filter(other => other !== line), { editMode: true, activeLesion: line.lesion });
+  }
+
+  // Replace the lines drawn on the canvas by the given ones, e.g., when restoring a saved session.
+  // As in addFluidLine and addPixelLine, fluid and pixel lines are not mixed. Lines saved without roles get
+  // the roles they were implicitly given before roles existed. Unless notify is true, the change is not notified, e.g.,
+  // when the lines are those already stored
+  public restoreLines = (lines: AbstractLine[], notify: boolean = true) => {
+    let fluidLines = lines.filter(line => line instanceof FluidLine) as FluidLine[];
+    let pixelLines = lines.filter(line => line instanceof PixelLine) as PixelLine[];
+    if(fluidLines.length !== 0) pixelLines = [];
+    let restored = [...fluidLines, ...pixelLines];
+    lesionIDs(restored).forEach(lesion => inferLineRoles(lesionLines(restored, lesion)));
+
+    // Continue with the first incomplete lesion, if any, or the last one
+    let lesions = lesionIDs(restored);
+    let activeLesion = lesions.find(lesion => !isLesionComplete(restored, lesion)) ?? lesions[lesions.length - 1] ?? firstLesionID;
+
+    this.history.reset(restored);
+    this.silentLinesChange = !notify;
+    this.setState({
+      ...this.linesState(restored),
+      selectedLine: null,
+      activeLesion: activeLesion,
+      editMode: !isAnnotationComplete(restored)
+    });
+  }
+
+  // Diameter stenosis percentage of a lesion, relative to the mean reference diameter
+  public computeDiameterStenosisPercentage = (lesion: number = firstLesionID): number | undefined => {
+    return diameterStenosisPercentage(this.lines, lesion);
+  }
+
+  // Area stenosis percentage of a lesion, relative to the mean reference area
+  public computeAreaStenosisPercentage = (lesion: number = firstLesionID): number | undefined => {
+    return areaStenosisPercentage(this.lines, lesion);
+  }
+
+  /******************************************* Line history ******************************************/
+  // Split the given lines into the fluid and pixel lines of the canvas state
+  private linesState = (lines: AbstractLine[]) => {
+    return {
+      lines: lines,
+      fluidLines: lines.filter(line => line instanceof FluidLine) as FluidLine[],
+      pixelLines: lines.filter(line => line instanceof PixelLine) as PixelLine[]
+    };
+  }
+
+  // Replace the lines of the canvas through the history, so that the change can be undone, along with other state changes.
+  // The lines that were not drawn before, either new or edited copies, are stamped with the time of the change.
+  // The selected line is kept, if it is still drawn
+  private executeCommand = (description: string, lines: AbstractLine[], state: Partial<CanvasState> = {}) => {
+    let now = new Date().toISOString();
+    lines.filter(line => !this.history.lines.includes(line)).forEach(line => {
+      line.created = line.created ?? now;
+      line.modified = now;
+    });
+    this.history.execute(description, lines);
+    this.props.onAction?.(description);
+    this.setState({
+      ...this.linesState(lines),
+      selectedLine: this.state.selectedLine && lines.includes(this.state.selectedLine) ? this.state.selectedLine : null,
+      ...state
+    } as CanvasState);
+  }
+
+  // Undo the last change of the lines, continuing the edition if the active lesion is no longer complete
+  public undo = () => {
+    let command = this.history.undo();
+    if(!command) return;
+    this.props.onAction?.("Undo " + command.description.toLowerCase());
+    this.updateLinesFromHistory();
+  }
+
+  // Redo the last undone change of the lines
+  public redo = () => {
+    let command = this.history.redo();
+    if(!command) return;
+    this.props.onAction?.("Redo " + command.description.toLowerCase());
+    this.updateLinesFromHistory();
+  }
+
+  // Update the lines in the state after undoing or redoing a change
+  private updateLinesFromHistory = () => {
+    let lines = this.history.lines;
+    this.setState({
+      ...this.linesState(lines),
+      selectedLine: null,
+      previewLine: null,
+      editMode: this.state.editMode || !isLesionComplete(lines, this.state.activeLesion, this.drawingRoles)
+    });
+  }
+
+  /*************************************** Line roles and lesions ************************************/
+  // Roles given to the drawn lines, in drawing order: the diameter roles and, in QCA mode, the lesion boundaries
+  private get drawingRoles(): LineRole[] {
+    return this.state.qcaMode ? qcaLineRoles : lineRoles;
+  }
+
+  // Give a new line the selected role or, if none is selected, the next role of its lesion in drawing order.
+  // Return the given lines, where the line of the lesion that had that role, if any, is replaced by a copy without it
+  private assignRole = (line: AbstractLine, lines: AbstractLine[]): AbstractLine[] => {
+    let lesion = lesionLines(lines, line.lesion);
+    if(line.role === null) line.role = this.state.selectedRole !== "" ? this.state.selectedRole : nextLineRole(lesion, this.drawingRoles);
+    if(this.state.selectedRole !== "") this.setState({ selectedRole: "" });
+    let previous = line.role !== null ? findLineByRole(lesion, line.role) : undefined;
+    return previous ? lines.map(other => other === previous ? other.withRole(null) : other) : lines;
+  }
+
+  // Give a line a role, swapping roles with the line of the same lesion that had it, if any
+  public setLineRole = (line: AbstractLine, role: LineRole) => {
+    let previous = findLineByRole(lesionLines(this.history.lines, line.lesion), role);
+    let lines = this.history.lines.map(other => {
+      if(other === line) return line.withRole(role);
+      else if(other === previous) return other.withRole(line.role);
+      else return other;
+    });
+    this.executeCommand("Change line role", lines, { roleMenu: null });
   }
 
-  // Given the three drawn lines or pixel lines, computes the associated diameter stenosis percentage
-  public computeDiameterStenosisPercentage = (): number | undefined => {
-    var lengthsArray: number[] = [];
-    if(this.lines.length !== this.props.maxLines) return undefined;
-    else lengthsArray = this.lines.map(line => line.length).sort((a, b) => a - b);
-    return 1 - 2 * lengthsArray[0] / (lengthsArray[1] + lengthsArray[2]) * 100;
+  // Select the lesion to which the next lines are added
+  private handleActiveLesionChange = (e: SelectChangeEvent<number>) => {
+    this.setState({ activeLesion: Number(e.target.value), editMode: true });
   }
 
-  // Given the three drawn lines or pixel lines, computes the associated area stenosis percentage
-  public computeAreaStenosisPercentage = (): number | undefined => {
-    var lengthsArray: number[] = [];
-    if(this.lines.length !== this.props.maxLines) return undefined;
-    else lengthsArray = this.lines.map(line => line.length).sort((a, b) => a - b);
-    return 1 - 2 * Math.PI * Math.pow(0.5*lengthsArray[0], 2) / ( Math.PI * Math.pow(0.5*lengthsArray[1], 2) + Math.PI * Math.pow(0.5*lengthsArray[2], 2)) * 100;
+  // Start a new lesion, unless the active one has no lines yet, and enable the edition
+  private startNewLesion = () => {
+    let hasLines = lesionLines(this.state.lines, this.state.activeLesion).length !== 0;
+    this.setState({ activeLesion: hasLines ? nextLesionID(this.state.lines) : this.state.activeLesion, editMode: true });
+  }
+
+  // Select the role of the next line drawn
+  private handleSelectedRoleChange = (e: SelectChangeEvent<LineRole | "">) => {
+    this.setState({ selectedRole: e.target.value as LineRole | "" });
+  }
+
+  // Open the role menu of the line under the mouse, if any
+  private handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement, MouseEvent>) => {
+    e.preventDefault();
+    let line = this.findLineAt(this.transformPoint(this.getMouseEventPosition(e)));
+    if(line) this.setState({ roleMenu: { position: { x: e.clientX, y: e.clientY }, line: line } });
+  }
+
+  // Close the role menu without changes
+  private closeRoleMenu = () => {
+    this.setState({ roleMenu: null });
+  }
+
+  // Find the line closest to the given point, in image coordinates, within the hit distance
+  private findLineAt = (point: Point): AbstractLine | undefined => {
+    let maxDistance = Canvas.lineHitDistance / this.zoomFactor, closest: AbstractLine | undefined;
+    this.state.lines.forEach(line => {
+      let distance = this.distanceToLine(point, line);
+      if(distance <= maxDistance) {
+        maxDistance = distance;
+        closest = line;
+      }
+    });
+    return closest;
+  }
+
+  // Distance from a point to a line segment
+  private distanceToLine = (point: Point, line: AbstractLine): number => {
+    let deltaX = line.endX - line.startX, deltaY = line.endY - line.startY;
+    let squaredLength = deltaX*deltaX + deltaY*deltaY;
+    let t = squaredLength === 0 ? 0 : ((point.x - line.startX)*deltaX + (point.y - line.startY)*deltaY) / squaredLength;
+    t = Math.max(0, Math.min(1, t));
+    return Math.hypot(point.x - (line.startX + t*deltaX), point.y - (line.startY + t*deltaY));
   }
 
   /******************************* Download and download URL functions *******************************/
+  // Draw the lines over the unfiltered image on an offscreen canvas, leaving the view untouched, and return it as a PNG data URL
   public getDownloadURL = (): string => {
-    this.ctx?.restore();
-    this.ctx?.save();
-    this.clearCanvas();
-    this.ctx?.putImageData(this.originalImageData as ImageData, 0, 0);
-    this.state.fluidLines.forEach((fluidLine) => fluidLine.draw(this.ctx as CanvasRenderingContext2D));
-    this.state.pixelLines.forEach((pixelLine) => pixelLine.draw(this.ctx as CanvasRenderingContext2D));
-    return this.canvasRef.current ? this.canvasRef.current.toDataURL("image/png") : "";
+    if(!this.originalImageData) return "";
+    let canvas = document.createElement("canvas");
+    canvas.width = this.originalImageData.width;
+    canvas.height = this.originalImageData.height;
+    let ctx = canvas.getContext("2d");
+    if(!ctx) return "";
+    Canvas.applyLineStyle(ctx);
+    ctx.putImageData(this.originalImageData, 0, 0);
+    this.state.fluidLines.forEach((fluidLine) => fluidLine.draw(ctx as CanvasRenderingContext2D));
+    this.state.pixelLines.forEach((pixelLine) => pixelLine.draw(ctx as CanvasRenderingContext2D));
+    return canvas.toDataURL("image/png");
+  }
+
+  // Draw the given lines over an image file on an offscreen canvas, as getDownloadURL does, so that frames that are not
+  // mounted can be exported without decoding their images beforehand
+  public static renderAnnotatedImage = (file: File, lines: AbstractLine[]): Promise<Blob> => {
+    return createImageBitmap(file).then(bitmap => new Promise<Blob>((resolve, reject) => {
+      let canvas = document.createElement("canvas");
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      let ctx = canvas.getContext("2d");
+      if(!ctx) {
+        reject(new Error("Could not create a canvas to draw " + file.name));
+        return;
+      }
+      Canvas.applyLineStyle(ctx);
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      lines.forEach(line => line.draw(ctx as CanvasRenderingContext2D));
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode " + file.name)), "image/png");
+    }));
   }
 
   private downloadImage = () => {
@@ -226,37 +485,368 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
   /***************************************************************************************************/
 
   /***************************************** Canvas drawing ******************************************/
-  // Clear the entire canvas
+  // Set the width and color of the lines on a rendering context, keeping the pixels sharp when zoomed in
+  private static applyLineStyle = (ctx: CanvasRenderingContext2D) => {
+    ctx.lineWidth = Canvas.lineWidth;
+    ctx.strokeStyle = Canvas.lineColor;
+    ctx.fillStyle = Canvas.lineColor;
+    ctx.imageSmoothingEnabled = false;
+  }
+
+  // Set the line style of the overlay and disable the smoothing of the background, e.g., once they are created or resized
+  private configureContexts = () => {
+    if(this.ctx) Canvas.applyLineStyle(this.ctx);
+    if(this.backgroundCtx) this.backgroundCtx.imageSmoothingEnabled = false;
+  }
+
+  // Draw the background image with the brightness and contrast filters into the offscreen background layer, so that
+  // the image is only filtered again when the filters change
+  private updateBackgroundLayer = () => {
+    let image = this.props.backgroundImage;
+    if(!image.complete || image.naturalWidth === 0) return;
+    let layer = this.backgroundLayer ?? document.createElement("canvas");
+    layer.width = image.width;
+    layer.height = image.height;
+    let ctx = layer.getContext("2d");
+    if(!ctx) return;
+    ctx.filter = "brightness(" + this.brightness + "%) contrast(" + this.contrast + "%)";
+    ctx.drawImage(image, 0, 0);
+    this.backgroundLayer = layer;
+  }
+
+  // Clear the entire overlay canvas
   private clearCanvas = () => {
     let p1 = this.transformPoint({x: 0, y: 0});
     let p2 = this.transformPoint({x: this.canvasRef.current?.width as number, y: this.canvasRef.current?.height as number});
     this.ctx?.clearRect(p1.x, p1.y, p2.x - p1.x, p2.y - p1.y);
   }
 
-  // Clear the canvas, redraw all its elements, and update the image data object
+  // Redraw both the background and the overlay, e.g., after panning or zooming
   private redraw = () => {
+    this.redrawBackground();
+    this.redrawOverlay();
+  }
+
+  // Blit the filtered background layer with the current zoom and pan transformation
+  private redrawBackground = () => {
+    let ctx = this.backgroundCtx;
+    if(!ctx) return;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, this.state.width, this.state.height);
+    if(!this.backgroundLayer) return;
+    ctx.setTransform(this.xform.a, this.xform.b, this.xform.c, this.xform.d, this.xform.e, this.xform.f);
+    ctx.drawImage(this.backgroundLayer, 0, 0);
+  }
+
+  // Clear the overlay and redraw the lines of the other readers, the lines, their labels, the selected line and the calibration line
+  private redrawOverlay = () => {
     this.clearCanvas();
-    this.ctx?.drawImage(this.props.backgroundImage, 0, 0);
-    let brightnessFilter = "brightness(" + this.brightness + "%)";
-    let contrastFilter = "contrast(" + this.contrast + "%)";
-    (this.ctx as CanvasRenderingContext2D).filter = brightnessFilter + contrastFilter;
-    this.state.fluidLines.forEach((fluidLine) => fluidLine.draw(this.ctx as CanvasRenderingContext2D));
-    this.state.pixelLines.forEach((pixelLine) => pixelLine.draw(this.ctx as CanvasRenderingContext2D));
+    this.props.readerLines?.forEach(this.drawReaderLines);
+    let lines = this.displayedLines;
+    lines.forEach(line => line.draw(this.ctx as CanvasRenderingContext2D));
+    lines.forEach(this.drawLineLabel);
+    let selectedLine = this.state.previewLine ?? this.state.selectedLine;
+    if(selectedLine) this.drawSelectedLine(selectedLine);
+    if(this.state.calibrationMode && this.state.calibrationLine) this.drawCalibrationLine(this.state.calibrationLine);
+    if(this.state.centerlineMode) this.drawCenterline();
+    let hoveredPoint = this.hoveredPoint;
+    if(hoveredPoint) this.drawProfileMarker(hoveredPoint);
+  }
+
+  // Lines to be displayed, with the selected line replaced by its edited copy while it is dragged
+  private get displayedLines(): AbstractLine[] {
+    let previewLine = this.state.previewLine;
+    return previewLine ? this.state.lines.map(line => line === this.state.selectedLine ? previewLine as AbstractLine : line) : this.state.lines;
+  }
+
+  // Draw the selected line with its own color and handles on its end points, restoring the line color afterwards
+  private drawSelectedLine = (line: AbstractLine) => {
+    if(!this.ctx) return;
+    let size = Canvas.handleSize / this.zoomFactor;
+    this.ctx.strokeStyle = Canvas.selectedLineColor;
+    this.ctx.fillStyle = Canvas.selectedLineColor;
+    line.draw(this.ctx);
+    [line.startPoint, line.endPoint].forEach(point => this.ctx?.fillRect(point.x - size/2, point.y - size/2, size, size));
+    this.ctx.strokeStyle = Canvas.lineColor;
+    this.ctx.fillStyle = Canvas.lineColor;
+  }
+
+  // Mark the position hovered on a profile chart, restoring the line color afterwards
+  private drawProfileMarker = (point: Point) => {
+    if(!this.ctx) return;
+    let size = Canvas.handleSize / this.zoomFactor;
+    this.ctx.fillStyle = Canvas.profileMarkerColor;
+    this.ctx.fillRect(point.x - size/2, point.y - size/2, size, size);
+    this.ctx.fillStyle = Canvas.lineColor;
+  }
+
+  // Draw the lines of another reader, with their role labels, in the color of the reader, restoring the line color afterwards
+  private drawReaderLines = (readerLines: ReaderLines) => {
+    if(!this.ctx) return;
+    this.ctx.strokeStyle = readerLines.color;
+    this.ctx.fillStyle = readerLines.color;
+    this.ctx.font = Canvas.labelFont;
+    readerLines.lines.forEach(line => {
+      line.draw(this.ctx as CanvasRenderingContext2D);
+      if(line.role !== null) this.ctx?.fillText(lineRoleShortLabels[line.role], line.endX + 3, line.endY);
+    });
+    this.ctx.strokeStyle = Canvas.lineColor;
+    this.ctx.fillStyle = Canvas.lineColor;
+  }
+
+  // Draw the role of a line next to its end point, followed by its lesion if there are several
+  private drawLineLabel = (line: AbstractLine) => {
+    if(!this.ctx || line.role === null) return;
+    let label = lineRoleShortLabels[line.role] + (lesionIDs(this.state.lines).length > 1 ? line.lesion : "");
+    this.ctx.font = Canvas.labelFont;
+    this.ctx.fillText(label, line.endX + 3, line.endY);
+  }
+
+  // Create a fluid line between two points of the canvas, in the active lesion, and add it. In snap mode, the end points are
+  // moved to the vessel edges detected on the raw image, keeping the points as drawn, unless no edges are found
+  private drawLine = (start: Point, end: Point) => {
+    let drawnStart = this.transformPoint(start), drawnEnd = this.transformPoint(end);
+    let snapped = this.state.snapCriterion !== "" && this.originalImageData ? 
+      snapToEdges(this.originalImageData, drawnStart, drawnEnd, this.state.snapCriterion) : null;
+    let line = snapped ? new FluidLine(snapped.start, snapped.end) : new FluidLine(drawnStart, drawnEnd);
+    if(snapped) line.raw = { start: { x: drawnStart.x, y: drawnStart.y }, end: { x: drawnEnd.x, y: drawnEnd.y } };
+    line.lesion = this.state.activeLesion;
+    this.addFluidLine(line);
+  }
+
+  // Select the criterion used to snap the drawn lines to the vessel edges, or "" to draw them free-hand
+  private handleSnapCriterionChange = (e: SelectChangeEvent<EdgeCriterion | "">) => {
+    this.setState({ snapCriterion: e.target.value as EdgeCriterion | "" });
+  }
+
+  // Draw a calibration line with its own color, restoring the line color afterwards
+  private drawCalibrationLine = (line: FluidLine) => {
+    if(!this.ctx) return;
+    this.ctx.strokeStyle = Canvas.calibrationLineColor;
+    line.draw(this.ctx);
+    this.ctx.strokeStyle = Canvas.lineColor;
+  }
+
+  /****************************************** Line edition *******************************************/
+  // Find the part of the selected line under the given point, in image coordinates: either of its end points or the line itself
+  private findHandleAt = (point: Point): "start" | "end" | "line" | null => {
+    let line = this.state.selectedLine, maxDistance = Canvas.lineHitDistance / this.zoomFactor;
+    if(!line) return null;
+    if(Math.hypot(point.x - line.startX, point.y - line.startY) <= maxDistance) return "start";
+    if(Math.hypot(point.x - line.endX, point.y - line.endY) <= maxDistance) return "end";
+    if(this.distanceToLine(point, line) <= maxDistance) return "line";
+    return null;
+  }
+
+  // Update the edited copy of the selected line while one of its parts is dragged to the given point, in image coordinates
+  private dragLine = (point: Point) => {
+    let line = this.state.selectedLine, drag = this.lineDrag;
+    if(!line || !drag) return;
+    let deltaX = point.x - drag.origin.x, deltaY = point.y - drag.origin.y;
+    let previewLine: AbstractLine;
+    if(drag.handle === "start") previewLine = line.withPoints(point, line.endPoint);
+    else if(drag.handle === "end") previewLine = line.withPoints(line.startPoint, point);
+    else previewLine = line.withPoints(
+      { x: line.startX + deltaX, y: line.startY + deltaY }, 
+      { x: line.endX + deltaX, y: line.endY + deltaY }
+    );
+    this.setState({ previewLine: previewLine });
+  }
+
+  // Replace the selected line by its edited copy, if it was moved, and keep the copy selected
+  private finishLineDrag = () => {
+    let line = this.state.selectedLine, previewLine = this.state.previewLine, drag = this.lineDrag;
+    this.lineDrag = null;
+    if(!line || !previewLine || !drag) return;
+    let lines = this.history.lines.map(other => other === line ? previewLine as AbstractLine : other);
+    this.executeCommand(drag.handle === "line" ? "Move line" : "Move line end point", lines, { selectedLine: previewLine, previewLine: null });
+  }
+
+  // Select the line under the given point, in image coordinates, or clear the selection if there is none
+  private selectLineAt = (point: Point) => {
+    this.setState({ selectedLine: this.findLineAt(point) ?? null });
+  }
+
+  // Delete the selected line
+  private deleteSelectedLine = () => {
+    if(this.state.selectedLine) this.deleteLine(this.state.selectedLine);
+  }
+
+  // Whether the mouse moved so little since it was pressed that it is a click
+  private get isClick(): boolean {
+    return Math.hypot(this.endPoint.x - this.startPoint.x, this.endPoint.y - this.startPoint.y) <= Canvas.clickDistance;
+  }
+
+  /************************************** Intensity profile ******************************************/
+  // Grey levels sampled along the selected line, or its edited copy while it is dragged, on the raw image, if any
+  private get selectedLineProfile(): IntensityProfile | null {
+    let line = this.state.previewLine ?? this.state.selectedLine;
+    if(!line || !this.originalImageData) return null;
+    return sampleProfile(this.originalImageData, line.startPoint, line.endPoint);
+  }
+
+  // Position, in canvas coordinates, of the sample hovered on either profile chart, if any
+  private get hoveredPoint(): Point | null {
+    let sample = this.state.hoveredSample;
+    if(sample?.chart === "intensity") return this.selectedLineProfile?.points[sample.index] ?? null;
+    let point = sample?.chart === "diameter" ? this.state.centerline?.points[sample.index] : undefined;
+    return point ? { x: point.x + 0.5, y: point.y + 0.5 } : null;
+  }
+
+  // Highlight on the canvas the position hovered on the profile chart
+  private handleProfileHover = (index: number | null) => {
+    this.setState({ hoveredSample: index === null ? null : { chart: "intensity", index: index } });
+  }
+
+  // Download the profile of the selected line as CSV
+  private exportProfile = () => {
+    let profile = this.selectedLineProfile, role = this.state.selectedLine?.role;
+    if(profile) saveAs(new Blob([profileToCSV(profile)], {type: "text/csv"}), 'profile' + (role ? '_' + role : '') + '.csv');
+  }
+
+  // Render the profile chart of the selected line, with the edges found by the snap criterion or, if snapping is off, at half maximum
+  private renderProfile = (): JSX.Element | null => {
+    let profile = this.selectedLineProfile;
+    if(!profile) return null;
+    let criterion: EdgeCriterion = this.state.snapCriterion !== "" ? this.state.snapCriterion : "fwhm";
+    let edges = findEdges(profile, criterion), hovered = this.state.hoveredSample;
+    let markers = [{ distance: 0, dashed: false }, { distance: profile.length, dashed: false }];
+    if(edges) markers.push({ distance: edges.start, dashed: true }, { distance: edges.end, dashed: true });
+    return <ProfileChart profile={profile} maxValue={255} formatValue={value => "grey level: " + Math.round(value)} markers={markers}
+      legend={"Solid: end points, dashed: " + (edges ? edgeCriterionLabels[criterion].toLowerCase() + " edges" : "no edges detected")}
+      hoveredIndex={hovered?.chart === "intensity" ? hovered.index : null} onHover={this.handleProfileHover} onExport={this.exportProfile}/>;
+  }
+
+  /*************************************** Centerline measurement ************************************/
+  // Enter or leave the centerline mode, discarding any centerline clicked or traced
+  private toggleCenterlineMode = () => {
+    this.mouseIsDown = false;
+    this.setState({ centerlineMode: !this.state.centerlineMode, centerlineStart: null, centerline: null, hoveredSample: null });
+  }
+
+  // Register a clicked end of the centerline, in image coordinates, measuring the vessel once both ends are clicked
+  private addCenterlinePoint = (point: Point) => {
+    let pixel = { x: Math.floor(point.x), y: Math.floor(point.y) };
+    if(this.state.centerlineStart) this.measureCenterline(this.state.centerlineStart, pixel);
+    else this.setState({ centerlineStart: pixel, centerline: null, hoveredSample: null });
+  }
+
+  // Trace the centerline of the vessel between two pixels and replace the diameter lines of the active lesion by pixel lines
+  // across it at the MLD and references. Since the lines are pixel lines, they cannot be added to a canvas with fluid lines
+  private measureCenterline = (start: Point, end: Point) => {
+    this.setState({ centerlineStart: null });
+    if(!this.originalImageData) return;
+    if(this.history.lines.some(line => line instanceof FluidLine)) {
+      alert("The centerline lines cannot be added to a canvas with drawn lines");
+      return;
+    }
+    let centerline = traceCenterline(this.originalImageData, start, end);
+    if(!centerline) {
+      alert("Both ends of the centerline must lie on the vessel, which must connect them");
+      return;
+    }
+    let sections = placeDiameterLines(this.originalImageData, centerline);
+    if(!sections) {
+      alert("The centerline is too short to place the diameter lines");
+      this.setState({ centerline: centerline });
+      return;
+    }
+    let lesion = this.state.activeLesion;
+    let pixelLines = [sections.proximal, sections.mld, sections.distal].map((section, index) => {
+      let pixelLine = new PixelLine(section.start, section.end);
+      pixelLine.role = lineRoles[index];
+      pixelLine.lesion = lesion;
+      return pixelLine;
+    });
+    let lines = [...this.history.lines.filter(line => line.lesion !== lesion || (line.role !== null && boundaryRoles.includes(line.role))), ...pixelLines];
+    this.executeCommand("Measure centerline", lines, { editMode: false, centerline: centerline });
+  }
+
+  // Draw the clicked end of the centerline and the traced centerline through the pixel centers, restoring the line color afterwards
+  private drawCenterline = () => {
+    if(!this.ctx) return;
+    let size = Canvas.handleSize / this.zoomFactor, start = this.state.centerlineStart, centerline = this.state.centerline;
+    this.ctx.strokeStyle = Canvas.centerlineColor;
+    this.ctx.fillStyle = Canvas.centerlineColor;
+    if(start) this.ctx.fillRect(start.x + 0.5 - size/2, start.y + 0.5 - size/2, size, size);
+    if(centerline) {
+      this.ctx.beginPath();
+      centerline.points.forEach((point, index) => index === 0 ? this.ctx?.moveTo(point.x + 0.5, point.y + 0.5) : this.ctx?.lineTo(point.x + 0.5, point.y + 0.5));
+      this.ctx.stroke();
+    }
+    this.ctx.strokeStyle = Canvas.lineColor;
+    this.ctx.fillStyle = Canvas.lineColor;
+  }
+
+  // Highlight on the canvas the centerline pixel hovered on the diameter chart
+  private handleDiameterHover = (index: number | null) => {
+    this.setState({ hoveredSample: index === null ? null : { chart: "diameter", index: index } });
+  }
+
+  // Download the diameters along the centerline as CSV
+  private exportDiameters = () => {
+    let centerline = this.state.centerline;
+    if(centerline) saveAs(new Blob([profileToCSV(centerline, "Diameter (px)")], {type: "text/csv"}), 'diameter_profile.csv');
+  }
+
+  // Render the chart of the diameters along the centerline, marking where the MLD and references of the active lesion lie
+  private renderDiameterProfile = (): JSX.Element | null => {
+    let centerline = this.state.centerline, hovered = this.state.hoveredSample;
+    if(!this.state.centerlineMode || !centerline) return null;
+    let markers = lineRoles.map(role => {
+      let line = findLineByRole(lesionLines(this.state.lines, this.state.activeLesion), role);
+      let index = line ? this.nearestCenterlineIndex(centerline as Centerline, line) : -1;
+      return index === -1 ? null : { distance: (centerline as Centerline).distances[index], dashed: role !== "mld" };
+    }).filter(marker => marker !== null) as { distance: number, dashed: boolean }[];
+    return <ProfileChart profile={centerline} maxValue={Math.max(...centerline.values) * 1.1}
+      formatValue={value => "diameter: " + formatLength(value, this.props.calibration)} markers={markers} legend="Solid: MLD, dashed: references"
+      hoveredIndex={hovered?.chart === "diameter" ? hovered.index : null} onHover={this.handleDiameterHover} onExport={this.exportDiameters}/>;
+  }
+
+  // Index of the centerline pixel closest to the middle of a line, or -1 if the line lies away from the centerline
+  private nearestCenterlineIndex = (centerline: Centerline, line: AbstractLine): number => {
+    let middle = { x: (line.startX + line.endX) / 2, y: (line.startY + line.endY) / 2 }, best = -1, bestDistance = line.length / 2 + 1;
+    centerline.points.forEach((point, index) => {
+      let distance = Math.hypot(point.x - middle.x, point.y - middle.y);
+      if(distance <= bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  /***************************************** Keyboard events *****************************************/
+  // Undo with Ctrl+Z, redo with Ctrl+Shift+Z or Ctrl+Y, and delete the selected line with Delete or Backspace
+  private handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    let key = e.key.toLowerCase();
+    if((e.ctrlKey || e.metaKey) && key === "z") e.shiftKey ? this.redo() : this.undo();
+    else if((e.ctrlKey || e.metaKey) && key === "y") this.redo();
+    else if(key === "delete" || key === "backspace") this.deleteSelectedLine();
+    else return;
+    e.preventDefault();
   }
 
   /****************************************** Mouse events *******************************************/
   // Get the (x, y) position of the mouse event e
   private getMouseEventPosition = (e: React.MouseEvent<HTMLCanvasElement, MouseEvent>): Point => {
+    let rect = (e.target as HTMLCanvasElement).getBoundingClientRect();
     return {
-      x: e.pageX - (e.target as HTMLCanvasElement).offsetLeft,
-      y: e.pageY - (e.target as HTMLCanvasElement).offsetTop
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top
     };
   }
 
-  // In editing mode, register the position and that the mouse is down. Otherwise, start a drag
+  // If the mouse is over the selected line, start dragging it. In editing mode, register the position and that the mouse 
+  // is down. Otherwise, start a drag
   private handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement, MouseEvent>) => {
+    if(e.button !== 0) return;
     this.startPoint = this.getMouseEventPosition(e);
-    if(this.state.editMode) this.mouseIsDown = true;
+    this.endPoint = this.startPoint;
+    let point = this.transformPoint(this.startPoint);
+    let handle = this.state.calibrationMode || this.state.centerlineMode ? null : this.findHandleAt(point);
+    if(handle) this.lineDrag = { handle: handle, origin: point };
+    else if(this.state.editMode || this.state.calibrationMode || this.state.centerlineMode) this.mouseIsDown = true;
     else {
       this.dragStart = this.transformPoint(this.startPoint);
       this.dragged = false;
@@ -265,27 +855,47 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
 
   // In editing mode with the mouse down, draw a line, and put the mouse up. Otherwise, finish a drag
   private handleMouseLeave = (e: React.MouseEvent<HTMLCanvasElement, MouseEvent>) => {  
-    if(this.state.editMode && this.mouseIsDown) {
+    if(this.lineDrag) this.finishLineDrag();
+    else if(this.state.calibrationMode && this.mouseIsDown) {
+      this.mouseIsDown = false;
+      this.setState({ calibrationLine: new FluidLine(this.transformPoint(this.startPoint), this.transformPoint(this.endPoint)) });
+    } else if(this.state.centerlineMode && this.mouseIsDown) {
       this.mouseIsDown = false;
-      this.addFluidLine(new FluidLine(this.transformPoint(this.startPoint), this.transformPoint(this.endPoint)));
-      this.setState({ editMode: this.state.editMode && this.state.fluidLines.length < this.props.maxLines});
+    } else if(this.state.editMode && this.mouseIsDown) {
+      this.mouseIsDown = false;
+      this.drawLine(this.startPoint, this.endPoint);
     } else {
       this.dragged = true;
       this.dragStart = null;
     }
   }
 
-  // In editing mode, if the mouse is down, draw a line. Otherwise, if the image was not in the middle of a drag, zoom
+  // If the selected line is being dragged, finish its edition. In editing mode, if the mouse is down, draw a line, or
+  // select the line under the mouse on a click. Otherwise, select the line under the mouse or, if there is none and the
+  // image was not in the middle of a drag, zoom
   private handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement, MouseEvent>) => {
     this.endPoint = this.getMouseEventPosition(e);
-    if(this.state.editMode) {
+    if(this.lineDrag) this.finishLineDrag();
+    else if(this.state.calibrationMode) {
       if(this.mouseIsDown) {
-        let lastPt = this.transformPoint(this.endPoint);
         this.mouseIsDown = false;
-        this.addFluidLine(new FluidLine(this.transformPoint(this.startPoint), lastPt));
+        this.setState({ calibrationLine: new FluidLine(this.transformPoint(this.startPoint), this.transformPoint(this.endPoint)) });
+      }
+    } else if(this.state.centerlineMode) {
+      if(this.mouseIsDown) {
+        this.mouseIsDown = false;
+        if(this.isClick) this.addCenterlinePoint(this.transformPoint(this.endPoint));
+      }
+    } else if(this.state.editMode) {
+      if(this.mouseIsDown) {
+        this.mouseIsDown = false;
+        if(this.isClick) this.selectLineAt(this.transformPoint(this.endPoint));
+        else this.drawLine(this.startPoint, this.endPoint);
       }
     } else {
-      if(this.dragged) this.zoom(e.shiftKey ? -1 : 1);
+      let line = this.isClick ? this.findLineAt(this.transformPoint(this.endPoint)) : undefined;
+      if(line) this.setState({ selectedLine: line });
+      else if(this.dragged) this.zoom(e.shiftKey ? -1 : 1);
       this.dragStart = null;
     }
   }
@@ -294,9 +904,17 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
   // Otherwise, if a drag has been started, continue it
   private handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement, MouseEvent>) => {
     this.endPoint = this.getMouseEventPosition(e);
-    if(this.state.editMode) {
+    if(this.lineDrag) this.dragLine(this.transformPoint(this.endPoint));
+    else if(this.state.calibrationMode) {
       if(this.mouseIsDown) {
-        this.redraw();
+        this.redrawOverlay();
+        this.drawCalibrationLine(new FluidLine(this.transformPoint(this.startPoint), this.transformPoint(this.endPoint)));
+      }
+    } else if(this.state.centerlineMode) {
+      return;
+    } else if(this.state.editMode) {
+      if(this.mouseIsDown) {
+        this.redrawOverlay();
         new FluidLine(this.transformPoint(this.startPoint), this.transformPoint(this.endPoint)).draw(this.ctx as CanvasRenderingContext2D);
       }
     } else if (this.dragStart) {
@@ -314,42 +932,82 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
   }
 
   /****************************************** Button clicks ******************************************/
-  // Set editMode based on the previous editMode value and the number of lines drawn on the canvas
-  private toggleEdit = () => {
-    this.setState({editMode: !this.state.editMode && this.state.fluidLines.length < this.props.maxLines});
-  }
-
-  // Undo the last action, which can be a FluidLine or PixelLine draw
-  private undoLast = () => {
-    if(this.lastObjectType === FluidLine) {
-      this.setState(prevState => ({
-        lines: prevState.lines.slice(0, prevState.lines.length - 1),
-        fluidLines: prevState.fluidLines.slice(0, prevState.fluidLines.length - 1),
-        editMode: prevState.fluidLines.length - 1 < this.props.maxLines
-      }));
-    } else if(this.lastObjectType === PixelLine) {
-      this.setState(prevState => ({
-        lines: prevState.lines.slice(0, prevState.lines.length - 1),
-        pixelLines: prevState.pixelLines.slice(0, prevState.pixelLines.length - 1),
-        editMode: prevState.pixelLines.length - 1 < this.props.maxLines
-      }));
-    }
+  // Toggle editMode. When the active lesion is complete, enabling the edition starts a new lesion
+  public toggleEdit = () => {
+    if(this.state.editMode) this.setState({ editMode: false });
+    else this.setState({
+      editMode: true,
+      activeLesion: isLesionComplete(this.state.lines, this.state.activeLesion, this.drawingRoles) ? nextLesionID(this.state.lines) : this.state.activeLesion
+    });
   }
 
-  // Undo all drawings and transformations 
-  public undoAll = () => {
-    this.lastObjectType = null;
-    this.setState({
-      lines: [],
-      fluidLines: [],
-      pixelLines: [],
-      editMode: true
+  // Toggle the QCA mode. While it is enabled, the lesion start and end lines are drawn after the diameter lines, so the
+  // edition continues if the active lesion lacks them
+  private toggleQCAMode = () => {
+    let qcaMode = !this.state.qcaMode;
+    let roles = qcaMode ? qcaLineRoles : lineRoles;
+    this.setState({ 
+      qcaMode: qcaMode,
+      selectedRole: this.state.selectedRole !== "" && roles.includes(this.state.selectedRole) ? this.state.selectedRole : "",
+      editMode: this.state.editMode || (qcaMode && !isLesionComplete(this.state.lines, this.state.activeLesion, roles))
     });
+  }
+
+  // Remove every line as a single command, which can be undone, keeping the zoom and pan
+  public clearLines = () => {
+    if(this.history.lines.length === 0) return;
+    this.executeCommand("Clear lines", [], { activeLesion: firstLesionID, editMode: true });
+  }
+
+  // Undo the zoom and pan transformations
+  public resetView = () => {
     this.ctx?.restore();
     this.ctx?.save();
+    this.zoomFactor = 1;
     this.redraw();
   }
 
+  /******************************************* Calibration *******************************************/
+  // Enter or leave the calibration mode, discarding any calibration line drawn
+  private toggleCalibrationMode = () => {
+    this.mouseIsDown = false;
+    this.setState({ calibrationMode: !this.state.calibrationMode, calibrationLine: null });
+  }
+
+  // Select the catheter size used as reference, or "" to use a known length instead
+  private handleFrenchSizeChange = (e: SelectChangeEvent<number | "">) => {
+    this.setState({ calibrationFrenchSize: e.target.value === "" ? "" : Number(e.target.value) });
+  }
+
+  // Update the known length of the reference object
+  private handleCalibrationLengthChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.setState({ calibrationLength: e.target.value });
+  }
+
+  // Toggle whether the calibration applies to the frame or to its whole acquisition
+  private handleCalibrationScopeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.setState({ calibrationScope: e.target.checked ? "acquisition" : "frame" });
+  }
+
+  // Compute the calibration from the drawn line and the selected reference, and leave the calibration mode
+  private applyCalibration = () => {
+    if(!this.state.calibrationLine) return;
+    let frenchSize = this.state.calibrationFrenchSize === "" ? null : this.state.calibrationFrenchSize;
+    let millimetres = frenchSize !== null ? frenchToMillimetres(frenchSize) : parseFloat(this.state.calibrationLength);
+    let calibration = createCalibration(this.state.calibrationLine.length, millimetres, frenchSize);
+    if(!calibration) {
+      alert("The calibration line and the reference length must both be greater than zero");
+      return;
+    }
+    this.props.onCalibrate?.(calibration, this.state.calibrationScope);
+    this.setState({ calibrationMode: false, calibrationLine: null });
+  }
+
+  // Remove the calibration of the frame or acquisition
+  private clearCalibration = () => {
+    this.props.onCalibrate?.(null, this.state.calibrationScope);
+  }
+
   /**************************************** Canvas transforms ****************************************/
   // Transform point from normal coordinates to transformed coordinates
   private transformPoint = (p: Point): Point => {
@@ -445,39 +1103,154 @@ export class Canvas extends React.Component<CanvasProps, CanvasState> {
   }
 
   /***************************************** Render method *******************************************/
+  // Render the selected metrics of a lesion, skipping those that cannot be computed, e.g., for lack of lines
+  private renderMetrics = (lesion: number): JSX.Element[] => {
+    let values = lesionMetrics(this.lines, lesion);
+    return (this.props.metrics ?? defaultQCAMetrics).filter(metric => values[metric] !== undefined).map(metric =>
+      <p key={metric}>{qcaMetricLabels[metric]}: {formatQCAMetric(metric, values[metric] as number)}</p>
+    );
+  }
+
+  // Render the reference diameter interpolated at the MLD, the stenosis relative to it and the length of a lesion, as far
+  // as its lines allow
+  private renderQCAMetrics = (lines: AbstractLine[], lesion: number): JSX.Element => {
+    let reference = interpolatedReferenceDiameter(lines, lesion), length = lesionLength(lines, lesion);
+    let diameterStenosis = interpolatedDiameterStenosisPercentage(lines, lesion), areaStenosis = interpolatedAreaStenosisPercentage(lines, lesion);
+    let percentage = (value: number) => Math.round(value * 100) / 100 + "%";
+    return (
+      <div>
+        <p>Interpolated reference diameter: {reference !== undefined ? formatLength(reference, this.props.calibration) : "—"}</p>
+        <p>Interpolated diameter stenosis percentage: {diameterStenosis !== undefined ? percentage(diameterStenosis) : "—"}</p>
+        <p>Interpolated area stenosis percentage: {areaStenosis !== undefined ? percentage(areaStenosis) : "—"}</p>
+        <p>Lesion length: {length !== undefined ? formatLength(length, this.props.calibration) : "—"}</p>
+      </div>
+    );
+  }
+
+
   public render = (): JSX.Element => {
+    let nextRole = nextLineRole(lesionLines(this.state.lines, this.state.activeLesion), this.drawingRoles);
+    let displayedLines = this.displayedLines, selectedLine = this.state.previewLine ?? this.state.selectedLine;
+    let lesions = lesionIDs(this.state.lines);
+    if(!lesions.includes(this.state.activeLesion)) lesions = [...lesions, this.state.activeLesion].sort((a, b) => a - b);
     return (
       <div>
-        <div>
+        <div style={{ position: "relative", display: "inline-block" }}>
+          <canvas ref={this.backgroundRef} height={this.state.height} width={this.state.width} style={{ display: "block" }}></canvas>
           <canvas 
             ref={this.canvasRef} 
             height={this.state.height} 
             width={this.state.width} 
+            style={{ position: "absolute", left: 0, top: 0 }}
             onMouseDown={this.handleMouseDown}
             onMouseUp={this.handleMouseUp}
             onMouseLeave={this.handleMouseLeave}
             onMouseMove={this.handleMouseMove}
+            onContextMenu={this.handleContextMenu}
+            onKeyDown={this.handleKeyDown}
+            tabIndex={0}
           >
           </canvas>
+          <Menu
+            open={this.state.roleMenu !== null}
+            onClose={this.closeRoleMenu}
+            anchorReference="anchorPosition"
+            anchorPosition={this.state.roleMenu ? { top: this.state.roleMenu.position.y, left: this.state.roleMenu.position.x } : undefined}>
+            {this.drawingRoles.map(role => 
+              <MenuItem key={role} selected={this.state.roleMenu?.line.role === role} 
+                onClick={() => { if(this.state.roleMenu) this.setLineRole(this.state.roleMenu.line, role) }}>
+                {lineRoleLabels[role]}
+              </MenuItem>
+            )}
+          </Menu>
+          {this.renderProfile()}
+          {this.renderDiameterProfile()}
         </div>
         <div>
           <FormControlLabel label="Edit" control={
               <Switch onChange={this.toggleEdit} checked={this.state.editMode} inputProps={{ 'aria-label': 'controlled' }}/>
           }></FormControlLabel>
-          <IconButton color="primary" component="span" onClick={this.undoAll}><ClearIcon/></IconButton>
-          <IconButton color="primary" component="span" onClick={this.undoLast}><UndoIcon/></IconButton>
+          <FormControlLabel label="QCA" title="Draw the lesion start and end lines and show the interpolated reference metrics" control={
+              <Switch onChange={this.toggleQCAMode} checked={this.state.qcaMode}/>
+          }></FormControlLabel>
+          <IconButton color="primary" component="span" onClick={this.clearLines} title="Clear lines"><ClearIcon/></IconButton>
+          <IconButton color="primary" component="span" onClick={this.undo} title="Undo (Ctrl+Z)"><UndoIcon/></IconButton>
+          <IconButton color="primary" component="span" onClick={this.redo} title="Redo (Ctrl+Shift+Z)"><RedoIcon/></IconButton>
+          <IconButton color="primary" component="span" onClick={this.deleteSelectedLine} disabled={!this.state.selectedLine} title="Delete selected line">
+            <DeleteIcon/>
+          </IconButton>
+          <IconButton color="primary" component="span" onClick={this.resetView} title="Reset zoom and pan"><ZoomOutMapIcon/></IconButton>
+          <Select size="small" value={this.state.activeLesion} onChange={this.handleActiveLesionChange}>
+            {lesions.map(lesion => <MenuItem key={lesion} value={lesion}>Lesion {lesion}</MenuItem>)}
+          </Select>
+          <Button onClick={this.startNewLesion}>New Lesion</Button>
+          <Select size="small" value={this.state.selectedRole} onChange={this.handleSelectedRoleChange} displayEmpty>
+            <MenuItem value="">Next: {nextRole ? lineRoleLabels[nextRole] : "—"}</MenuItem>
+            {this.drawingRoles.map(role => <MenuItem key={role} value={role}>Next: {lineRoleLabels[role]}</MenuItem>)}
+          </Select>
+          <Select size="small" value={this.state.snapCriterion} onChange={this.handleSnapCriterionChange} displayEmpty>
+            <MenuItem value="">Snap: Off</MenuItem>
+            {edgeCriteria.map(criterion => <MenuItem key={criterion} value={criterion}>Snap: {edgeCriterionLabels[criterion]}</MenuItem>)}
+          </Select>
           <Button onClick={this.downloadImage}>Download</Button>
-          {// Print line diameters
-            this.state.lines.length !== 0 &&
-              this.state.lines.map((line, index) => <p key={"line" + index}>{Math.round(line.length*100)/100}</p>)
+          <Button onClick={this.toggleCalibrationMode} variant={this.state.calibrationMode ? "contained" : "text"}>Calibrate</Button>
+          {// Centerline button, shown if the lines can be measured along the centerline
+            this.props.centerlineTracing &&
+              <Button onClick={this.toggleCenterlineMode} variant={this.state.centerlineMode ? "contained" : "text"}
+                title="Click both ends of a vessel segment to measure its diameters along the centerline">
+                Centerline
+              </Button>
+          }
+          {// Centerline instructions, shown in centerline mode
+            this.state.centerlineMode &&
+              <p>{this.state.centerlineStart ? "Click the distal end of the vessel segment" : "Click the proximal end of the vessel segment"}</p>
+          }
+          {// Calibration menu, shown in calibration mode
+            this.state.calibrationMode &&
+              <div>
+                <p>{this.state.calibrationLine ? 
+                  "Calibration line: " + formatLength(this.state.calibrationLine.length, null) : 
+                  "Draw a line across the catheter or reference object"}
+                </p>
+                <Select size="small" value={this.state.calibrationFrenchSize} onChange={this.handleFrenchSizeChange} displayEmpty>
+                  {frenchSizes.map(size => <MenuItem key={size} value={size}>{size}F catheter</MenuItem>)}
+                  <MenuItem value="">Known length</MenuItem>
+                </Select>
+                {// Known length input, shown if no catheter size is selected
+                  this.state.calibrationFrenchSize === "" &&
+                    <TextField size="small" type="number" label="Length (mm)" value={this.state.calibrationLength} onChange={this.handleCalibrationLengthChange}/>
+                }
+                <FormControlLabel label="Whole acquisition" control={
+                  <Checkbox checked={this.state.calibrationScope === "acquisition"} onChange={this.handleCalibrationScopeChange}/>
+                }></FormControlLabel>
+                <Button onClick={this.applyCalibration} disabled={!this.state.calibrationLine}>Apply</Button>
+                <Button onClick={this.clearCalibration} disabled={!this.props.calibration}>Clear</Button>
+              </div>
           }
-          {// Print diameter stenosis
-            this.state.lines.length === this.props.maxLines &&
-              <p>Diameter stenosis percentage: {Math.round(this.computeDiameterStenosisPercentage() as number * 100) / 100}%</p>            
+          {// Print the calibration factor
+            this.props.calibration &&
+              <p>Calibration: {Math.round(this.props.calibration.mmPerPixel*10000)/10000} mm/px</p>
           }
-          {// Print area stenosis
-            this.state.lines.length === this.props.maxLines &&
-              <p>Area stenosis percentage: {Math.round(this.computeAreaStenosisPercentage() as number * 100) / 100}%</p>            
+          {// Print the line diameters of each lesion, with their roles, and its stenosis. Right-clicking a line changes its role,
+           // and clicking its diameter selects it. The diameter of a line being dragged is updated live
+            lesionIDs(this.state.lines).map(lesion => 
+              <div key={"lesion" + lesion}>
+                <p><b>Lesion {lesion}</b></p>
+                {lesionLines(displayedLines, lesion).map((line, index) => 
+                  <p key={"line" + index} onClick={() => this.setState({ selectedLine: this.state.lines[displayedLines.indexOf(line)] })}
+                    style={{ cursor: "pointer", fontWeight: line === selectedLine ? "bold" : "normal" }}>
+                    {line.role ? lineRoleLabels[line.role] : "Unassigned"}: {formatLength(line.length, this.props.calibration)}
+                    {line.raw && " (drawn: " + formatLength(line.rawLength, this.props.calibration) + ")"}
+                  </p>
+                )}
+                {// Print the selected metrics that the lines of the lesion allow to compute
+                  this.renderMetrics(lesion)
+                }
+                {// Print the standard QCA metrics in QCA mode
+                  this.state.qcaMode && this.renderQCAMetrics(displayedLines, lesion)
+                }
+              </div>
+            )
           }
         </div>
       </div>
@@ -0,0 +1,59 @@
+import { distanceTransform, placeDiameterLines, traceCenterline, vesselPixels } from './Centerline';
+import { RasterImage } from './EdgeDetection';
+
+// Build a 40x60 mask with a white vertical vessel centered on the column 20, 11 pixels wide except for a stenosis 5 pixels
+// wide on the rows 25 to 34
+function stenosedMask(): RasterImage {
+  let width = 40, height = 60, data = new Uint8ClampedArray(width*height*4);
+  for(let y = 0; y < height; y++) for(let x = 0; x < width; x++) {
+    let halfWidth = y >= 25 && y <= 34 ? 2 : 5;
+    let value = Math.abs(x - 20) <= halfWidth ? 255 : 0;
+    data.set([value, value, value, 255], (y*width + x)*4);
+  }
+  return { data: data, width: width, height: height };
+}
+
+test('the distance transform measures the distance to the nearest background pixel', () => {
+  let inside = new Uint8Array(7*7).fill(1);
+  inside[0] = 0;
+  let distance = distanceTransform(inside, 7, 7);
+  expect(distance[0]).toBe(0);
+  expect(distance[1]).toBe(1);
+  expect(distance[3*7 + 4]).toBe(5);
+  expect(distance[6*7 + 6]).toBeCloseTo(Math.hypot(6, 6));
+});
+
+test('the centerline follows the middle of the vessel and measures its diameter', () => {
+  let centerline = traceCenterline(stenosedMask(), { x: 20, y: 2 }, { x: 20.5, y: 57.5 });
+  expect(centerline).not.toBeNull();
+  if(!centerline) return;
+  expect(centerline.points[0]).toEqual({ x: 20, y: 2 });
+  expect(centerline.points[centerline.points.length - 1]).toEqual({ x: 20, y: 57 });
+  expect(centerline.points.every(point => point.x === 20)).toBe(true);
+  expect(centerline.distances[centerline.distances.length - 1]).toBe(55);
+  expect(centerline.values[10]).toBe(11);
+  expect(Math.min(...centerline.values)).toBe(5);
+});
+
+test('points away from the vessel or disconnected from each other cannot be traced', () => {
+  let image = stenosedMask();
+  expect(traceCenterline(image, { x: 2, y: 2 }, { x: 20, y: 57 })).toBeNull();
+  image.data.fill(0, 40*40*4, 41*40*4);
+  expect(traceCenterline(image, { x: 20, y: 2 }, { x: 20, y: 57 })).toBeNull();
+});
+
+test('the MLD is placed in the stenosis and the references on each side of it, across the vessel', () => {
+  let image = stenosedMask();
+  let centerline = traceCenterline(image, { x: 20, y: 2 }, { x: 20, y: 57 });
+  let lines = centerline && placeDiameterLines(image, centerline);
+  expect(lines).not.toBeNull();
+  if(!lines) return;
+  expect(lines.mld.start.y).toBeGreaterThanOrEqual(25);
+  expect(lines.mld.start.y).toBeLessThanOrEqual(34);
+  expect([lines.mld.start.x, lines.mld.end.x].sort()).toEqual([18, 22]);
+  expect(lines.proximal.start.y).toBeLessThan(25);
+  expect([lines.proximal.start.x, lines.proximal.end.x].sort()).toEqual([15, 25]);
+  expect(lines.distal.start.y).toBeGreaterThan(34);
+  expect([lines.distal.start.x, lines.distal.end.x].sort()).toEqual([15, 25]);
+  expect(vesselPixels(image)[lines.mld.end.y*image.width + lines.mld.end.x]).toBe(1);
+});
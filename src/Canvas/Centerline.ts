@@ -0,0 +1,227 @@
+import { Point } from "./Point";
+import { RasterImage } from "./EdgeDetection";
+
+// Measurement of a vessel on a binary mask, where the vessel is white, along its centerline. The centerline is traced between
+// two points as the path through the vessel that stays the furthest from its borders, the diameter at each of its points is
+// derived from the distance to the nearest background pixel, and the diameter lines of a lesion are placed across it. Points
+// are pixel indices, as the coordinates of pixel lines
+export type Centerline = {
+  points: Point[],                                                              // Pixels of the centerline, from start to end
+  distances: number[],                                                          // Distance of each pixel from the start, along the centerline
+  values: number[]                                                              // Vessel diameter at each pixel, in pixels
+}
+
+// Diameter line across the vessel at a pixel of the centerline
+export type CrossSection = {
+  index: number,                                                                // Index of the centerline pixel
+  start: Point,                                                                 // Last vessel pixel on one side
+  end: Point                                                                    // Last vessel pixel on the other side
+}
+
+// Maximum distance, in pixels, from a clicked point to the vessel
+const maxSnapDistance = 10;
+
+// Number of pixels on each side of a centerline pixel used to estimate the direction of the vessel
+const directionSpan = 3;
+
+// Fraction of the centerline at each end where no diameter line is placed, since the clicked points may not lie in healthy
+// lumen, and fraction of the centerline on each side of the MLD ignored when placing the references, to skip the lesion shoulders
+const endMargin = 0.1;
+const lesionMargin = 0.1;
+
+// Whether each pixel of the mask belongs to the vessel, i.e., is closer to white than black
+export function vesselPixels(image: RasterImage): Uint8Array {
+  let inside = new Uint8Array(image.width*image.height);
+  for(let index = 0; index < inside.length; index++) {
+    let offset = index*4;
+    inside[index] = (image.data[offset] + image.data[offset + 1] + image.data[offset + 2]) / 3 > 127 ? 1 : 0;
+  }
+  return inside;
+}
+
+// Euclidean distance from each vessel pixel to the nearest background pixel, computed exactly with two passes of the
+// one-dimensional squared distance transform by Felzenszwalb and Huttenlocher. Background pixels are at distance 0
+export function distanceTransform(inside: Uint8Array, width: number, height: number): Float64Array {
+  let squared = new Float64Array(width*height);
+  let infinity = (width + height)*(width + height);
+  for(let index = 0; index < squared.length; index++) squared[index] = inside[index] ? infinity : 0;
+
+  let line = new Float64Array(Math.max(width, height));
+  for(let x = 0; x < width; x++) {
+    for(let y = 0; y < height; y++) line[y] = squared[y*width + x];
+    let transformed = transform1D(line, height);
+    for(let y = 0; y < height; y++) squared[y*width + x] = transformed[y];
+  }
+  for(let y = 0; y < height; y++) {
+    for(let x = 0; x < width; x++) line[x] = squared[y*width + x];
+    let transformed = transform1D(line, width);
+    for(let x = 0; x < width; x++) squared[y*width + x] = transformed[x];
+  }
+  return squared.map(Math.sqrt);
+}
+
+// Trace the centerline of the vessel between two points, which are moved to the nearest vessel pixel. Returns null if either
+// point is too far from the vessel or they are not connected through it
+export function traceCenterline(image: RasterImage, start: Point, end: Point): Centerline | null {
+  let { width, height } = image;
+  let inside = vesselPixels(image), distance = distanceTransform(inside, width, height);
+  let source = nearestVesselPixel(inside, width, height, start), target = nearestVesselPixel(inside, width, height, end);
+  if(source === -1 || target === -1) return null;
+
+  // Find the cheapest path with Dijkstra's algorithm, where moving into a pixel costs more the closer it is to the border
+  let cost = new Float64Array(width*height).fill(Infinity), previous = new Int32Array(width*height).fill(-1);
+  let queue = new MinQueue();
+  cost[source] = 0;
+  queue.push(source, 0);
+  while(queue.size > 0) {
+    let [index, indexCost] = queue.pop();
+    if(indexCost > cost[index]) continue;
+    if(index === target) break;
+    let x = index % width, y = Math.floor(index / width);
+    for(let dy = -1; dy <= 1; dy++) for(let dx = -1; dx <= 1; dx++) {
+      let nx = x + dx, ny = y + dy, neighbour = ny*width + nx;
+      if((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height || !inside[neighbour]) continue;
+      let neighbourCost = indexCost + Math.hypot(dx, dy) / (distance[neighbour]*distance[neighbour]);
+      if(neighbourCost < cost[neighbour]) {
+        cost[neighbour] = neighbourCost;
+        previous[neighbour] = index;
+        queue.push(neighbour, neighbourCost);
+      }
+    }
+  }
+  if(cost[target] === Infinity) return null;
+
+  // Walk the path back from the target, measuring the diameter at each pixel as twice its distance to the background, minus
+  // the pixel itself, so that a vessel n pixels wide has a diameter of n
+  let path: number[] = [];
+  for(let index = target; index !== -1; index = previous[index]) path.push(index);
+  path.reverse();
+  let points = path.map(index => ({ x: index % width, y: Math.floor(index / width) }));
+  let distances = [0];
+  for(let i = 1; i < points.length; i++) distances.push(distances[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  return { points: points, distances: distances, values: path.map(index => 2*distance[index] - 1) };
+}
+
+// Place the diameter lines of a lesion across the centerline: the MLD where the diameter is minimum and each reference where
+// the diameter is closest to the median diameter of the centerline before or after the MLD. Returns null if the centerline
+// is too short to hold the three lines
+export function placeDiameterLines(image: RasterImage, centerline: Centerline): { proximal: CrossSection, mld: CrossSection, distal: CrossSection } | null {
+  let diameters = centerline.values, count = diameters.length;
+  let first = Math.floor(count*endMargin), last = count - 1 - first, margin = Math.floor(count*lesionMargin);
+  if(last - first < 2) return null;
+
+  let mld = first;
+  for(let index = first; index <= last; index++) if(diameters[index] < diameters[mld]) mld = index;
+  let proximal = medianIndex(diameters, first, mld - 1 - margin) ?? medianIndex(diameters, first, mld - 1);
+  let distal = medianIndex(diameters, mld + 1 + margin, last) ?? medianIndex(diameters, mld + 1, last);
+  if(proximal === null || distal === null) return null;
+
+  let inside = vesselPixels(image);
+  let section = (index: number) => crossSection(inside, image.width, image.height, centerline.points, index);
+  return { proximal: section(proximal), mld: section(mld), distal: section(distal) };
+}
+
+/********************************************* Helpers *********************************************/
+// One-dimensional squared distance transform of the first n values of f, by the lower envelope of parabolas
+function transform1D(f: Float64Array, n: number): Float64Array {
+  let result = new Float64Array(n), vertices = new Int32Array(n), boundaries = new Float64Array(n + 1);
+  let k = 0;
+  vertices[0] = 0;
+  boundaries[0] = -Infinity;
+  boundaries[1] = Infinity;
+  for(let q = 1; q < n; q++) {
+    let s = ((f[q] + q*q) - (f[vertices[k]] + vertices[k]*vertices[k])) / (2*q - 2*vertices[k]);
+    while(s <= boundaries[k]) {
+      k--;
+      s = ((f[q] + q*q) - (f[vertices[k]] + vertices[k]*vertices[k])) / (2*q - 2*vertices[k]);
+    }
+    k++;
+    vertices[k] = q;
+    boundaries[k] = s;
+    boundaries[k + 1] = Infinity;
+  }
+  k = 0;
+  for(let q = 0; q < n; q++) {
+    while(boundaries[k + 1] < q) k++;
+    result[q] = (q - vertices[k])*(q - vertices[k]) + f[vertices[k]];
+  }
+  return result;
+}
+
+// Index of the vessel pixel nearest to a point, within the maximum snap distance, or -1 if there is none
+function nearestVesselPixel(inside: Uint8Array, width: number, height: number, point: Point): number {
+  let px = Math.floor(point.x), py = Math.floor(point.y), best = -1, bestDistance = Infinity;
+  for(let y = Math.max(0, py - maxSnapDistance); y <= Math.min(height - 1, py + maxSnapDistance); y++) {
+    for(let x = Math.max(0, px - maxSnapDistance); x <= Math.min(width - 1, px + maxSnapDistance); x++) {
+      let distance = Math.hypot(x - px, y - py);
+      if(inside[y*width + x] && distance <= maxSnapDistance && distance < bestDistance) {
+        best = y*width + x;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
+
+// Index, between from and to, of the diameter closest to the median of the diameters in that range, or null if it is empty
+function medianIndex(diameters: number[], from: number, to: number): number | null {
+  if(from > to) return null;
+  let range = diameters.slice(from, to + 1), sorted = range.slice().sort((a, b) => a - b);
+  let median = sorted[Math.floor(sorted.length / 2)];
+  let best = 0;
+  range.forEach((diameter, index) => { if(Math.abs(diameter - median) < Math.abs(range[best] - median)) best = index });
+  return from + best;
+}
+
+// Line across the vessel at a centerline pixel, perpendicular to the centerline, between the last vessel pixels on each side
+function crossSection(inside: Uint8Array, width: number, height: number, points: Point[], index: number): CrossSection {
+  let before = points[Math.max(0, index - directionSpan)], after = points[Math.min(points.length - 1, index + directionSpan)];
+  let length = Math.hypot(after.x - before.x, after.y - before.y) || 1;
+  let normal = { x: -(after.y - before.y) / length, y: (after.x - before.x) / length };
+  let center = points[index];
+  let isInside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && inside[y*width + x] === 1;
+  let edge = (side: number): Point => {
+    let last = { x: center.x, y: center.y };
+    for(let t = 0.5; ; t += 0.5) {
+      let x = Math.round(center.x + side*t*normal.x), y = Math.round(center.y + side*t*normal.y);
+      if(!isInside(x, y)) return last;
+      last = { x: x, y: y };
+    }
+  };
+  return { index: index, start: edge(-1), end: edge(1) };
+}
+
+// Binary heap of indices by priority, used as the priority queue of Dijkstra's algorithm
+class MinQueue {
+  private items: [number, number][] = [];
+
+  public get size(): number { return this.items.length }
+
+  public push = (index: number, priority: number) => {
+    let items = this.items, position = items.length;
+    items.push([index, priority]);
+    while(position > 0) {
+      let parent = (position - 1) >> 1;
+      if(items[parent][1] <= priority) break;
+      [items[parent], items[position]] = [items[position], items[parent]];
+      position = parent;
+    }
+  }
+
+  public pop = (): [number, number] => {
+    let items = this.items, top = items[0], last = items.pop() as [number, number];
+    if(items.length > 0) {
+      items[0] = last;
+      let position = 0;
+      for(;;) {
+        let left = 2*position + 1, right = left + 1, smallest = position;
+        if(left < items.length && items[left][1] < items[smallest][1]) smallest = left;
+        if(right < items.length && items[right][1] < items[smallest][1]) smallest = right;
+        if(smallest === position) break;
+        [items[smallest], items[position]] = [items[position], items[smallest]];
+        position = smallest;
+      }
+    }
+    return top;
+  }
+}
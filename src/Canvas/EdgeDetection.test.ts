@@ -0,0 +1,54 @@
+import { findEdges, profileToCSV, RasterImage, sampleGrey, sampleProfile, snapToEdges } from './EdgeDetection';
+
+// Build a 40x10 image with a vertical vessel covering the columns 10 to 20, darker than the background
+function vesselImage(background: number, vessel: number): RasterImage {
+  let width = 40, height = 10, data = new Uint8ClampedArray(width*height*4);
+  for(let y = 0; y < height; y++) for(let x = 0; x < width; x++) {
+    let value = x >= 10 && x <= 20 ? vessel : background;
+    data.set([value, value, value, 255], (y*width + x)*4);
+  }
+  return { data: data, width: width, height: height };
+}
+
+test('grey levels are interpolated between the pixel centers', () => {
+  let image = vesselImage(200, 50);
+  expect(sampleGrey(image, { x: 5.5, y: 5.5 })).toBe(200);
+  expect(sampleGrey(image, { x: 10, y: 5.5 })).toBeCloseTo(125);
+  expect(sampleGrey(image, { x: -3, y: 5.5 })).toBe(200);
+});
+
+test('profiles extend past both ends of the line', () => {
+  let profile = sampleProfile(vesselImage(200, 50), { x: 12, y: 5 }, { x: 32, y: 5 });
+  expect(profile.length).toBe(20);
+  expect(profile.distances[0]).toBe(-10);
+  expect(profile.distances[profile.distances.length - 1]).toBe(30);
+});
+
+test('both criteria snap the end points to the vessel edges', () => {
+  let image = vesselImage(200, 50);
+  ["fwhm" as const, "gradient" as const].forEach(criterion => {
+    let snapped = snapToEdges(image, { x: 13, y: 5 }, { x: 24, y: 5 }, criterion);
+    expect(snapped?.start.x).toBeCloseTo(10, 1);
+    expect(snapped?.end.x).toBeCloseTo(21, 1);
+    expect(snapped?.start.y).toBe(5);
+  });
+});
+
+test('bright vessels, as in masks, are detected as well', () => {
+  let snapped = snapToEdges(vesselImage(0, 255), { x: 24, y: 3 }, { x: 8, y: 3 }, "fwhm");
+  expect(snapped?.start.x).toBeCloseTo(21, 1);
+  expect(snapped?.end.x).toBeCloseTo(10, 1);
+});
+
+test('no edges are found without a vessel', () => {
+  let image = vesselImage(100, 100);
+  expect(findEdges(sampleProfile(image, { x: 1, y: 1 }, { x: 30, y: 1 }), "fwhm")).toBeNull();
+  expect(snapToEdges(image, { x: 1, y: 1 }, { x: 30, y: 1 }, "gradient")).toBeNull();
+});
+
+test('profiles are exported as CSV', () => {
+  let csv = profileToCSV(sampleProfile(vesselImage(200, 50), { x: 12, y: 5.5 }, { x: 32, y: 5.5 })).split("\n");
+  expect(csv[0]).toBe("Distance (px),X (px),Y (px),Grey Level");
+  expect(csv[1]).toBe("-10,2,5.5,200");
+  expect(csv.length).toBe(2 + 40/0.25 + 1);
+});
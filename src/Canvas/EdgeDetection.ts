@@ -0,0 +1,152 @@
+import { Point } from "./Point";
+
+// Detection of the vessel edges along a diameter line, from the grey levels of the raw image. The profile is sampled along
+// the line and past both of its ends, the vessel is found as the strongest deviation from the background inside the drawn
+// line, whether darker, as in angiograms, or brighter, as in masks, and its edges are located with sub-pixel precision by
+// either criterion:
+//  - fwhm: where the profile crosses half the way between the background and the vessel extremum
+//  - gradient: where the profile changes the fastest, on each side of the vessel extremum
+export type EdgeCriterion = "fwhm" | "gradient";
+
+export const edgeCriteria: EdgeCriterion[] = ["fwhm", "gradient"];
+export const edgeCriterionLabels: {[criterion in EdgeCriterion]: string} = { fwhm: "Half maximum", gradient: "Maximum gradient" };
+
+// RGBA pixels of an image, such as an ImageData object
+export type RasterImage = {
+  data: Uint8ClampedArray,                                                      // Red, green, blue and alpha of each pixel, row by row
+  width: number,                                                                // Width of the image, in pixels
+  height: number                                                                // Height of the image, in pixels
+}
+
+export type IntensityProfile = {
+  points: Point[],                                                              // Position of each sample, in canvas coordinates
+  distances: number[],                                                          // Distance of each sample from the start of the line, negative before it
+  values: number[],                                                             // Grey level of each sample
+  length: number                                                                // Length of the line, so that its end is at this distance
+}
+
+// Distance between the samples of a profile, and minimum length, in pixels, and fraction of the line length by which
+// the profile extends past each end of the line
+export const profileStep = 0.25;
+export const minProfileExtension = 5;
+export const profileExtensionRatio = 0.5;
+
+// Minimum difference of grey levels between the background and the vessel for edges to be detected
+const minContrast = 5;
+
+// Grey level of the image at a point, in canvas coordinates, interpolated bilinearly between the centers of the pixels
+export function sampleGrey(image: RasterImage, point: Point): number {
+  let x = Math.min(Math.max(point.x - 0.5, 0), image.width - 1), y = Math.min(Math.max(point.y - 0.5, 0), image.height - 1);
+  let x0 = Math.floor(x), y0 = Math.floor(y), x1 = Math.min(x0 + 1, image.width - 1), y1 = Math.min(y0 + 1, image.height - 1);
+  let fx = x - x0, fy = y - y0;
+  let grey = (px: number, py: number) => {
+    let index = (py*image.width + px)*4;
+    return (image.data[index] + image.data[index + 1] + image.data[index + 2]) / 3;
+  };
+  return (grey(x0, y0)*(1 - fx) + grey(x1, y0)*fx)*(1 - fy) + (grey(x0, y1)*(1 - fx) + grey(x1, y1)*fx)*fy;
+}
+
+// Sample the grey levels along a line, extended past both of its ends
+export function sampleProfile(image: RasterImage, start: Point, end: Point): IntensityProfile {
+  let length = Math.hypot(end.x - start.x, end.y - start.y);
+  let extension = Math.max(minProfileExtension, length*profileExtensionRatio);
+  let direction = length > 0 ? { x: (end.x - start.x)/length, y: (end.y - start.y)/length } : { x: 0, y: 0 };
+  let points: Point[] = [], distances: number[] = [], values: number[] = [];
+  for(let distance = -extension; distance <= length + extension; distance += profileStep) {
+    let point = pointAt(start, direction, distance);
+    points.push(point);
+    distances.push(distance);
+    values.push(sampleGrey(image, point));
+  }
+  return { points: points, distances: distances, values: values, length: length };
+}
+
+// Convert a profile into CSV, with one row per sample holding its distance from the start of the line, position and value,
+// the grey level by default
+export function profileToCSV(profile: { points: Point[], distances: number[], values: number[] }, valueHeader: string = "Grey Level"): string {
+  let rows = profile.values.map((value, index) => 
+    [profile.distances[index], profile.points[index].x, profile.points[index].y, value].map(number => Math.round(number*1000)/1000).join(","));
+  return ["Distance (px),X (px),Y (px)," + valueHeader, ...rows].join("\n") + "\n";
+}
+
+// Find the distances from the start of the line at which the vessel edges lie, or null if there is no vessel inside the line
+export function findEdges(profile: IntensityProfile, criterion: EdgeCriterion): { start: number, end: number } | null {
+  let { distances, values } = profile;
+  let inside = distances.map(distance => distance >= 0 && distance <= profile.length);
+  if(!inside.includes(true)) return null;
+
+  // Take the background as the mean of the outer tenths of the profile, and measure the vessel signal as the deviation from
+  // it, positive inside the vessel, whether it is darker or brighter than the background
+  let margin = Math.max(1, Math.floor(values.length / 10));
+  let outer = [...values.slice(0, margin), ...values.slice(-margin)];
+  let background = mean(outer);
+  let insideValues = values.filter((value, index) => inside[index]);
+  let polarity = mean(insideValues) < background ? -1 : 1;
+  let signal = values.map(value => polarity*(value - background));
+
+  // The vessel extremum is the strongest signal inside the line
+  let peak = -1;
+  signal.forEach((value, index) => { if(inside[index] && (peak === -1 || value > signal[peak])) peak = index });
+  if(signal[peak] < minContrast) return null;
+
+  let edges = criterion === "fwhm" ? halfMaximumEdges(distances, signal, peak) : gradientEdges(distances, signal, peak);
+  return edges && edges.start < edges.end ? edges : null;
+}
+
+// Move the end points of a line to the vessel edges, or return null if they cannot be detected
+export function snapToEdges(image: RasterImage, start: Point, end: Point, criterion: EdgeCriterion): { start: Point, end: Point } | null {
+  let profile = sampleProfile(image, start, end);
+  let edges = findEdges(profile, criterion);
+  if(!edges || profile.length === 0) return null;
+  let direction = { x: (end.x - start.x)/profile.length, y: (end.y - start.y)/profile.length };
+  return { start: pointAt(start, direction, edges.start), end: pointAt(start, direction, edges.end) };
+}
+
+/********************************************* Helpers *********************************************/
+// Edges where the signal falls to half its peak on each side, interpolated linearly between the samples
+function halfMaximumEdges(distances: number[], signal: number[], peak: number): { start: number, end: number } | null {
+  let half = signal[peak] / 2;
+  let crossing = (from: number, to: number) => {
+    let t = (signal[from] - half) / (signal[from] - signal[to]);
+    return distances[from] + t*(distances[to] - distances[from]);
+  };
+
+  let left = peak, right = peak;
+  while(left > 0 && signal[left] > half) left--;
+  while(right < signal.length - 1 && signal[right] > half) right++;
+  if(signal[left] > half || signal[right] > half) return null;
+  return { start: crossing(left + 1, left), end: crossing(right - 1, right) };
+}
+
+// Edges where the signal rises the fastest before the peak and falls the fastest after it, refined as the centroid of
+// the derivative around its extremum, where it is at least half the extremum, so that ramps spanning several samples
+// are located at their middle
+function gradientEdges(distances: number[], signal: number[], peak: number): { start: number, end: number } | null {
+  let derivative = signal.map((value, index) =>
+    index === 0 || index === signal.length - 1 ? 0 : (signal[index + 1] - signal[index - 1]) / 2);
+  let extremum = (from: number, to: number, sign: number) => {
+    let best = -1;
+    for(let index = from; index <= to; index++) if(best === -1 || sign*derivative[index] > sign*derivative[best]) best = index;
+    return best;
+  };
+  let refine = (index: number) => {
+    let half = derivative[index] / 2, first = index, last = index;
+    while(first > 0 && Math.abs(derivative[first - 1]) >= Math.abs(half) && Math.sign(derivative[first - 1]) === Math.sign(half)) first--;
+    while(last < derivative.length - 1 && Math.abs(derivative[last + 1]) >= Math.abs(half) && Math.sign(derivative[last + 1]) === Math.sign(half)) last++;
+    let weights = derivative.slice(first, last + 1);
+    return weights.reduce((sum, weight, offset) => sum + weight*distances[first + offset], 0) / weights.reduce((sum, weight) => sum + weight, 0);
+  };
+
+  let rising = extremum(1, peak, 1), falling = extremum(peak, signal.length - 2, -1);
+  if(rising === -1 || falling === -1 || derivative[rising] <= 0 || derivative[falling] >= 0) return null;
+  return { start: refine(rising), end: refine(falling) };
+}
+
+// Point at a distance from the start of a line, along its unit direction
+function pointAt(start: Point, direction: Point, distance: number): Point {
+  return { x: start.x + direction.x*distance, y: start.y + direction.y*distance };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
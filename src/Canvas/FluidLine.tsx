@@ -1,4 +1,5 @@
 import GenericLine from "./AbstractLine";
+import { Point } from "./Point";
 
 // Class for a fluid line drawn using the canvas canvas API, with sub-pixel precision
 export class FluidLine extends GenericLine {
@@ -10,4 +11,8 @@ export class FluidLine extends GenericLine {
       ctx.stroke();
       ctx.closePath();
     }
+
+    protected create(startPoint: Point, endPoint: Point): FluidLine {
+      return new FluidLine(startPoint, endPoint);
+    }
   }
\ No newline at end of file
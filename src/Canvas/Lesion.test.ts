@@ -0,0 +1,23 @@
+import { FluidLine } from './FluidLine';
+import { LineRole } from './LineRole';
+import { isAnnotationComplete, isLesionComplete, lesionIDs, nextLesionID } from './Lesion';
+
+// Build a line of the given lesion and role
+function line(lesion: number, role: LineRole): FluidLine {
+  let line = new FluidLine({ x: 0, y: 0 }, { x: 0, y: 1 });
+  line.lesion = lesion;
+  line.role = role;
+  return line;
+}
+
+test('lesions are complete once every role has a line', () => {
+  let lines = [line(1, "proximal"), line(1, "mld"), line(1, "distal"), line(3, "mld")];
+  expect(lesionIDs(lines)).toEqual([1, 3]);
+  expect(isLesionComplete(lines, 1)).toBe(true);
+  expect(isLesionComplete(lines, 3)).toBe(false);
+  expect(isAnnotationComplete(lines)).toBe(false);
+  expect(isAnnotationComplete(lines.slice(0, 3))).toBe(true);
+  expect(isAnnotationComplete([])).toBe(false);
+  expect(nextLesionID(lines)).toBe(4);
+  expect(nextLesionID([])).toBe(1);
+});
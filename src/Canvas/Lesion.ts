@@ -0,0 +1,32 @@
+import AbstractLine from "./AbstractLine";
+import { findLineByRole, LineRole, lineRoles } from "./LineRole";
+
+// A frame can describe several lesions, e.g., tandem lesions or both branches of a bifurcation. Each line
+// belongs to a lesion, identified by a number starting at 1, and each lesion has at most one line per role
+export const firstLesionID = 1;
+
+// Identifiers of the lesions that have lines, in ascending order
+export function lesionIDs(lines: AbstractLine[]): number[] {
+  return Array.from(new Set(lines.map(line => line.lesion))).sort((a, b) => a - b);
+}
+
+// Lines of the given lesion, in drawing order
+export function lesionLines(lines: AbstractLine[], lesion: number): AbstractLine[] {
+  return lines.filter(line => line.lesion === lesion);
+}
+
+// Identifier following the highest one in use
+export function nextLesionID(lines: AbstractLine[]): number {
+  return lines.reduce((max, line) => Math.max(max, line.lesion), firstLesionID - 1) + 1;
+}
+
+// Whether the given lesion has a line for every given role, by default every diameter role
+export function isLesionComplete(lines: AbstractLine[], lesion: number, roles: LineRole[] = lineRoles): boolean {
+  let lesionLinesArray = lesionLines(lines, lesion);
+  return roles.every(role => findLineByRole(lesionLinesArray, role) !== undefined);
+}
+
+// Whether there is at least one lesion and every lesion has a line for every role
+export function isAnnotationComplete(lines: AbstractLine[]): boolean {
+  return lines.length !== 0 && lesionIDs(lines).every(lesion => isLesionComplete(lines, lesion));
+}
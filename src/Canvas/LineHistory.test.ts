@@ -0,0 +1,45 @@
+import { FluidLine } from './FluidLine';
+import { PixelLine } from './PixelLine';
+import { LineHistory } from './LineHistory';
+
+test('changes are undone and redone in order', () => {
+  let history = new LineHistory();
+  let first = new FluidLine({ x: 0, y: 0 }, { x: 3, y: 4 }), second = new FluidLine({ x: 1, y: 1 }, { x: 1, y: 5 });
+  history.execute("Draw line", [first]);
+  history.execute("Draw line", [first, second]);
+  let moved = second.withPoints({ x: 2, y: 1 }, second.endPoint);
+  history.execute("Move line end point", [first, moved]);
+
+  expect(history.undo()?.description).toBe("Move line end point");
+  expect(history.lines).toEqual([first, second]);
+  expect(history.undo()?.description).toBe("Draw line");
+  expect(history.lines).toEqual([first]);
+  expect(history.redo()?.description).toBe("Draw line");
+  expect(history.lines).toEqual([first, second]);
+  expect(history.canRedo).toBe(true);
+
+  // A new change discards the undone ones
+  history.execute("Delete line", [second]);
+  expect(history.canRedo).toBe(false);
+  expect(history.redo()).toBeNull();
+});
+
+test('edited copies keep the class, role and lesion of the original line', () => {
+  let line = new PixelLine({ x: 0, y: 0 }, { x: 0, y: 4 });
+  line.role = "mld";
+  line.lesion = 2;
+  let copy = line.withPoints({ x: 1, y: 0 }, { x: 1, y: 10 });
+  expect(copy).toBeInstanceOf(PixelLine);
+  expect(copy.length).toBe(10);
+  expect([copy.role, copy.lesion]).toEqual(["mld", 2]);
+  expect(line.withRole(null).role).toBeNull();
+  expect(line.startX).toBe(0);
+});
+
+test('resetting forgets the history', () => {
+  let history = new LineHistory();
+  history.execute("Draw line", [new FluidLine({ x: 0, y: 0 }, { x: 1, y: 1 })]);
+  history.reset([]);
+  expect(history.canUndo).toBe(false);
+  expect(history.lines).toEqual([]);
+});
@@ -0,0 +1,60 @@
+import AbstractLine from "./AbstractLine";
+
+// Change of the lines of a canvas, e.g., drawing, moving or deleting a line, storing the lines before and
+// after it so that it can be undone and redone. Lines are never modified once stored, but replaced by edited
+// copies, so the stored arrays remain valid
+export type LineCommand = {
+  description: string,                                                          // Description of the change, e.g., "Draw line"
+  before: AbstractLine[],                                                       // Lines before the change
+  after: AbstractLine[]                                                         // Lines after the change
+}
+
+// Multi-level undo and redo history of the lines of a canvas. It holds the current lines, so that several
+// changes made before the canvas state is updated, e.g., when propagating lines, build upon each other
+export class LineHistory {
+  private static maxCommands = 200;                                             // Maximum number of commands that can be undone
+
+  private _lines: AbstractLine[] = [];                                          // Current lines
+  private undoStack: LineCommand[] = [];                                        // Commands that can be undone, most recent last
+  private redoStack: LineCommand[] = [];                                        // Commands that can be redone, most recent last
+
+  // Getters
+  public get lines(): AbstractLine[] { return this._lines }
+  public get canUndo(): boolean { return this.undoStack.length !== 0 }
+  public get canRedo(): boolean { return this.redoStack.length !== 0 }
+
+  // Replace the current lines, recording the change so that it can be undone. Redoing is no longer possible
+  public execute = (description: string, lines: AbstractLine[]): LineCommand => {
+    let command = { description: description, before: this._lines, after: lines };
+    this.undoStack.push(command);
+    if(this.undoStack.length > LineHistory.maxCommands) this.undoStack.shift();
+    this.redoStack = [];
+    this._lines = lines;
+    return command;
+  }
+
+  // Undo the last command, returning it, or null if there is none
+  public undo = (): LineCommand | null => {
+    let command = this.undoStack.pop();
+    if(!command) return null;
+    this.redoStack.push(command);
+    this._lines = command.before;
+    return command;
+  }
+
+  // Redo the last undone command, returning it, or null if there is none
+  public redo = (): LineCommand | null => {
+    let command = this.redoStack.pop();
+    if(!command) return null;
+    this.undoStack.push(command);
+    this._lines = command.after;
+    return command;
+  }
+
+  // Replace the current lines and forget the history, e.g., when restoring a saved session
+  public reset = (lines: AbstractLine[]) => {
+    this._lines = lines;
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
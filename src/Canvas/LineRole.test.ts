@@ -0,0 +1,26 @@
+import { FluidLine } from './FluidLine';
+import { findLineByRole, inferLineRoles, nextLineRole } from './LineRole';
+
+// Build a vertical line of the given length
+function line(length: number): FluidLine {
+  return new FluidLine({ x: 0, y: 0 }, { x: 0, y: length });
+}
+
+test('lines saved without roles take the shortest one as the MLD', () => {
+  let lines = [line(10), line(4), line(8)];
+  inferLineRoles(lines);
+  expect(lines.map(line => line.role)).toEqual(["proximal", "mld", "distal"]);
+
+  lines = [line(3), line(10), line(8)];
+  inferLineRoles(lines);
+  expect(lines.map(line => line.role)).toEqual(["mld", "proximal", "distal"]);
+});
+
+test('roles already assigned are kept', () => {
+  let lines = [line(4), line(10)];
+  lines[1].role = "mld";
+  inferLineRoles(lines);
+  expect(lines[0].role).toBeNull();
+  expect(findLineByRole(lines, "mld")).toBe(lines[1]);
+  expect(nextLineRole(lines)).toBe("proximal");
+});
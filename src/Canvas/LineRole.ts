@@ -0,0 +1,44 @@
+import AbstractLine from "./AbstractLine";
+
+// Roles of the diameter lines of a lesion, in the order in which they are assigned to the drawn lines:
+//  - proximal: reference diameter of the healthy segment before the lesion
+//  - mld: minimum lumen diameter, at the lesion
+//  - distal: reference diameter of the healthy segment after the lesion
+// and roles of the lines marking where the lesion starts and ends along the vessel, drawn across it, which are only
+// assigned in QCA mode, after the diameter lines:
+//  - lesionStart: proximal boundary of the lesion
+//  - lesionEnd: distal boundary of the lesion
+export type LineRole = "proximal" | "mld" | "distal" | "lesionStart" | "lesionEnd";
+
+export const lineRoles: LineRole[] = ["proximal", "mld", "distal"];
+export const boundaryRoles: LineRole[] = ["lesionStart", "lesionEnd"];
+export const qcaLineRoles: LineRole[] = [...lineRoles, ...boundaryRoles];
+
+// Labels of the roles, used in the line list and spreadsheet, and short labels, drawn next to the lines
+export const lineRoleLabels: {[role in LineRole]: string} = { 
+  proximal: "Proximal Reference", mld: "MLD", distal: "Distal Reference", lesionStart: "Lesion Start", lesionEnd: "Lesion End" 
+};
+export const lineRoleShortLabels: {[role in LineRole]: string} = { proximal: "P", mld: "MLD", distal: "D", lesionStart: "S", lesionEnd: "E" };
+
+// Find the line with the given role, if any
+export function findLineByRole(lines: AbstractLine[], role: LineRole): AbstractLine | undefined {
+  return lines.find(line => line.role === role);
+}
+
+// First of the given roles, in drawing order, that none of the given lines has, or null if every role is taken
+export function nextLineRole(lines: AbstractLine[], roles: LineRole[] = lineRoles): LineRole | null {
+  return roles.find(role => !findLineByRole(lines, role)) ?? null;
+}
+
+// Assign roles to lines saved before roles existed, whose stenosis was computed taking the shortest line
+// as the MLD. The remaining lines are taken as the proximal and distal references, in drawing order
+export function inferLineRoles(lines: AbstractLine[]) {
+  if(lines.some(line => line.role !== null)) return;
+  let references = lines.slice();
+  if(lines.length === lineRoles.length) {
+    let mld = lines.reduce((shortest, line) => line.length < shortest.length ? line : shortest);
+    mld.role = "mld";
+    references = lines.filter(line => line !== mld);
+  }
+  references.forEach(line => line.role = nextLineRole(lines));
+}
@@ -5,6 +5,8 @@ import { Point } from "./Point";
 export class PixelLine extends GenericLine {
     private _slope: [number, number];
     private points: Point[] = [];
+    private raster: { color: string, image: HTMLCanvasElement, origin: Point } | null = null; // Pixels of the line in the color last drawn
+    private static defaultColor = "#00ff00";                                    // Color of the pixels when the fill style is not a color
   
     constructor(startPoint: Point, endPoint: Point) {
       super(startPoint, endPoint);
@@ -38,9 +40,40 @@ export class PixelLine extends GenericLine {
     // Getter
     public get slope(): [number, number] { return this._slope }
   
-    // Draw the line on the given Canvas context, filling the pixels one by one
+    // Draw the line on the given Canvas context in its fill color, blitting the pixels of the line as a single image,
+    // which is only rasterized again when the color changes, e.g., when the line is selected
     public draw(ctx: CanvasRenderingContext2D) {
-      this.points.forEach(point => ctx.fillRect(point.x, point.y, 1, 1));
-      //await Promise.all(this.points.map(point => ctx.fillRect(point.x, point.y, 1, 1)));
+      if(this.points.length === 0) return;
+      let color = typeof ctx.fillStyle === "string" ? ctx.fillStyle : PixelLine.defaultColor;
+      if(!this.raster || this.raster.color !== color) this.raster = this.rasterize(color);
+      ctx.drawImage(this.raster.image, this.raster.origin.x, this.raster.origin.y);
+    }
+
+    // Rasterize the pixels of the line in the given color, as an opaque hexadecimal color, into an image data spanning
+    // the bounding box of the line, copied to an offscreen canvas so that it can be drawn with the zoom and pan transformation
+    private rasterize(color: string): { color: string, image: HTMLCanvasElement, origin: Point } {
+      let xs = this.points.map(point => point.x), ys = this.points.map(point => point.y);
+      let origin = { x: Math.min(...xs), y: Math.min(...ys) };
+      let width = Math.max(...xs) - origin.x + 1, height = Math.max(...ys) - origin.y + 1;
+      let hex = /^#[0-9a-f]{6}$/i.test(color) ? color : PixelLine.defaultColor;
+      let [red, green, blue] = [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16));
+
+      let image = document.createElement("canvas");
+      image.width = width;
+      image.height = height;
+      let ctx = image.getContext("2d");
+      if(ctx) {
+        let data = ctx.createImageData(width, height);
+        this.points.forEach(point => {
+          let index = ((point.y - origin.y)*width + (point.x - origin.x))*4;
+          data.data.set([red, green, blue, 255], index);
+        });
+        ctx.putImageData(data, 0, 0);
+      }
+      return { color: color, image: image, origin: origin };
+    }
+
+    protected create(startPoint: Point, endPoint: Point): PixelLine {
+      return new PixelLine(startPoint, endPoint);
     }
   }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import React from "react";
+import Button from '@mui/material/Button';
+
+// Vertical marker at a distance along the profile, either solid or dashed
+export type ProfileMarker = { distance: number, dashed: boolean };
+
+type ProfileChartProps = {
+  profile: { distances: number[], values: number[] },                           // Values sampled along a line, e.g., grey levels or diameters
+  maxValue: number,                                                             // Top of the value axis
+  formatValue: (value: number) => string,                                       // Describes a value in the hover legend, e.g., "grey level: 120"
+  markers: ProfileMarker[],                                                     // Positions marked on the chart
+  legend: string,                                                               // Meaning of the markers, shown while nothing is hovered
+  hoveredIndex: number | null,                                                  // Index of the sample highlighted on the chart and canvas, if any
+  onHover: (index: number | null) => void,                                      // Called when the mouse moves over or leaves the chart
+  onExport: () => void                                                          // Called when the user exports the profile as CSV
+}
+
+// Chart of the values sampled along a line, such as the grey levels along a diameter line or the vessel diameters along its
+// centerline, with solid and dashed markers at given distances
+export class ProfileChart extends React.Component<ProfileChartProps> {
+  private static width = 320;                                                   // Width of the chart, in pixels
+  private static height = 120;                                                  // Height of the chart, in pixels
+  private static padding = 4;                                                   // Margin around the plot, in pixels
+  private static profileColor = '#1976D2';                                      // Color of the profile
+  private static solidMarkerColor = '#00A000';                                  // Color of the solid markers
+  private static dashedMarkerColor = '#FF00FF';                                 // Color of the dashed markers and hovered sample
+
+  // Horizontal position, in the chart, of a distance along the line
+  private toX = (distance: number): number => {
+    let distances = this.props.profile.distances;
+    let first = distances[0], last = distances[distances.length - 1];
+    return ProfileChart.padding + (distance - first) / (last - first || 1) * (ProfileChart.width - 2*ProfileChart.padding);
+  }
+
+  // Vertical position, in the chart, of a value
+  private toY = (value: number): number => {
+    return ProfileChart.height - ProfileChart.padding - value / (this.props.maxValue || 1) * (ProfileChart.height - 2*ProfileChart.padding);
+  }
+
+  // Report the first sample at or past the distance along the line under the mouse
+  private handleMouseMove = (e: React.MouseEvent<SVGSVGElement, MouseEvent>) => {
+    let distances = this.props.profile.distances;
+    let first = distances[0], last = distances[distances.length - 1];
+    let x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    let ratio = (x - ProfileChart.padding) / (ProfileChart.width - 2*ProfileChart.padding);
+    let distance = Math.min(Math.max(first + ratio*(last - first), first), last);
+    let index = distances.findIndex(other => other >= distance);
+    this.props.onHover(index === -1 ? null : index);
+  }
+
+  private handleMouseLeave = () => {
+    this.props.onHover(null);
+  }
+
+  // Vertical marker line at a distance along the line
+  private marker = (marker: ProfileMarker, key: number): JSX.Element => {
+    return <line key={key} x1={this.toX(marker.distance)} x2={this.toX(marker.distance)} y1={0} y2={ProfileChart.height}
+      stroke={marker.dashed ? ProfileChart.dashedMarkerColor : ProfileChart.solidMarkerColor} strokeDasharray={marker.dashed ? "4 3" : undefined}/>;
+  }
+
+  public render(): JSX.Element {
+    let { profile, hoveredIndex } = this.props;
+    let points = profile.values.map((value, index) => this.toX(profile.distances[index]) + "," + this.toY(value)).join(" ");
+    let hovered = hoveredIndex !== null && hoveredIndex < profile.values.length ? hoveredIndex : null;
+    return (
+      <div>
+        <svg width={ProfileChart.width} height={ProfileChart.height} style={{ border: "1px solid lightgray", cursor: "crosshair" }}
+          onMouseMove={this.handleMouseMove} onMouseLeave={this.handleMouseLeave}>
+          <polyline points={points} fill="none" stroke={ProfileChart.profileColor}/>
+          {this.props.markers.map(this.marker)}
+          {hovered !== null &&
+            <circle cx={this.toX(profile.distances[hovered])} cy={this.toY(profile.values[hovered])} r={3} fill={ProfileChart.dashedMarkerColor}/>
+          }
+        </svg>
+        <div style={{ fontSize: "small" }}>
+          {hovered !== null ?
+            "Distance: " + Math.round(profile.distances[hovered]*100)/100 + " px, " + this.props.formatValue(profile.values[hovered]) :
+            this.props.legend}
+          <Button size="small" onClick={this.props.onExport}>Export CSV</Button>
+        </div>
+      </div>
+    );
+  }
+}
+
+export default ProfileChart;
@@ -0,0 +1,32 @@
+import { FluidLine } from './FluidLine';
+import { LineRole } from './LineRole';
+import { diameterStenosisPercentage, interpolatedAreaStenosisPercentage, interpolatedDiameterStenosisPercentage,
+  interpolatedReferenceDiameter, lesionLength } from './Stenosis';
+
+// Build a vertical line of the given role and length, centered on the given position along a horizontal vessel
+function line(role: LineRole, position: number, length: number): FluidLine {
+  let line = new FluidLine({ x: position, y: 50 - length/2 }, { x: position, y: 50 + length/2 });
+  line.role = role;
+  return line;
+}
+
+test('the reference diameter is interpolated at the position of the MLD', () => {
+  let lines = [line("proximal", 0, 10), line("mld", 25, 3), line("distal", 100, 6)];
+  expect(interpolatedReferenceDiameter(lines)).toBeCloseTo(9);
+  expect(interpolatedDiameterStenosisPercentage(lines)).toBeCloseTo(100*(1 - 3/9));
+  expect(interpolatedAreaStenosisPercentage(lines)).toBeCloseTo(100*(1 - 1/9));
+  expect(diameterStenosisPercentage(lines)).toBeCloseTo(100*(1 - 3/8));
+});
+
+test('an MLD outside the references takes the nearest reference diameter', () => {
+  let lines = [line("proximal", 0, 10), line("mld", 150, 3), line("distal", 100, 6)];
+  expect(interpolatedReferenceDiameter(lines)).toBeCloseTo(6);
+  expect(interpolatedReferenceDiameter(lines.slice(0, 2))).toBeUndefined();
+});
+
+test('the lesion length is the distance between its start and end lines', () => {
+  let lines = [line("lesionStart", 10, 8), line("mld", 25, 3), line("lesionEnd", 40, 7)];
+  expect(lesionLength(lines)).toBe(30);
+  expect(lesionLength(lines, 2)).toBeUndefined();
+  expect(lesionLength(lines.slice(0, 2))).toBeUndefined();
+});
@@ -0,0 +1,75 @@
+import AbstractLine from "./AbstractLine";
+import { firstLesionID, lesionLines } from "./Lesion";
+import { boundaryRoles, findLineByRole, lineRoles } from "./LineRole";
+import { Point } from "./Point";
+import { circularAreaStenosis, computeQCAMetrics, diameterStenosis, QCAMetric, RoleDiameters } from "../Metrics/QCAMetrics";
+
+// Diameters of the lines of a lesion, tagged by their roles, as taken by the QCA metrics
+export function lesionDiameters(lines: AbstractLine[], lesion: number = firstLesionID): RoleDiameters {
+  let diameters: RoleDiameters = {};
+  lineRoles.forEach(role => {
+    let line = findLineByRole(lesionLines(lines, lesion), role);
+    if(line) diameters[role as keyof RoleDiameters] = line.length;
+  });
+  return diameters;
+}
+
+// Every QCA metric of a lesion, given the lines of the same lesion on an orthogonal projection, if any
+export function lesionMetrics(lines: AbstractLine[], lesion: number = firstLesionID, orthogonalLines: AbstractLine[] | null = null): {[metric in QCAMetric]: number | undefined} {
+  return computeQCAMetrics(lesionDiameters(lines, lesion), orthogonalLines ? lesionDiameters(orthogonalLines, lesion) : null);
+}
+
+// Given the MLD and the proximal and distal reference lines of a lesion, computes the associated diameter stenosis
+// percentage, relative to the mean reference diameter, or undefined if a line is missing
+export function diameterStenosisPercentage(lines: AbstractLine[], lesion: number = firstLesionID): number | undefined {
+  return diameterStenosis(lesionDiameters(lines, lesion));
+}
+
+// Given the MLD and the proximal and distal reference lines of a lesion, computes the associated area stenosis
+// percentage, relative to the mean reference area, assuming circular cross-sections, or undefined if a line is missing
+export function areaStenosisPercentage(lines: AbstractLine[], lesion: number = firstLesionID): number | undefined {
+  return circularAreaStenosis(lesionDiameters(lines, lesion));
+}
+
+// Reference diameter at the MLD, as in standard QCA: the proximal and distal reference diameters are interpolated linearly
+// at the position of the MLD along the vessel, approximated by projecting the middle of the MLD line on the segment between
+// the middles of the reference lines, so that a tapering vessel is not taken as stenosed. Undefined if a line is missing
+export function interpolatedReferenceDiameter(lines: AbstractLine[], lesion: number = firstLesionID): number | undefined {
+  let [proximal, mld, distal] = lineRoles.map(role => findLineByRole(lesionLines(lines, lesion), role));
+  if(!proximal || !mld || !distal) return undefined;
+  let start = middle(proximal), end = middle(distal), position = middle(mld);
+  let squaredLength = Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2);
+  let t = squaredLength === 0 ? 0.5 : ((position.x - start.x)*(end.x - start.x) + (position.y - start.y)*(end.y - start.y)) / squaredLength;
+  t = Math.min(Math.max(t, 0), 1);
+  return proximal.length + t*(distal.length - proximal.length);
+}
+
+// Diameter stenosis percentage of a lesion relative to the interpolated reference diameter, or undefined if a line is missing
+export function interpolatedDiameterStenosisPercentage(lines: AbstractLine[], lesion: number = firstLesionID): number | undefined {
+  return diameterStenosis(interpolatedDiameters(lines, lesion));
+}
+
+// Area stenosis percentage of a lesion relative to the interpolated reference area, assuming circular cross-sections,
+// or undefined if a line is missing
+export function interpolatedAreaStenosisPercentage(lines: AbstractLine[], lesion: number = firstLesionID): number | undefined {
+  return circularAreaStenosis(interpolatedDiameters(lines, lesion));
+}
+
+// Length of a lesion, in pixels, as the distance between the middles of its start and end lines, or undefined if either is missing
+export function lesionLength(lines: AbstractLine[], lesion: number = firstLesionID): number | undefined {
+  let [start, end] = boundaryRoles.map(role => findLineByRole(lesionLines(lines, lesion), role));
+  if(!start || !end) return undefined;
+  let startMiddle = middle(start), endMiddle = middle(end);
+  return Math.hypot(endMiddle.x - startMiddle.x, endMiddle.y - startMiddle.y);
+}
+
+// Diameters of a lesion where the interpolated reference diameter stands for both references, so that the metrics relative
+// to the mean reference are relative to it
+function interpolatedDiameters(lines: AbstractLine[], lesion: number): RoleDiameters {
+  let reference = interpolatedReferenceDiameter(lines, lesion), mld = lesionDiameters(lines, lesion).mld;
+  return reference === undefined ? {} : { proximal: reference, mld: mld, distal: reference };
+}
+
+function middle(line: AbstractLine): Point {
+  return { x: (line.startX + line.endX) / 2, y: (line.startY + line.endY) / 2 };
+}
@@ -0,0 +1,232 @@
+import { DicomDataSet, DicomFragment, DicomTags, isDicom, parseDicom, TransferSyntaxes } from "./DicomParser";
+import { FrameMetadata } from "../Metadata/FrameMetadata";
+import { Calibration, createPixelSpacingCalibration } from "../Canvas/Calibration";
+
+// Frame extracted from a DICOM file, converted into a PNG file, along with the metadata read from its tags
+export type DicomFrame = {
+  file: File,                                                                   // PNG file with the frame
+  metadata: FrameMetadata,                                                      // Patient and acquisition metadata
+  calibration: Calibration | null                                               // Calibration derived from the pixel spacing, if any
+}
+
+// 8 bit RGBA raster of a decoded frame
+export type RasterFrame = {
+  width: number,
+  height: number,
+  data: Uint8ClampedArray
+}
+
+// Extensions of the files treated as DICOM
+const dicomExtensions = /\.(dcm|dicom)$/i;
+
+// Test whether a file should be treated as DICOM, based on its extension or, since DICOM files often have
+// no extension, on the magic number of the extensionless ones
+export async function isDicomFile(file: File): Promise<boolean> {
+  if(dicomExtensions.test(file.name)) return true;
+  if(file.name.includes(".")) return false;
+  return isDicom(await file.slice(0, 132).arrayBuffer());
+}
+
+// Decode every frame of a DICOM file into a PNG file, named <DICOM name>_<frame number>.png
+export async function extractDicomFrames(file: File): Promise<DicomFrame[]> {
+  let dataSet = parseDicom(await file.arrayBuffer());
+  let numberOfFrames = dataSet.number(DicomTags.NumberOfFrames) ?? 1;
+  let baseName = file.name.replace(dicomExtensions, "");
+  let calibration = readCalibration(dataSet);
+
+  let frames: DicomFrame[] = [];
+  for(let index = 0; index < numberOfFrames; index++) {
+    let metadata = readMetadata(dataSet, index, numberOfFrames);
+    let raster = await decodeFrame(dataSet, index, numberOfFrames);
+    let blob = await rasterToPNG(raster);
+    let name = baseName + "_" + String(metadata.frameNumber).padStart(3, "0") + ".png";
+    frames.push({ file: new File([blob], name, { type: "image/png" }), metadata: metadata, calibration: calibration });
+  }
+  return frames;
+}
+
+/**************************************** Metadata extraction **************************************/
+// Read the patient and acquisition metadata of the index-th frame. Multi-frame files are numbered
+// from 1, while single-frame files use their instance number
+export function readMetadata(dataSet: DicomDataSet, index: number, numberOfFrames: number): FrameMetadata {
+  let patientID = dataSet.string(DicomTags.PatientID) ?? "";
+  return {
+    patientID: /^\d+$/.test(patientID) ? parseInt(patientID) : patientID,
+    primaryAngle: dataSet.number(DicomTags.PositionerPrimaryAngle) ?? NaN,
+    secondaryAngle: dataSet.number(DicomTags.PositionerSecondaryAngle) ?? NaN,
+    frameNumber: numberOfFrames > 1 ? index + 1 : dataSet.number(DicomTags.InstanceNumber) ?? 1,
+    fields: {}
+  };
+}
+
+// Derive the calibration from the imager pixel spacing, corrected by the estimated radiographic magnification
+// to obtain the spacing at the isocenter, falling back to the pixel spacing tag
+export function readCalibration(dataSet: DicomDataSet): Calibration | null {
+  let spacing = dataSet.number(DicomTags.ImagerPixelSpacing);
+  if(spacing !== undefined) {
+    let magnification = dataSet.number(DicomTags.EstimatedRadiographicMagnificationFactor) ?? 1;
+    return createPixelSpacingCalibration(spacing / magnification);
+  }
+  spacing = dataSet.number(DicomTags.PixelSpacing);
+  return spacing !== undefined ? createPixelSpacingCalibration(spacing) : null;
+}
+
+/****************************************** Pixel decoding *****************************************/
+// Decode the index-th frame of the data set into an 8 bit RGBA raster
+export async function decodeFrame(dataSet: DicomDataSet, index: number, numberOfFrames: number): Promise<RasterFrame> {
+  let pixelData = dataSet.element(DicomTags.PixelData);
+  if(!pixelData) throw new Error("The DICOM file has no pixel data");
+  if(!pixelData.fragments) return decodeNativeFrame(dataSet, index);
+
+  // Browsers only decode 8 bit JPEG, so the 12 bit frames of the JPEG extended process, common in XA, are not supported
+  let transferSyntax = dataSet.transferSyntax;
+  let bitsStored = dataSet.number(DicomTags.BitsStored) ?? dataSet.number(DicomTags.BitsAllocated) ?? 8;
+  if(transferSyntax !== TransferSyntaxes.JPEGBaseline && (transferSyntax !== TransferSyntaxes.JPEGExtended || bitsStored > 8))
+    throw new Error("Unsupported DICOM transfer syntax " + transferSyntax + (bitsStored > 8 ? " with " + bitsStored + " bits stored" : "") +
+      ". Please convert the file to uncompressed or JPEG baseline");
+  return decodeJPEG(encapsulatedFrame(dataSet, pixelData.fragments, index, numberOfFrames));
+}
+
+// Decode the index-th frame of uncompressed pixel data, applying the modality rescale and the VOI window,
+// or the frame's range of values if the file defines no window
+export function decodeNativeFrame(dataSet: DicomDataSet, index: number): RasterFrame {
+  let rows = dataSet.number(DicomTags.Rows) ?? 0, columns = dataSet.number(DicomTags.Columns) ?? 0;
+  let samplesPerPixel = dataSet.number(DicomTags.SamplesPerPixel) ?? 1;
+  let bitsAllocated = dataSet.number(DicomTags.BitsAllocated) ?? 8;
+  let bitsStored = dataSet.number(DicomTags.BitsStored) ?? bitsAllocated;
+  let signed = dataSet.number(DicomTags.PixelRepresentation) === 1;
+  let photometric = dataSet.string(DicomTags.PhotometricInterpretation) ?? "MONOCHROME2";
+  if(bitsAllocated !== 8 && bitsAllocated !== 16) throw new Error("Unsupported DICOM bits allocated " + bitsAllocated);
+
+  let pixelCount = rows * columns, bytesPerSample = bitsAllocated / 8;
+  let frameLength = pixelCount * samplesPerPixel * bytesPerSample;
+  let pixelData = dataSet.element(DicomTags.PixelData)!;
+  if((index + 1) * frameLength > pixelData.length) throw new Error("The DICOM pixel data is shorter than expected");
+
+  let bytes = dataSet.bytes(DicomTags.PixelData)!;
+  let view = new DataView(bytes.buffer, bytes.byteOffset + index * frameLength, frameLength);
+  let data = new Uint8ClampedArray(pixelCount * 4);
+
+  // Colour images are copied as they are, interleaved or planar
+  if(samplesPerPixel === 3) {
+    let planar = dataSet.number(DicomTags.PlanarConfiguration) === 1;
+    for(let i = 0; i < pixelCount; i++) {
+      for(let c = 0; c < 3; c++) data[4*i + c] = view.getUint8(planar ? c * pixelCount + i : 3*i + c);
+      data[4*i + 3] = 255;
+    }
+    return { width: columns, height: rows, data: data };
+  }
+
+  // Greyscale samples are read with their stored bits and sign, and rescaled to modality values
+  let slope = dataSet.number(DicomTags.RescaleSlope) ?? 1, intercept = dataSet.number(DicomTags.RescaleIntercept) ?? 0;
+  let mask = Math.pow(2, bitsStored) - 1, signBit = Math.pow(2, bitsStored - 1);
+  let values = new Float32Array(pixelCount);
+  for(let i = 0; i < pixelCount; i++) {
+    let sample = bitsAllocated === 8 ? view.getUint8(i) : view.getUint16(2*i, dataSet.isLittleEndian);
+    sample = sample & mask;
+    if(signed && sample >= signBit) sample -= 2 * signBit;
+    values[i] = sample * slope + intercept;
+  }
+
+  // Map the values to 8 bits with the window, as defined by the DICOM standard for linear VOI LUTs
+  let [center, width] = readWindow(dataSet, values);
+  let invert = photometric === "MONOCHROME1";
+  for(let i = 0; i < pixelCount; i++) {
+    let grey: number;
+    if(values[i] <= center - 0.5 - (width - 1) / 2) grey = 0;
+    else if(values[i] > center - 0.5 + (width - 1) / 2) grey = 255;
+    else grey = ((values[i] - (center - 0.5)) / (width - 1) + 0.5) * 255;
+    if(invert) grey = 255 - grey;
+    data[4*i] = data[4*i + 1] = data[4*i + 2] = grey;
+    data[4*i + 3] = 255;
+  }
+  return { width: columns, height: rows, data: data };
+}
+
+// Return the center and width of the first VOI window of the file or, if there is none, of the range of values
+function readWindow(dataSet: DicomDataSet, values: Float32Array): [number, number] {
+  let center = dataSet.number(DicomTags.WindowCenter), width = dataSet.number(DicomTags.WindowWidth);
+  if(center !== undefined && width !== undefined && width >= 1) return [center, width];
+
+  let min = Infinity, max = -Infinity;
+  values.forEach(value => { if(value < min) min = value; if(value > max) max = value; });
+  width = Math.max(max - min + 1, 2);
+  return [min + (width - 1) / 2 + 0.5, width];
+}
+
+// Gather the bytes of the index-th frame of encapsulated pixel data. Frames are located with the basic
+// offset table if present, else one fragment per frame is assumed if the counts match, else frames are
+// split at the fragments starting with a JPEG start of image marker
+export function encapsulatedFrame(dataSet: DicomDataSet, fragments: DicomFragment[], index: number, numberOfFrames: number): Uint8Array {
+  let table = fragments[0], dataFragments = fragments.slice(1);
+  let frames: DicomFragment[][];
+
+  if(table && table.length >= 4 * numberOfFrames) {
+    let view = new DataView(new Uint8Array(dataSet.bytes(DicomTags.PixelData)!.buffer, table.offset, table.length).slice().buffer);
+    let firstItem = dataFragments.length > 0 ? dataFragments[0].offset - 8 : 0;
+    let offsets: number[] = [];
+    for(let i = 0; i < numberOfFrames; i++) offsets.push(view.getUint32(4*i, true));
+    frames = offsets.map((start, i) => dataFragments.filter(fragment => {
+      let position = fragment.offset - 8 - firstItem;
+      return position >= start && (i === offsets.length - 1 || position < offsets[i + 1]);
+    }));
+  } else if(dataFragments.length === numberOfFrames) {
+    frames = dataFragments.map(fragment => [fragment]);
+  } else if(numberOfFrames === 1) {
+    frames = [dataFragments];
+  } else {
+    let buffer = dataSet.bytes(DicomTags.PixelData)!.buffer;
+    frames = [];
+    dataFragments.forEach(fragment => {
+      let bytes = new Uint8Array(buffer, fragment.offset, Math.min(2, fragment.length));
+      if(frames.length === 0 || (bytes[0] === 0xFF && bytes[1] === 0xD8)) frames.push([fragment]);
+      else frames[frames.length - 1].push(fragment);
+    });
+  }
+
+  if(!frames[index] || frames[index].length === 0) throw new Error("Could not locate frame " + (index + 1) + " in the DICOM pixel data");
+  let buffer = dataSet.bytes(DicomTags.PixelData)!.buffer;
+  let length = frames[index].reduce((total, fragment) => total + fragment.length, 0);
+  let bytes = new Uint8Array(length), position = 0;
+  frames[index].forEach(fragment => {
+    bytes.set(new Uint8Array(buffer, fragment.offset, fragment.length), position);
+    position += fragment.length;
+  });
+  return bytes;
+}
+
+// Decode a JPEG frame with the browser's own image decoder
+function decodeJPEG(bytes: Uint8Array): Promise<RasterFrame> {
+  return new Promise((resolve, reject) => {
+    let image = new Image();
+    let url = URL.createObjectURL(new Blob([bytes], { type: "image/jpeg" }));
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      let canvas = document.createElement("canvas");
+      canvas.width = image.width;
+      canvas.height = image.height;
+      let ctx = canvas.getContext("2d");
+      if(!ctx) return reject(new Error("Could not create a canvas to decode the DICOM frame"));
+      ctx.drawImage(image, 0, 0);
+      resolve({ width: image.width, height: image.height, data: ctx.getImageData(0, 0, image.width, image.height).data });
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not decode the JPEG compressed DICOM frame"));
+    }
+    image.src = url;
+  });
+}
+
+// Encode a raster as a PNG blob
+function rasterToPNG(raster: RasterFrame): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    let canvas = document.createElement("canvas");
+    canvas.width = raster.width;
+    canvas.height = raster.height;
+    let ctx = canvas.getContext("2d");
+    if(!ctx) return reject(new Error("Could not create a canvas to encode the DICOM frame"));
+    ctx.putImageData(new ImageData(raster.data, raster.width, raster.height), 0, 0);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode the DICOM frame as PNG")), "image/png");
+  });
+}
@@ -0,0 +1,103 @@
+import { DicomTags, isDicom, parseDicom, TransferSyntaxes } from './DicomParser';
+import { decodeFrame, decodeNativeFrame, readCalibration, readMetadata } from './DicomFrames';
+
+// Encode an explicit VR little endian element
+function element(tag: string, vr: string, value: number[]): number[] {
+  let [group, elem] = tag.split(",").map(part => parseInt(part, 16));
+  let bytes = [group & 0xFF, group >> 8, elem & 0xFF, elem >> 8, vr.charCodeAt(0), vr.charCodeAt(1)];
+  if(["OB", "OW", "SQ", "UN"].includes(vr)) bytes.push(0, 0, ...uint32(value.length));
+  else bytes.push(value.length & 0xFF, value.length >> 8);
+  return [...bytes, ...value];
+}
+
+// Encode a string value, padded to an even length
+function text(value: string): number[] {
+  let bytes = Array.from(value).map(c => c.charCodeAt(0));
+  return bytes.length % 2 === 0 ? bytes : [...bytes, 0x20];
+}
+
+function uint16(value: number): number[] { return [value & 0xFF, value >> 8] }
+function uint32(value: number): number[] { return [value & 0xFF, (value >> 8) & 0xFF, (value >> 16) & 0xFF, (value >>> 24) & 0xFF] }
+
+// Build a 2 frame, 2x2, 8 bit XA file, with a sequence of undefined length before the pixel data
+function buildFile(): ArrayBuffer {
+  let bytes = [
+    ...new Array(128).fill(0), ...text("DICM"),
+    ...element(DicomTags.TransferSyntaxUID, "UI", text(TransferSyntaxes.ExplicitLittleEndian)),
+    ...element(DicomTags.PatientID, "LO", text("0042")),
+    ...element(DicomTags.ImagerPixelSpacing, "DS", text("0.3\\0.3")),
+    ...element(DicomTags.EstimatedRadiographicMagnificationFactor, "DS", text("1.5")),
+    ...element(DicomTags.PositionerPrimaryAngle, "DS", text("-30.5")),
+    ...element(DicomTags.PositionerSecondaryAngle, "DS", text("20")),
+    // Sequence of undefined length, with one item of undefined length
+    0x08, 0x00, 0x15, 0x11, 0x53, 0x51, 0, 0, 0xFF, 0xFF, 0xFF, 0xFF,
+    0xFE, 0xFF, 0x00, 0xE0, 0xFF, 0xFF, 0xFF, 0xFF,
+    ...element("0008,1150", "UI", text("1.2.3")),
+    0xFE, 0xFF, 0x0D, 0xE0, 0, 0, 0, 0,
+    0xFE, 0xFF, 0xDD, 0xE0, 0, 0, 0, 0,
+    ...element(DicomTags.SamplesPerPixel, "US", uint16(1)),
+    ...element(DicomTags.PhotometricInterpretation, "CS", text("MONOCHROME2")),
+    ...element(DicomTags.NumberOfFrames, "IS", text("2")),
+    ...element(DicomTags.Rows, "US", uint16(2)),
+    ...element(DicomTags.Columns, "US", uint16(2)),
+    ...element(DicomTags.BitsAllocated, "US", uint16(8)),
+    ...element(DicomTags.BitsStored, "US", uint16(8)),
+    ...element(DicomTags.PixelRepresentation, "US", uint16(0)),
+    ...element(DicomTags.PixelData, "OB", [0, 10, 20, 30, 40, 40, 40, 40])
+  ];
+  return new Uint8Array(bytes).buffer;
+}
+
+// Build a 1 frame, 2x2 file of JPEG extended encapsulated pixel data with the given bits stored
+function buildJPEGExtendedFile(bitsStored: number): ArrayBuffer {
+  let bytes = [
+    ...new Array(128).fill(0), ...text("DICM"),
+    ...element(DicomTags.TransferSyntaxUID, "UI", text(TransferSyntaxes.JPEGExtended)),
+    ...element(DicomTags.Rows, "US", uint16(2)),
+    ...element(DicomTags.Columns, "US", uint16(2)),
+    ...element(DicomTags.BitsAllocated, "US", uint16(bitsStored > 8 ? 16 : 8)),
+    ...element(DicomTags.BitsStored, "US", uint16(bitsStored)),
+    // Pixel data of undefined length, with an empty basic offset table, one fragment and the sequence delimiter
+    0xE0, 0x7F, 0x10, 0x00, 0x4F, 0x42, 0, 0, 0xFF, 0xFF, 0xFF, 0xFF,
+    0xFE, 0xFF, 0x00, 0xE0, ...uint32(0),
+    0xFE, 0xFF, 0x00, 0xE0, ...uint32(4), 0xFF, 0xD8, 0xFF, 0xD9,
+    0xFE, 0xFF, 0xDD, 0xE0, ...uint32(0)
+  ];
+  return new Uint8Array(bytes).buffer;
+}
+
+test('detects the DICOM magic number', () => {
+  expect(isDicom(buildFile())).toBe(true);
+  expect(isDicom(new ArrayBuffer(200))).toBe(false);
+  expect(() => parseDicom(new ArrayBuffer(200))).toThrow();
+});
+
+test('reads the metadata of each frame', () => {
+  let dataSet = parseDicom(buildFile());
+  expect(dataSet.number(DicomTags.NumberOfFrames)).toBe(2);
+  expect(readMetadata(dataSet, 1, 2)).toEqual({ patientID: 42, primaryAngle: -30.5, secondaryAngle: 20, frameNumber: 2, fields: {} });
+});
+
+test('derives the calibration from the imager pixel spacing and magnification', () => {
+  let calibration = readCalibration(parseDicom(buildFile()));
+  expect(calibration?.source).toBe("dicom");
+  expect(calibration?.mmPerPixel).toBeCloseTo(0.2);
+});
+
+test('decodes uncompressed frames, windowed to their range of values', () => {
+  let dataSet = parseDicom(buildFile());
+  let first = decodeNativeFrame(dataSet, 0);
+  expect(first.width).toBe(2);
+  expect(first.height).toBe(2);
+  expect(Array.from(first.data.filter((value, index) => index % 4 === 0))).toEqual([0, 85, 170, 255]);
+  expect(first.data[3]).toBe(255);
+
+  let second = decodeNativeFrame(dataSet, 1);
+  expect(second.data[0]).toBe(second.data[4]);
+});
+
+test('rejects the 12 bit frames of JPEG extended, which browsers cannot decode', async () => {
+  let dataSet = parseDicom(buildJPEGExtendedFile(12));
+  expect(dataSet.element(DicomTags.PixelData)?.fragments).toHaveLength(2);
+  await expect(decodeFrame(dataSet, 0, 1)).rejects.toThrow("Unsupported DICOM transfer syntax " + TransferSyntaxes.JPEGExtended + " with 12 bits stored");
+});
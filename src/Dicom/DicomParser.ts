@@ -0,0 +1,252 @@
+// Minimal DICOM Part 10 parser, sufficient to read the tags and pixel data of X-ray angiography files
+// entirely in the browser. Sequences are skipped, since none of the tags used by the app are nested
+
+export type DicomElement = {
+  tag: string,                                                                  // Tag, of the form GGGG,EEEE
+  vr: string,                                                                   // Value representation, or "UN" if implicit and unknown
+  offset: number,                                                               // Offset of the value in the buffer
+  length: number,                                                               // Length of the value, or 0 if undefined
+  fragments?: DicomFragment[]                                                   // Fragments of encapsulated pixel data
+}
+
+export type DicomFragment = {
+  offset: number,                                                               // Offset of the fragment in the buffer
+  length: number                                                                // Length of the fragment
+}
+
+// Tags used by the app
+export const DicomTags = {
+  TransferSyntaxUID: "0002,0010",
+  PatientID: "0010,0020",
+  EstimatedRadiographicMagnificationFactor: "0018,1114",
+  ImagerPixelSpacing: "0018,1164",
+  PositionerPrimaryAngle: "0018,1510",
+  PositionerSecondaryAngle: "0018,1511",
+  InstanceNumber: "0020,0013",
+  SamplesPerPixel: "0028,0002",
+  PhotometricInterpretation: "0028,0004",
+  PlanarConfiguration: "0028,0006",
+  NumberOfFrames: "0028,0008",
+  Rows: "0028,0010",
+  Columns: "0028,0011",
+  PixelSpacing: "0028,0030",
+  BitsAllocated: "0028,0100",
+  BitsStored: "0028,0101",
+  PixelRepresentation: "0028,0103",
+  WindowCenter: "0028,1050",
+  WindowWidth: "0028,1051",
+  RescaleIntercept: "0028,1052",
+  RescaleSlope: "0028,1053",
+  PixelData: "7FE0,0010"
+}
+
+// Transfer syntaxes
+export const TransferSyntaxes = {
+  ImplicitLittleEndian: "1.2.840.10008.1.2",
+  ExplicitLittleEndian: "1.2.840.10008.1.2.1",
+  DeflatedExplicitLittleEndian: "1.2.840.10008.1.2.1.99",
+  ExplicitBigEndian: "1.2.840.10008.1.2.2",
+  JPEGBaseline: "1.2.840.10008.1.2.4.50",
+  JPEGExtended: "1.2.840.10008.1.2.4.51"
+}
+
+// Explicit VRs whose length is encoded in 4 bytes, after 2 reserved bytes
+const longVRs = ["OB", "OD", "OF", "OL", "OV", "OW", "SQ", "SV", "UC", "UN", "UR", "UT", "UV"];
+
+// VRs of the tags read as binary numbers, needed to read files with implicit VR
+const implicitVRs: {[tag: string]: string} = {
+  [DicomTags.SamplesPerPixel]: "US",
+  [DicomTags.PlanarConfiguration]: "US",
+  [DicomTags.Rows]: "US",
+  [DicomTags.Columns]: "US",
+  [DicomTags.BitsAllocated]: "US",
+  [DicomTags.BitsStored]: "US",
+  [DicomTags.PixelRepresentation]: "US",
+  [DicomTags.PixelData]: "OW"
+};
+
+const undefinedLength = 0xFFFFFFFF;
+const itemTag = "FFFE,E000";
+const itemDelimitationTag = "FFFE,E00D";
+const sequenceDelimitationTag = "FFFE,E0DD";
+
+// Parsed DICOM data set, giving access to the values of its top-level elements
+export class DicomDataSet {
+  private view: DataView;
+
+  constructor(private buffer: ArrayBuffer, private elements: Map<string, DicomElement>, private littleEndian: boolean) {
+    this.view = new DataView(buffer);
+  }
+
+  // Getters
+  public get transferSyntax(): string { return this.string(DicomTags.TransferSyntaxUID) ?? TransferSyntaxes.ImplicitLittleEndian }
+  public get isLittleEndian(): boolean { return this.littleEndian }
+
+  // Return the element with the given tag, if present
+  public element(tag: string): DicomElement | undefined {
+    return this.elements.get(tag);
+  }
+
+  // Return the raw bytes of an element's value
+  public bytes(tag: string): Uint8Array | undefined {
+    let element = this.elements.get(tag);
+    return element ? new Uint8Array(this.buffer, element.offset, element.length) : undefined;
+  }
+
+  // Return the value of a string element, without padding, or undefined if absent or empty
+  public string(tag: string): string | undefined {
+    let bytes = this.bytes(tag);
+    if(!bytes) return undefined;
+    let value = "";
+    bytes.forEach(byte => value += String.fromCharCode(byte));
+    value = value.replace(/[\0 ]+$/, "").replace(/^ +/, "");
+    return value.length !== 0 ? value : undefined;
+  }
+
+  // Return the values of a multi-valued string element
+  public strings(tag: string): string[] {
+    let value = this.string(tag);
+    return value !== undefined ? value.split("\\").map(part => part.trim()) : [];
+  }
+
+  // Return the index-th value of a numeric element, reading binary VRs directly and parsing string ones,
+  // or undefined if it is absent or not a number
+  public number(tag: string, index: number = 0): number | undefined {
+    let element = this.elements.get(tag);
+    if(!element) return undefined;
+
+    let value: number;
+    switch(element.vr) {
+      case "US": value = this.readBinary(element, index, 2, offset => this.view.getUint16(offset, this.littleEndian)); break;
+      case "SS": value = this.readBinary(element, index, 2, offset => this.view.getInt16(offset, this.littleEndian)); break;
+      case "UL": value = this.readBinary(element, index, 4, offset => this.view.getUint32(offset, this.littleEndian)); break;
+      case "SL": value = this.readBinary(element, index, 4, offset => this.view.getInt32(offset, this.littleEndian)); break;
+      case "FL": value = this.readBinary(element, index, 4, offset => this.view.getFloat32(offset, this.littleEndian)); break;
+      case "FD": value = this.readBinary(element, index, 8, offset => this.view.getFloat64(offset, this.littleEndian)); break;
+      default: value = parseFloat(this.strings(tag)[index]);
+    }
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  // Read the index-th binary value of an element, or NaN if the element is too short
+  private readBinary(element: DicomElement, index: number, size: number, read: (offset: number) => number): number {
+    return (index + 1) * size <= element.length ? read(element.offset + index * size) : NaN;
+  }
+}
+
+// Test whether a buffer holds a DICOM Part 10 file, which has the "DICM" magic after a 128 byte preamble
+export function isDicom(buffer: ArrayBuffer): boolean {
+  if(buffer.byteLength < 132) return false;
+  let magic = new Uint8Array(buffer, 128, 4);
+  return String.fromCharCode(magic[0], magic[1], magic[2], magic[3]) === "DICM";
+}
+
+// Parse a DICOM Part 10 file, throwing an error if it is not one or uses an unsupported encoding
+export function parseDicom(buffer: ArrayBuffer): DicomDataSet {
+  if(!isDicom(buffer)) throw new Error("The file is not a DICOM file");
+  let view = new DataView(buffer);
+  let elements = new Map<string, DicomElement>();
+
+  // The file meta information group is always encoded in explicit VR little endian
+  let offset = 132;
+  while(offset + 8 <= buffer.byteLength && view.getUint16(offset, true) === 0x0002) {
+    let [element, next] = readElement(view, offset, true, true);
+    elements.set(element.tag, element);
+    offset = next;
+  }
+
+  // Determine the encoding of the data set from the transfer syntax
+  let transferSyntax = new DicomDataSet(buffer, elements, true).transferSyntax;
+  if(transferSyntax === TransferSyntaxes.DeflatedExplicitLittleEndian)
+    throw new Error("Deflated DICOM files are not supported");
+  let explicit = transferSyntax !== TransferSyntaxes.ImplicitLittleEndian;
+  let littleEndian = transferSyntax !== TransferSyntaxes.ExplicitBigEndian;
+
+  // Read the top-level elements of the data set
+  while(offset + 8 <= buffer.byteLength) {
+    let [element, next] = readElement(view, offset, explicit, littleEndian);
+    elements.set(element.tag, element);
+    offset = next;
+  }
+
+  return new DicomDataSet(buffer, elements, littleEndian);
+}
+
+// Read the tag at the given offset
+function readTag(view: DataView, offset: number, littleEndian: boolean): string {
+  let group = view.getUint16(offset, littleEndian), element = view.getUint16(offset + 2, littleEndian);
+  return toHex(group) + "," + toHex(element);
+}
+
+// Convert a 16 bit number into a 4 digit upper case hexadecimal string
+function toHex(value: number): string {
+  return ("0000" + value.toString(16).toUpperCase()).slice(-4);
+}
+
+// Read the element at the given offset, returning it and the offset of the next element
+function readElement(view: DataView, offset: number, explicit: boolean, littleEndian: boolean): [DicomElement, number] {
+  let tag = readTag(view, offset, littleEndian);
+  let vr: string, length: number, headerLength: number;
+
+  if(explicit) {
+    vr = String.fromCharCode(view.getUint8(offset + 4), view.getUint8(offset + 5));
+    if(longVRs.includes(vr)) {
+      length = view.getUint32(offset + 8, littleEndian);
+      headerLength = 12;
+    } else {
+      length = view.getUint16(offset + 6, littleEndian);
+      headerLength = 8;
+    }
+  } else {
+    vr = implicitVRs[tag] ?? "UN";
+    length = view.getUint32(offset + 4, littleEndian);
+    headerLength = 8;
+  }
+
+  let valueOffset = offset + headerLength;
+  if(length !== undefinedLength) {
+    if(valueOffset + length > view.byteLength) throw new Error("The DICOM file is truncated at element " + tag);
+    return [{ tag: tag, vr: vr, offset: valueOffset, length: length }, valueOffset + length];
+  }
+
+  // Undefined length pixel data is encapsulated in fragments, while any other undefined length element is a sequence
+  if(tag === DicomTags.PixelData) {
+    let [fragments, next] = readFragments(view, valueOffset, littleEndian);
+    return [{ tag: tag, vr: vr, offset: valueOffset, length: 0, fragments: fragments }, next];
+  }
+  return [{ tag: tag, vr: "SQ", offset: valueOffset, length: 0 }, skipSequence(view, valueOffset, explicit, littleEndian)];
+}
+
+// Read the fragments of encapsulated pixel data, including the basic offset table as the first one,
+// returning them and the offset after the sequence delimitation item
+function readFragments(view: DataView, offset: number, littleEndian: boolean): [DicomFragment[], number] {
+  let fragments: DicomFragment[] = [];
+  while(offset + 8 <= view.byteLength) {
+    let tag = readTag(view, offset, littleEndian), length = view.getUint32(offset + 4, littleEndian);
+    offset += 8;
+    if(tag === sequenceDelimitationTag) return [fragments, offset];
+    if(tag !== itemTag) throw new Error("Malformed encapsulated pixel data");
+    fragments.push({ offset: offset, length: length });
+    offset += length;
+  }
+  throw new Error("The DICOM file is truncated in the pixel data");
+}
+
+// Skip a sequence of undefined length, returning the offset after its sequence delimitation item
+function skipSequence(view: DataView, offset: number, explicit: boolean, littleEndian: boolean): number {
+  while(offset + 8 <= view.byteLength) {
+    let tag = readTag(view, offset, littleEndian), length = view.getUint32(offset + 4, littleEndian);
+    offset += 8;
+    if(tag === sequenceDelimitationTag) return offset;
+    if(tag !== itemTag) throw new Error("Malformed DICOM sequence");
+
+    // Items of defined length are skipped at once, while the others are read until their delimitation item
+    if(length !== undefinedLength) offset += length;
+    else {
+      while(offset + 8 <= view.byteLength && readTag(view, offset, littleEndian) !== itemDelimitationTag)
+        offset = readElement(view, offset, explicit, littleEndian)[1];
+      offset += 8;
+    }
+  }
+  throw new Error("The DICOM file is truncated in a sequence");
+}
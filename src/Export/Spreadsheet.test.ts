@@ -0,0 +1,138 @@
+import { agreementSpreadsheetHeader, agreementSpreadsheetRows, auditSpreadsheetHeader, auditSpreadsheetRows, biplaneSpreadsheetHeader, biplaneSpreadsheetRows,
+  exclusionColumn, frameSpreadsheetRows, interObserverSpreadsheetHeader, interObserverSpreadsheetRows, readerLesionSpreadsheetHeader, readerLesionSpreadsheetRows, spreadsheetHeader } from './Spreadsheet';
+import { FrameAnnotation, SerializedLine } from '../Session/Session';
+import { frameAnnotation, line } from '../Session/TestFixtures';
+
+// Build a vertical line of the given length, snapped from a line drawn with another length
+function snappedLine(length: number, rawLength: number, role: SerializedLine["role"]): SerializedLine {
+  return { ...line(length, role), raw: { start: { x: 0, y: 0 }, end: { x: 0, y: rawLength } } };
+}
+
+const annotation = frameAnnotation({
+  imageName: "1_30_20_5.png", secondaryAngle: null, frameNumber: 5, fields: { vessel: "LAD" },
+  calibration: { source: "length", referencePixels: 10, referenceMillimetres: 5, frenchSize: null, mmPerPixel: 0.5 },
+  imageLines: [line(4, "proximal"), snappedLine(2, 3, "mld"), line(4, "distal"), line(6, "mld", 2)],
+  masks: [{ source: "d", name: "1_30_20_5d.png", lines: [] }]
+});
+
+test('rows hold one line per lesion and per image or mask source', () => {
+  let rows = frameSpreadsheetRows(annotation, ["vessel"]);
+  expect(rows.length).toBe(4);
+  expect(rows.every(row => row.length === spreadsheetHeader(["vessel"]).length)).toBe(true);
+  expect(rows.map(row => row.slice(5, 8))).toEqual([[1, 'Image', ''], [1, 'Mask', 'd'], [2, 'Image', ''], [2, 'Mask', 'd']]);
+  expect(rows[0].slice(0, 5)).toEqual([1, 30, NaN, 5, "LAD"]);
+});
+
+test('rows end with the quality, exclusion reasons and note of the frame, empty if not given', () => {
+  let rated: FrameAnnotation = { ...annotation, quality: "poor", exclusionReasons: ["Vessel overlap", "Foreshortening"], note: "Check LCX" };
+  let header = spreadsheetHeader(["vessel"]), column = exclusionColumn(["vessel"]);
+  expect(header.slice(column - 1, column + 2)).toEqual(['Quality', 'Exclusion Reasons', 'Note']);
+  expect(frameSpreadsheetRows(rated, ["vessel"]).map(row => row.slice(column - 1, column + 2))).toEqual(Array(4).fill(['Poor', 'Vessel overlap; Foreshortening', 'Check LCX']));
+  expect(frameSpreadsheetRows(annotation, ["vessel"])[0].slice(column - 1, column + 2)).toEqual(['', '', '']);
+});
+
+test('rows end with the dominance of the frame and the segment and vessel of their lesion', () => {
+  let labelled: FrameAnnotation = { ...annotation, dominance: "left", segments: [{ lesion: 2, segment: "13" }] };
+  expect(spreadsheetHeader([]).slice(-4)).toEqual(['Dominance', 'Segment', 'Segment Name', 'Vessel']);
+  expect(frameSpreadsheetRows(labelled, []).map(row => row.slice(-4))).toEqual([
+    ['Left dominant', '', '', ''], ['Left dominant', '', '', ''], ['Left dominant', '13', 'Distal LCx', 'LCx'], ['Left dominant', '13', 'Distal LCx', 'LCx']
+  ]);
+});
+
+test('rows hold the diameters, diameters as drawn, stenosis, QCA metrics and calibration of the lesion', () => {
+  let [image, mask, secondImage] = frameSpreadsheetRows(annotation, []);
+  expect(image.slice(7, 16)).toEqual([4, 2, 4, 2, 1, 2, 4, 3, 4]);
+  expect(image[16]).toBe(50);
+  expect(image[17]).toBeCloseTo(75);
+  expect(image.slice(18, 20)).toEqual([4, 2]);
+  expect(image[20]).toBe(50);
+  expect(image[21]).toBeCloseTo(75);
+  expect(image.slice(22, 25)).toEqual(['NaN', 'NaN', 0.5]);
+  expect(mask.slice(7, 25)).toEqual([...Array(17).fill('NaN'), 0.5]);
+  expect(secondImage.slice(7, 10)).toEqual(['NaN', 6, 'NaN']);
+});
+
+test('rows hold the lesion length between the lesion start and end lines', () => {
+  let boundary = (y: number, role: SerializedLine["role"]): SerializedLine => ({ ...line(0, role), start: { x: 0, y: y }, end: { x: 4, y: y } });
+  let [image] = frameSpreadsheetRows({ ...annotation, imageLines: [boundary(2, "lesionStart"), boundary(22, "lesionEnd")] }, []);
+  expect(image.slice(-10, -7)).toEqual([20, 10, 0.5]);
+});
+
+test('the selected metrics follow the diameters, in the given order', () => {
+  let header = spreadsheetHeader([], ["symmetryIndex", "percentOfReference"]);
+  expect(header.slice(16, 19)).toEqual(['Symmetry Index', 'Percent of Reference (%)', 'Interpolated Reference (px)']);
+  let [image] = frameSpreadsheetRows(annotation, [], ["symmetryIndex", "percentOfReference"]);
+  expect(image.length).toBe(header.length);
+  expect(image.slice(16, 18)).toEqual([1, 50]);
+});
+
+// Projection of the same lesions as the annotation, 90º apart, where the vessel is half as wide
+const orthogonal: FrameAnnotation = {
+  ...annotation, imageName: "1_-60_0_5.png", primaryAngle: -60, secondaryAngle: 0,
+  imageLines: [line(2, "proximal"), line(1, "mld"), line(2, "distal")]
+};
+
+test('biplane rows hold the single-plane stenosis of each projection next to the elliptical results', () => {
+  let rows = biplaneSpreadsheetRows({ ...annotation, secondaryAngle: 0 }, orthogonal);
+  expect(rows.length).toBe(4);
+  expect(rows.every(row => row.length === biplaneSpreadsheetHeader().length)).toBe(true);
+  let [image] = rows;
+  expect(image.slice(0, 7)).toEqual([1, "1_30_20_5.png", 30, 0, "1_-60_0_5.png", -60, 0]);
+  expect(image[7]).toBeCloseTo(90);
+  expect(image.slice(8, 11)).toEqual([1, 'Image', '']);
+  expect(image.slice(11, 13)).toEqual([50, 50]);
+  // Areas, in units of π/4 px²: proximal and distal 4·2 = 8, MLD 2·1 = 2, or with 0.5 mm/px, 2·1 and 1·0.5 mm²
+  expect(image[15]).toBeCloseTo(75);
+  expect(image[16]).toBeCloseTo(Math.PI / 8);
+  expect(image[17]).toBeCloseTo(Math.PI / 2);
+  expect(image[18]).toBe('');
+  expect(rows[2].slice(15, 19)).toEqual(['NaN', 'NaN', 'NaN', '']);
+});
+
+test('biplane rows warn about close or unknown projections', () => {
+  expect(biplaneSpreadsheetRows(annotation, orthogonal)[0][18]).toBe('Unknown projection angles');
+  let close = { ...orthogonal, primaryAngle: 10, secondaryAngle: 0 };
+  expect(biplaneSpreadsheetRows({ ...annotation, secondaryAngle: 0 }, close)[0][18]).toBe('Projections less than 30º apart');
+});
+
+test('the elliptical area stenosis of the QCA sheet uses the biplane partner', () => {
+  expect(frameSpreadsheetRows(annotation, [], ["ellipticalAreaStenosis"])[0][16]).toBe('NaN');
+  expect(frameSpreadsheetRows(annotation, [], ["ellipticalAreaStenosis"], orthogonal)[0][16]).toBeCloseTo(75);
+});
+
+test('agreement rows compare the image with each mask source on the lesions measured on both', () => {
+  let masked = { ...annotation, masks: [{ source: "d", name: "1_30_20_5d.png", lines: [line(4, "proximal"), line(3, "mld"), line(4, "distal")] }] };
+  let rows = agreementSpreadsheetRows([masked, orthogonal], ["diameterStenosis"]);
+  expect(rows.map(row => row.slice(0, 3))).toEqual([['Proximal Reference (px)', 'd', 1], ['MLD (px)', 'd', 1], ['Distal Reference (px)', 'd', 1], ['Diameter Stenosis (%)', 'd', 1]]);
+  expect(rows.every(row => row.length === agreementSpreadsheetHeader().length)).toBe(true);
+  expect(rows[1].slice(3)).toEqual([1, 'NaN', 'NaN', 'NaN', 'NaN', 1]);
+  expect(rows[3][3]).toBe(-25);
+});
+
+test('inter-observer rows compare the readers overall, and the reader lesion rows hold the spread of each lesion', () => {
+  let sets = [
+    { reader: "A", color: "", frames: [annotation, orthogonal] },
+    { reader: "B", color: "", frames: [annotation, { ...orthogonal, imageLines: [line(2, "proximal"), line(2, "mld"), line(2, "distal")] }] }
+  ];
+  let lesionRows = readerLesionSpreadsheetRows(sets);
+  expect(lesionRows.every(row => row.length === readerLesionSpreadsheetHeader(sets).length)).toBe(true);
+  expect(lesionRows.slice(0, 3).map(row => row.slice(0, 7))).toEqual([
+    ["1_30_20_5.png", 1, 'MLD (px)', 2, 2, 'A, B', 2], ["1_30_20_5.png", 2, 'MLD (px)', 6, 6, 'A, B', 6], ["1_-60_0_5.png", 1, 'MLD (px)', 1, 2, 'A, B', 1.5]
+  ]);
+  let rows = interObserverSpreadsheetRows(sets);
+  expect(rows.every(row => row.length === interObserverSpreadsheetHeader().length)).toBe(true);
+  expect(rows.map(row => row.slice(0, 3))).toEqual([['MLD (px)', 'A, B', 3], ['Diameter Stenosis (%)', 'A, B', 2]]);
+  expect(rows[0][5]).toBeCloseTo(1/3);
+});
+
+test('the audit rows hold the readers and active time of each frame, the times of its lines and its actions', () => {
+  let audited: FrameAnnotation = {
+    ...annotation, imageLines: [{ ...line(4, "proximal"), created: "2024-01-01T10:00:00Z", modified: "2024-01-01T10:01:00Z" }],
+    activeTime: 61400, auditLog: [{ time: "2024-01-01T10:00:00Z", reader: "R1", canvas: annotation.imageName, action: "Draw line" }]
+  };
+  let rows = auditSpreadsheetRows([audited]);
+  expect(rows.every(row => row.length === auditSpreadsheetHeader().length)).toBe(true);
+  expect(rows.map(row => row.slice(1, 4))).toEqual([['Frame', 'R1', 61], ['Line', '', ''], ['Action', 'R1', '']]);
+  expect(rows[1].slice(4, 9)).toEqual([annotation.imageName, 1, 'Proximal Reference', "2024-01-01T10:00:00Z", "2024-01-01T10:01:00Z"]);
+  expect(rows[2].slice(7)).toEqual(["2024-01-01T10:00:00Z", '', 'Draw line']);
+});
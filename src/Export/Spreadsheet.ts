@@ -0,0 +1,264 @@
+import AbstractLine from "../Canvas/AbstractLine";
+import { Calibration, pixelsToMillimetres } from "../Canvas/Calibration";
+import { firstLesionID, lesionIDs, lesionLines } from "../Canvas/Lesion";
+import { findLineByRole, LineRole, lineRoleLabels, lineRoles } from "../Canvas/LineRole";
+import { interpolatedAreaStenosisPercentage, interpolatedDiameterStenosisPercentage, interpolatedReferenceDiameter, lesionDiameters, 
+  lesionLength, lesionMetrics } from "../Canvas/Stenosis";
+import { agreementMeasureLabel, agreementMeasures, agreementSamples, agreementSources, agreementStatistics } from "../Metrics/Agreement";
+import { biplaneMetrics, minBiplaneSeparation, projectionSeparation } from "../Metrics/Biplane";
+import { interObserverMeasureLabels, interObserverReport, lesionSpreads } from "../Metrics/InterObserver";
+import { defaultQCAMetrics, QCAMetric, qcaMetricIsPercentage, qcaMetricLabels } from "../Metrics/QCAMetrics";
+import { FilenameSchema } from "../Metadata/FilenameSchema";
+import { ReaderSet } from "../Readers/Readers";
+import { frameQualityLabels } from "../Review/Quality";
+import { dominanceLabels, lesionSegment } from "../Segments/Segments";
+import { auditReaders } from "../Session/Audit";
+import { FrameAnnotation, MaskAnnotation, annotationToMetadata, deserializeLines } from "../Session/Session";
+
+export type SpreadsheetCell = string | number;
+
+// Header of the QCA sheet, with the extra metadata fields of the filename schema after the core ones, the selected
+// metrics after the diameters, then the quality of the frame and the coronary segment of the lesion
+export function spreadsheetHeader(extraFields: string[], metrics: QCAMetric[] = defaultQCAMetrics): string[] {
+  return [
+    'Patient ID', 'Primary Angle', 'Secondary Angle', 'Frame Number', ...extraFields.map(FilenameSchema.fieldLabel), 'Lesion', 'Type', 'Mask Source', 
+    ...lineRoles.map(role => lineRoleLabels[role] + ' (px)'), ...lineRoles.map(role => lineRoleLabels[role] + ' (mm)'), 
+    ...lineRoles.map(role => lineRoleLabels[role] + ' As Drawn (px)'), 
+    ...metrics.map(metric => qcaMetricLabels[metric] + (qcaMetricIsPercentage[metric] ? ' (%)' : '')), 
+    'Interpolated Reference (px)', 'Interpolated Reference (mm)', 'Interpolated Diameter Stenosis (%)', 
+    'Interpolated Area Stenosis (%)', 'Lesion Length (px)', 'Lesion Length (mm)', 'Calibration (mm/px)', 
+    'Quality', 'Exclusion Reasons', 'Note', 'Dominance', 'Segment', 'Segment Name', 'Vessel'
+  ];
+}
+
+// Number of metadata columns, which are merged across the rows of a frame
+export function metadataColumnCount(extraFields: string[]): number {
+  return 4 + extraFields.length;
+}
+
+// Index of the column of the diameter of a role, in pixels
+export function diameterColumn(extraFields: string[], role: LineRole): number {
+  return metadataColumnCount(extraFields) + 3 + lineRoles.indexOf(role);
+}
+
+// Index of the column of the exclusion reasons of the frame
+export function exclusionColumn(extraFields: string[], metrics: QCAMetric[] = defaultQCAMetrics): number {
+  return spreadsheetHeader(extraFields, metrics).indexOf('Exclusion Reasons');
+}
+
+// Lesions of a frame, each having one row per image or mask source, annotated on the image or any mask, or the first
+// lesion if there are none
+export function frameLesions(annotation: FrameAnnotation): number[] {
+  let allLines = [...deserializeLines(annotation.imageLines), ...annotation.masks.flatMap(mask => deserializeLines(mask.lines))];
+  return allLines.length !== 0 ? lesionIDs(allLines) : [firstLesionID];
+}
+
+// Convert the annotation of a frame into an array of the form [[lesion_1_image_info], [lesion_1_mask_1_info], ...,
+// [lesion_2_image_info], ...], with one row per lesion and per image or mask source. The annotation of its biplane
+// partner, if any, provides the orthogonal diameters of the elliptical area stenosis. The quality, exclusion reasons,
+// note and dominance of the frame are repeated on each row, and the segment of the lesion on each of its rows, so that
+// the rows can be filtered and grouped by them
+export function frameSpreadsheetRows(annotation: FrameAnnotation, extraFields: string[], metrics: QCAMetric[] = defaultQCAMetrics, 
+  partner: FrameAnnotation | null = null): SpreadsheetCell[][] {
+  let metadata = annotationToMetadata(annotation);
+  let fields = extraFields.map(field => metadata.fields[field] ?? '');
+  let metadataCells = [metadata.patientID, metadata.primaryAngle, metadata.secondaryAngle, metadata.frameNumber, ...fields];
+  let imageLines = deserializeLines(annotation.imageLines), maskLines = annotation.masks.map(mask => deserializeLines(mask.lines));
+  let calibration = annotation.calibration ?? null;
+  let quality = [annotation.quality ? frameQualityLabels[annotation.quality] : '', (annotation.exclusionReasons ?? []).join('; '), annotation.note ?? ''];
+
+  let lesions = frameLesions(annotation);
+
+  // Lines of the biplane partner on the image and each mask source, if any
+  let partnerImageLines = partner ? deserializeLines(partner.imageLines) : null;
+  let partnerMaskLines = annotation.masks.map((mask, index) => {
+    let partnerMask = partner ? findPartnerMask(partner.masks, mask, index) : undefined;
+    return partnerMask ? deserializeLines(partnerMask.lines) : null;
+  });
+
+  let dominance = annotation.dominance ? dominanceLabels[annotation.dominance] : '';
+
+  return lesions.flatMap(lesion => {
+    let segment = lesionSegment(annotation, lesion);
+    let anatomy = [dominance, segment?.id ?? '', segment?.name ?? '', segment?.vessel ?? ''];
+    return [
+      [...metadataCells, lesion, 'Image', '', ...canvasSpreadsheetData(imageLines, lesion, calibration, metrics, partnerImageLines), ...quality, ...anatomy],
+      ...annotation.masks.map((mask, index) => [...metadataCells, lesion, 'Mask', mask.source, 
+        ...canvasSpreadsheetData(maskLines[index], lesion, calibration, metrics, partnerMaskLines[index]), ...quality, ...anatomy])
+    ];
+  });
+}
+
+// Convert the lines of a lesion in a canvas into the diameters, in pixels and millimetres, the diameters as drawn, before
+// they were snapped to the vessel edges, the selected metrics, the interpolated reference diameter and stenosis, the
+// lesion length, and the calibration. Percentages are written as such, e.g., 50 for 50%
+function canvasSpreadsheetData(lines: AbstractLine[], lesion: number, calibration: Calibration | null, metrics: QCAMetric[], 
+  partnerLines: AbstractLine[] | null): SpreadsheetCell[] {
+  let diameters: SpreadsheetCell[] = [], diametersMM: SpreadsheetCell[] = [], rawDiameters: SpreadsheetCell[] = [];
+
+  // Compute the diameters of the lines of the lesion, in the order of their roles, and convert them to millimetres, if the frame is calibrated
+  let lesionLinesArray = lesionLines(lines, lesion);
+  lineRoles.forEach(role => {
+    let line = findLineByRole(lesionLinesArray, role);
+    diameters.push(line ? line.length : 'NaN');
+    diametersMM.push(line && calibration ? pixelsToMillimetres(line.length, calibration) : 'NaN');
+    rawDiameters.push(line ? line.rawLength : 'NaN');
+  });
+
+  // Compute the selected metrics, as far as the lines allow
+  let values = lesionMetrics(lines, lesion, partnerLines), selected = metrics.map(metric => values[metric] ?? 'NaN');
+
+  // Standard QCA metrics: the reference diameter interpolated at the MLD, the stenosis relative to it, and the lesion length
+  let reference = interpolatedReferenceDiameter(lines, lesion), length = lesionLength(lines, lesion);
+  let interpolatedDiameterStenosis = interpolatedDiameterStenosisPercentage(lines, lesion);
+  let interpolatedAreaStenosis = interpolatedAreaStenosisPercentage(lines, lesion);
+  let qca = [
+    reference ?? 'NaN', reference !== undefined && calibration ? pixelsToMillimetres(reference, calibration) : 'NaN',
+    interpolatedDiameterStenosis ?? 'NaN', interpolatedAreaStenosis ?? 'NaN',
+    length ?? 'NaN', length !== undefined && calibration ? pixelsToMillimetres(length, calibration) : 'NaN'
+  ];
+
+  return [...diameters, ...diametersMM, ...rawDiameters, ...selected, ...qca, calibration ? calibration.mmPerPixel : 'NaN'];
+}
+
+/****************************************** Biplane sheet ******************************************/
+// Header of the biplane sheet, with the single-plane stenosis of each projection next to the biplane results
+export function biplaneSpreadsheetHeader(): string[] {
+  return [
+    'Patient ID', 'First Image', 'First Primary Angle', 'First Secondary Angle', 'Second Image', 'Second Primary Angle', 
+    'Second Secondary Angle', 'Projection Separation (º)', 'Lesion', 'Type', 'Mask Source', 'First Diameter Stenosis (%)', 
+    'Second Diameter Stenosis (%)', 'First Area Stenosis (%)', 'Second Area Stenosis (%)', 'Elliptical Area Stenosis (%)', 
+    'MLD Area (mm²)', 'Reference Area (mm²)', 'Warning'
+  ];
+}
+
+// Convert the annotations of two frames showing the same lesions from different projections into one row per lesion and
+// per image or mask source, matching the lesions by number. The areas are only given if both frames are calibrated
+export function biplaneSpreadsheetRows(first: FrameAnnotation, second: FrameAnnotation): SpreadsheetCell[][] {
+  let separation = projectionSeparation(first, second);
+  let warning = separation === undefined ? 'Unknown projection angles' : 
+    separation < minBiplaneSeparation ? 'Projections less than ' + minBiplaneSeparation + 'º apart' : '';
+  let pairCells = [
+    first.patientID ?? NaN, first.imageName, first.primaryAngle ?? NaN, first.secondaryAngle ?? NaN, 
+    second.imageName, second.primaryAngle ?? NaN, second.secondaryAngle ?? NaN, separation ?? 'NaN'
+  ];
+
+  // Pairs of lines of the image and of each mask source present in both frames
+  let canvases: { type: string, source: string, lines: [AbstractLine[], AbstractLine[]] }[] = [
+    { type: 'Image', source: '', lines: [deserializeLines(first.imageLines), deserializeLines(second.imageLines)] }
+  ];
+  first.masks.forEach((mask, index) => {
+    let secondMask = findPartnerMask(second.masks, mask, index);
+    if(secondMask) canvases.push({ type: 'Mask', source: mask.source, lines: [deserializeLines(mask.lines), deserializeLines(secondMask.lines)] });
+  });
+
+  let allLines = canvases.flatMap(canvas => [...canvas.lines[0], ...canvas.lines[1]]);
+  let lesions = allLines.length !== 0 ? lesionIDs(allLines) : [firstLesionID];
+  return lesions.flatMap(lesion => canvases.map(canvas => 
+    [...pairCells, lesion, canvas.type, canvas.source, ...biplaneSpreadsheetData(canvas.lines, lesion, [first.calibration ?? null, second.calibration ?? null]), warning]
+  ));
+}
+
+// Convert the lines of a lesion on both projections into the single-plane diameter and area stenosis of each, the elliptical
+// area stenosis, and the elliptical areas at the MLD and references
+function biplaneSpreadsheetData(lines: [AbstractLine[], AbstractLine[]], lesion: number, calibrations: [Calibration | null, Calibration | null]): SpreadsheetCell[] {
+  let [firstMetrics, secondMetrics] = lines.map(projectionLines => lesionMetrics(projectionLines, lesion));
+  let [firstDiameters, secondDiameters] = lines.map(projectionLines => lesionDiameters(projectionLines, lesion));
+  let biplane = biplaneMetrics(firstDiameters, secondDiameters);
+
+  // Measure the areas on the diameters in millimetres, which requires both projections to be calibrated
+  let areas: SpreadsheetCell[] = ['NaN', 'NaN'];
+  if(calibrations[0] && calibrations[1]) {
+    let [first, second] = [firstDiameters, secondDiameters].map((diameters, index) => Object.fromEntries(Object.entries(diameters)
+      .map(([role, diameter]) => [role, pixelsToMillimetres(diameter as number, calibrations[index] as Calibration)])));
+    let millimetres = biplaneMetrics(first, second);
+    areas = [millimetres.mldArea ?? 'NaN', millimetres.referenceArea ?? 'NaN'];
+  }
+
+  return [
+    firstMetrics.diameterStenosis ?? 'NaN', secondMetrics.diameterStenosis ?? 'NaN', 
+    firstMetrics.circularAreaStenosis ?? 'NaN', secondMetrics.circularAreaStenosis ?? 'NaN',
+    biplane.ellipticalAreaStenosis ?? 'NaN', ...areas
+  ];
+}
+
+// Find the mask of another frame matching a mask, by source or, for masks of unknown source, by position
+function findPartnerMask(masks: MaskAnnotation[], mask: MaskAnnotation, index: number): MaskAnnotation | undefined {
+  return masks.find(other => other.source !== "" && other.source === mask.source) ?? (mask.source === "" ? masks[index] : undefined);
+}
+
+/***************************************** Agreement sheet *****************************************/
+export function agreementSpreadsheetHeader(): string[] {
+  return [
+    'Measure', 'Mask Source', 'Pairs', 'Mean Bias', 'Lower Limit of Agreement', 'Upper Limit of Agreement', 'Intraclass Correlation', 
+    'Pearson Correlation', 'Mean Absolute Error'
+  ];
+}
+
+// Agreement between the images and each mask source, with one row per diameter or selected metric and per mask source.
+// Biases and errors are in the units of the measure, and are mask minus image
+export function agreementSpreadsheetRows(annotations: FrameAnnotation[], metrics: QCAMetric[] = defaultQCAMetrics): SpreadsheetCell[][] {
+  return agreementMeasures(metrics).flatMap(measure => {
+    let samples = agreementSamples(annotations, measure);
+    return agreementSources(samples).map(source => {
+      let statistics = agreementStatistics(samples.filter(sample => sample.source === source));
+      return [
+        agreementMeasureLabel(measure), source, statistics.count, statistics.bias ?? 'NaN', statistics.lowerLimit ?? 'NaN', 
+        statistics.upperLimit ?? 'NaN', statistics.icc ?? 'NaN', statistics.pearson ?? 'NaN', statistics.meanAbsoluteError ?? 'NaN'
+      ];
+    });
+  });
+}
+
+/******************************************* Audit sheet *******************************************/
+export function auditSpreadsheetHeader(): string[] {
+  return ['Image', 'Record', 'Readers', 'Active Time (s)', 'Canvas', 'Lesion', 'Role', 'Time', 'Modified', 'Action'];
+}
+
+// Audit trail of each frame: a row with its readers and active time, a row per line with the times it was drawn and last
+// changed, and a row per action of its log, with its time and reader
+export function auditSpreadsheetRows(annotations: FrameAnnotation[]): SpreadsheetCell[][] {
+  return annotations.flatMap(annotation => {
+    let log = annotation.auditLog ?? [];
+    let canvases = [{ name: annotation.imageName, lines: annotation.imageLines }, ...annotation.masks];
+    return [
+      [annotation.imageName, 'Frame', auditReaders(log).join(', '), Math.round((annotation.activeTime ?? 0) / 1000), '', '', '', '', '', ''],
+      ...canvases.flatMap(canvas => canvas.lines.map(line => [
+        annotation.imageName, 'Line', '', '', canvas.name, line.lesion ?? firstLesionID, line.role ? lineRoleLabels[line.role] : '', 
+        line.created ?? '', line.modified ?? '', ''
+      ])),
+      ...log.map(entry => [annotation.imageName, 'Action', entry.reader, '', entry.canvas, '', '', entry.time, '', entry.action])
+    ];
+  });
+}
+
+/*************************************** Inter-observer sheets *************************************/
+export function readerLesionSpreadsheetHeader(sets: ReaderSet[]): string[] {
+  return ['Image', 'Lesion', 'Measure', ...sets.map(set => set.reader), 'Measured By', 'Mean', 'Standard Deviation', 'Coefficient of Variation (%)'];
+}
+
+// Measures of each lesion of each frame by every reader, with one row per lesion and per measure, and their spread
+// between the readers who measured the lesion
+export function readerLesionSpreadsheetRows(sets: ReaderSet[]): SpreadsheetCell[][] {
+  return lesionSpreads(sets).map(spread => [
+    spread.imageName, spread.lesion, interObserverMeasureLabels[spread.measure], ...spread.values.map(value => value ?? 'NaN'), 
+    spread.readers.join(', '), spread.mean ?? 'NaN', spread.standardDeviation ?? 'NaN', spread.coefficientOfVariation ?? 'NaN'
+  ]);
+}
+
+export function interObserverSpreadsheetHeader(): string[] {
+  return [
+    'Measure', 'Readers', 'Lesions', 'Intraclass Correlation', 'Coefficient of Variation (%)', 'Mean Bias', 
+    'Lower Limit of Agreement', 'Upper Limit of Agreement'
+  ];
+}
+
+// Variability between the readers of each measure over every frame. Comparisons of two readers have the bias of the
+// second one. The spread on each frame is in the reader lesions sheet
+export function interObserverSpreadsheetRows(sets: ReaderSet[]): SpreadsheetCell[][] {
+  return interObserverReport(sets).map(({ measure, statistics }) => [
+    interObserverMeasureLabels[measure], statistics.readers.join(', '), statistics.count, statistics.icc ?? 'NaN', 
+    statistics.coefficientOfVariation ?? 'NaN', statistics.agreement?.bias ?? 'NaN', statistics.agreement?.lowerLimit ?? 'NaN', 
+    statistics.agreement?.upperLimit ?? 'NaN'
+  ]);
+}
@@ -0,0 +1,66 @@
+import { FormulaCell, lesionSheetData, summarySheetData } from './Summary';
+import { FrameAnnotation } from '../Session/Session';
+import { frameAnnotation, line } from '../Session/TestFixtures';
+
+// Frame of the given patient and angles, whose image has a 50% stenosis on its first lesion and whose mask has the given one
+function frame(patientID: number, primaryAngle: number, maskMLD: number, secondLesion: boolean = false): FrameAnnotation {
+  return frameAnnotation({
+    imageName: patientID + "_" + primaryAngle + "_20_1.png", patientID: patientID, primaryAngle: primaryAngle,
+    imageLines: [line(4, "proximal"), line(2, "mld"), line(4, "distal"), ...(secondLesion ? [line(3, "mld", 2)] : [])],
+    masks: [{ source: "d", name: patientID + "_" + primaryAngle + "_20_1d.png", lines: [line(4, "proximal"), line(maskMLD, "mld"), line(4, "distal")] }]
+  });
+}
+
+const frames = [frame(1, 30, 3, true), frame(1, -30, 1), frame(2, 30, 2)];
+
+test('the lesion sheet computes the stenoses from the diameters of the QCA sheet, below its header', () => {
+  let [header, first, second, third] = lesionSheetData(frames, []);
+  expect(header).toEqual(['Patient ID', 'Primary Angle', 'Secondary Angle', 'Frame Number', 'Lesion', 'Segment', 'Vessel', 'Annotated Frame',
+    'Image Diameter Stenosis (%)', 'Mask d Diameter Stenosis (%)', 'Mask d Delta (%)', 'Excluded Frame']);
+  expect(first.slice(0, 5)).toEqual([1, 30, 20, 1, 1]);
+  expect(first[7]).toEqual({ t: "n", v: 1, f: 'IF(COUNT(I2:K3)>0,1,0)' });
+  expect(first[8]).toEqual({ t: "n", v: 50, f: 'IFERROR(100-QCA!I2/((QCA!H2+QCA!J2)/2)*100,"NaN")' });
+  expect((first[9] as FormulaCell).f).toBe('IFERROR(100-QCA!I3/((QCA!H3+QCA!J3)/2)*100,"NaN")');
+  expect(first[10]).toEqual({ t: "n", v: -25, f: 'IF(COUNT(I2,J2)=2,J2-I2,"NaN")' });
+  expect(first[11]).toEqual({ t: "n", v: 0, f: 'IF(QCA!AA2="",0,1)' });
+  expect(second[7]).toBe(0);
+  expect((second[8] as FormulaCell).v).toBe('NaN');
+  expect((third[8] as FormulaCell).f).toBe('IFERROR(100-QCA!I6/((QCA!H6+QCA!J6)/2)*100,"NaN")');
+});
+
+test('the patient summary groups the lesions of every frame of a patient', () => {
+  let [header, first, second] = summarySheetData(frames, [], { name: "Patient Summary", keys: ["patientID"] });
+  expect(header).toEqual(['Patient ID', 'Annotated Frames', 'Worst Image Diameter Stenosis (%)', 'Mean Image Diameter Stenosis (%)',
+    'Mean Mask d Delta (%)']);
+  expect(first[0]).toBe(1);
+  expect(first.slice(1).map(cell => (cell as FormulaCell).v)).toEqual([2, 50, 50, 0]);
+  expect(first[1]).toEqual({ t: "n", v: 2, f: 'SUM((Lesions!$A$2:$A$5=A2)*(Lesions!$L$2:$L$5=0)*Lesions!$H$2:$H$5)', F: 'B2:B2' });
+  expect((first[2] as FormulaCell).f).toBe('IF(COUNT(IF((Lesions!$A$2:$A$5=A2)*(Lesions!$L$2:$L$5=0),Lesions!$I$2:$I$5))=0,"NaN",' +
+    'MAX(IF((Lesions!$A$2:$A$5=A2)*(Lesions!$L$2:$L$5=0),Lesions!$I$2:$I$5)))');
+  expect(second.slice(0, 2).map(cell => typeof cell === "object" ? cell.v : cell)).toEqual([2, 1]);
+});
+
+test('the acquisition summary groups the lesions by patient and angles, ignoring the keys missing from the lesion sheet', () => {
+  let rows = summarySheetData(frames, [], { name: "Acquisition Summary", keys: ["patientID", "primaryAngle", "vessel"] });
+  expect(rows.length).toBe(4);
+  expect(rows[0].slice(0, 3)).toEqual(['Patient ID', 'Primary Angle', 'Annotated Frames']);
+  expect(rows.slice(1).map(row => row.slice(0, 2))).toEqual([[1, 30], [1, -30], [2, 30]]);
+  expect((rows[2][4] as FormulaCell).v).toBe(50);
+  expect((rows[2][5] as FormulaCell).v).toBe(25);
+  expect((rows[2][2] as FormulaCell).f).toBe('SUM((Lesions!$A$2:$A$5=A3)*(Lesions!$B$2:$B$5=B3)*(Lesions!$L$2:$L$5=0)*Lesions!$H$2:$H$5)');
+});
+
+test('the lesions of excluded frames are left out of the summaries', () => {
+  let excluded = [frames[0], { ...frames[1], exclusionReasons: ["Foreshortening"] }, frames[2]];
+  expect((lesionSheetData(excluded, [])[3][11] as FormulaCell).v).toBe(1);
+  let [, first] = summarySheetData(excluded, [], { name: "Patient Summary", keys: ["patientID"] });
+  expect(first.slice(1).map(cell => (cell as FormulaCell).v)).toEqual([1, 50, 50, -25]);
+});
+
+test('the vessel summary groups the lesions of a patient by the vessel of their segment', () => {
+  let labelled = [{ ...frames[0], segments: [{ lesion: 1, segment: "6" }, { lesion: 2, segment: "9" }] }, { ...frames[1], segments: [{ lesion: 1, segment: "13" }] }];
+  expect(lesionSheetData(labelled, []).slice(1).map(row => row.slice(4, 7))).toEqual([[1, "6", "LAD"], [2, "9", "LAD"], [1, "13", "LCx"]]);
+  let rows = summarySheetData(labelled, [], { name: "Vessel Summary", keys: ["patientID", "segmentVessel"] });
+  expect(rows.map(row => row.slice(0, 2))).toEqual([['Patient ID', 'Vessel'], [1, "LAD"], [1, "LCx"]]);
+  expect((rows[1][3] as FormulaCell).v).toBe(50);
+});
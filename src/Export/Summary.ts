@@ -0,0 +1,209 @@
+import * as XLSX from "xlsx";
+import { lesionDiameters } from "../Canvas/Stenosis";
+import { defaultQCAMetrics, diameterStenosis, QCAMetric } from "../Metrics/QCAMetrics";
+import { FilenameSchema } from "../Metadata/FilenameSchema";
+import { isFrameExcluded } from "../Review/Quality";
+import { lesionSegment } from "../Segments/Segments";
+import { annotationToMetadata, deserializeLines, FrameAnnotation, maskSourceKey } from "../Session/Session";
+import { diameterColumn, exclusionColumn, frameLesions, SpreadsheetCell } from "./Spreadsheet";
+
+// Cell computed by an Excel formula, with the value it had when exported, shown until the spreadsheet recomputes it.
+// Array formulas give the range they span
+export type FormulaCell = { t: "n" | "s", v: SpreadsheetCell, f: string, F?: string };
+export type SummaryCell = SpreadsheetCell | FormulaCell;
+
+// Key the summaries can be grouped by: a core metadata field, the lesion and its segment and vessel, or an extra field of
+// the filename schema
+export type SummaryKey = string;
+
+// Sheet summarizing the lesions, with one row per combination of the values of its keys
+export type SummarySheet = {
+  name: string,                                                                 // Name of the sheet
+  keys: SummaryKey[]                                                            // Keys the lesions are grouped by
+}
+
+export const defaultSummarySheets: SummarySheet[] = [
+  { name: "Patient Summary", keys: ["patientID"] },
+  { name: "Acquisition Summary", keys: ["patientID", "primaryAngle", "secondaryAngle"] },
+  { name: "Vessel Summary", keys: ["patientID", "segmentVessel"] }
+];
+
+// Name of the sheet with one row per lesion of each frame, referencing the diameters of the QCA sheet, on which the
+// summaries are computed
+export const lesionSheetName = "Lesions";
+
+const coreKeyLabels: {[key: string]: string} = {
+  patientID: "Patient ID", primaryAngle: "Primary Angle", secondaryAngle: "Secondary Angle", frameNumber: "Frame Number", lesion: "Lesion",
+  segment: "Segment", segmentVessel: "Vessel"
+};
+
+// Keys the summaries can be grouped by, in the order of the columns of the lesion sheet
+export function summaryKeys(extraFields: string[]): SummaryKey[] {
+  return ["patientID", "primaryAngle", "secondaryAngle", "frameNumber", ...extraFields, "lesion", "segment", "segmentVessel"];
+}
+
+export function summaryKeyLabel(key: SummaryKey): string {
+  return coreKeyLabels[key] ?? FilenameSchema.fieldLabel(key);
+}
+
+// Rows of the lesion sheet: the keys of each lesion, whether its frame has any diameter stenosis, on its first lesion only,
+// the diameter stenosis of the image and of each mask source, computed from the diameters of the QCA sheet, followed
+// by its difference with the one of the image, and whether its frame is excluded, i.e., has exclusion reasons in the QCA
+// sheet, whose columns depend on the metrics exported
+export function lesionSheetData(annotations: FrameAnnotation[], extraFields: string[], metrics: QCAMetric[] = defaultQCAMetrics, 
+  rawSheet: string = "QCA"): SummaryCell[][] {
+  let rows = lesionRows(annotations, extraFields), sources = maskSources(annotations), keyCount = summaryKeys(extraFields).length;
+  let [proximal, mld, distal] = (["proximal", "mld", "distal"] as const).map(role => XLSX.utils.encode_col(diameterColumn(extraFields, role)));
+  let exclusion = XLSX.utils.encode_col(exclusionColumn(extraFields, metrics));
+  let stenosisFormula = (rawRow: number) => 'IFERROR(100-' + rawSheet + '!' + mld + rawRow + '/((' + rawSheet + '!' + proximal + rawRow +
+    '+' + rawSheet + '!' + distal + rawRow + ')/2)*100,"NaN")';
+  let header = [
+    ...summaryKeys(extraFields).map(summaryKeyLabel), 'Annotated Frame', 'Image Diameter Stenosis (%)',
+    ...sources.flatMap(source => [maskLabel(source) + ' Diameter Stenosis (%)', maskLabel(source) + ' Delta (%)']), 'Excluded Frame'
+  ];
+
+  return [header, ...rows.map((row, index) => {
+    let sheetRow = index + 2, image = XLSX.utils.encode_col(keyCount + 1) + sheetRow;
+
+    // The frame is annotated if any stenosis of its lesions, on the image or a mask, could be computed
+    let lastColumn = XLSX.utils.encode_col(keyCount + 1 + 2*sources.length);
+    let annotated: SummaryCell = row.frameRows === 0 ? 0 : formulaCell('IF(COUNT(' + image + ':' + lastColumn + (sheetRow + row.frameRows - 1) +
+      ')>0,1,0)', row.annotated);
+
+    let masks = sources.flatMap((source, sourceIndex): SummaryCell[] => {
+      let rawRow = row.maskRows[sourceIndex], mask = XLSX.utils.encode_col(keyCount + 2 + 2*sourceIndex) + sheetRow;
+      let stenosis = row.maskStenoses[sourceIndex];
+      if(rawRow === undefined) return ['NaN', 'NaN'];
+      return [
+        formulaCell(stenosisFormula(rawRow), stenosis),
+        formulaCell('IF(COUNT(' + image + ',' + mask + ')=2,' + mask + '-' + image + ',"NaN")', difference(stenosis, row.imageStenosis))
+      ];
+    });
+
+    let excluded = formulaCell('IF(' + rawSheet + '!' + exclusion + row.imageRow + '="",0,1)', row.excluded);
+    return [...row.keys, annotated, formulaCell(stenosisFormula(row.imageRow), row.imageStenosis), ...masks, excluded];
+  })];
+}
+
+// Rows of a summary sheet: the values of its keys, the number of annotated frames, the worst and mean diameter stenosis
+// of the image, and the mean difference between the stenosis of each mask source and of the image. The formulas are
+// array formulas on the columns of the lesion sheet, selecting its rows whose keys equal those of the summary row and
+// whose frames are not excluded
+export function summarySheetData(annotations: FrameAnnotation[], extraFields: string[], sheet: SummarySheet): SummaryCell[][] {
+  let rows = lesionRows(annotations, extraFields), sources = maskSources(annotations), keys = summaryKeys(extraFields);
+  let keyIndices = sheet.keys.map(key => keys.indexOf(key)).filter(index => index !== -1);
+  let range = (column: number) => {
+    let letter = XLSX.utils.encode_col(column);
+    return lesionSheetName + '!$' + letter + '$2:$' + letter + '$' + (rows.length + 1);
+  }
+  let header = [
+    ...keyIndices.map(index => summaryKeyLabel(keys[index])), 'Annotated Frames', 'Worst Image Diameter Stenosis (%)',
+    'Mean Image Diameter Stenosis (%)', ...sources.map(source => 'Mean ' + maskLabel(source) + ' Delta (%)')
+  ];
+
+  // Group the lesions by the values of the keys, in the order they first appear
+  let groups: { keys: SpreadsheetCell[], rows: LesionRow[] }[] = [];
+  rows.forEach(row => {
+    let values = keyIndices.map(index => row.keys[index]);
+    let group = groups.find(group => group.keys.every((value, index) => value === values[index]));
+    if(group) group.rows.push(row);
+    else groups.push({ keys: values, rows: [row] });
+  });
+
+  return [header, ...groups.map((group, groupIndex) => {
+    let sheetRow = groupIndex + 2, column = keyIndices.length;
+    let condition = [...keyIndices.map((keyIndex, index) => '(' + range(keyIndex) + '=' + XLSX.utils.encode_col(index) + sheetRow + ')'),
+      '(' + range(keys.length + 2 + 2*sources.length) + '=0)'].join('*');
+    let included = group.rows.filter(row => row.excluded === 0);
+    let arrayCell = (formula: string, value: number | undefined) =>
+      formulaCell(formula, value, XLSX.utils.encode_cell({ r: sheetRow - 1, c: column++ }));
+    let statistic = (lesionColumn: number, statistic: "MAX" | "AVERAGE", value: number | undefined) => {
+      let selected = 'IF(' + condition + ',' + range(lesionColumn) + ')';
+      return arrayCell('IF(COUNT(' + selected + ')=0,"NaN",' + statistic + '(' + selected + '))', value);
+    }
+
+    let imageStenoses = defined(included.map(row => row.imageStenosis));
+    return [
+      ...group.keys,
+      arrayCell('SUM(' + condition + '*' + range(keys.length) + ')', included.reduce((sum, row) => sum + row.annotated, 0)),
+      statistic(keys.length + 1, "MAX", imageStenoses.length !== 0 ? Math.max(...imageStenoses) : undefined),
+      statistic(keys.length + 1, "AVERAGE", mean(imageStenoses)),
+      ...sources.map((source, sourceIndex) => statistic(keys.length + 3 + 2*sourceIndex, "AVERAGE",
+        mean(defined(included.map(row => difference(row.maskStenoses[sourceIndex], row.imageStenosis))))))
+    ];
+  })];
+}
+
+/********************************************* Helpers *********************************************/
+// Lesion of a frame, with the rows of its image and masks in the QCA sheet, 1-based
+type LesionRow = {
+  keys: SpreadsheetCell[],                                                      // Values of the keys, unknown ones as 'NaN'
+  frameRows: number,                                                            // Number of lesions of the frame on its first lesion, 0 on the others
+  annotated: number,                                                            // On the first lesion of the frame, 1 if any of its stenoses is known
+  imageRow: number,                                                             // Row of the image
+  maskRows: (number | undefined)[],                                             // Row of each mask source, if the frame has it
+  imageStenosis: number | undefined,                                            // Diameter stenosis of the image
+  maskStenoses: (number | undefined)[],                                         // Diameter stenosis of each mask source
+  excluded: number                                                              // 1 if the frame is excluded, 0 otherwise
+}
+
+// List the lesions of the frames, following the rows the frames have in the QCA sheet, below its header
+function lesionRows(annotations: FrameAnnotation[], extraFields: string[]): LesionRow[] {
+  let sources = maskSources(annotations), rawRow = 2;
+  return annotations.flatMap(annotation => {
+    let metadata = annotationToMetadata(annotation), lesions = frameLesions(annotation);
+    let metadataCells = [metadata.patientID, metadata.primaryAngle, metadata.secondaryAngle, metadata.frameNumber, ...extraFields.map(field => metadata.fields[field] ?? '')];
+    let imageLines = deserializeLines(annotation.imageLines), maskLines = annotation.masks.map(mask => deserializeLines(mask.lines));
+    let maskIndices = sources.map(source => annotation.masks.findIndex((mask, index) => maskSourceKey(mask, index) === source));
+    let excluded = isFrameExcluded(annotation) ? 1 : 0;
+
+    let rows: LesionRow[] = lesions.map((lesion, lesionIndex) => {
+      let imageRow = rawRow + lesionIndex * (1 + annotation.masks.length), segment = lesionSegment(annotation, lesion);
+      return {
+        keys: [...metadataCells, lesion, segment?.id ?? '', segment?.vessel ?? ''].map(cell => typeof cell === "number" && Number.isNaN(cell) ? 'NaN' : cell),
+        frameRows: lesionIndex === 0 ? lesions.length : 0,
+        annotated: 0,
+        imageRow: imageRow,
+        maskRows: maskIndices.map(index => index === -1 ? undefined : imageRow + 1 + index),
+        imageStenosis: diameterStenosis(lesionDiameters(imageLines, lesion)),
+        maskStenoses: maskIndices.map(index => index === -1 ? undefined : diameterStenosis(lesionDiameters(maskLines[index], lesion))),
+        excluded: excluded
+      };
+    });
+    rows[0].annotated = rows.some(row => defined([row.imageStenosis, ...row.maskStenoses]).length !== 0) ? 1 : 0;
+    rawRow += lesions.length * (1 + annotation.masks.length);
+    return rows;
+  });
+}
+
+// Mask sources of the frames, in the order they first appear
+function maskSources(annotations: FrameAnnotation[]): string[] {
+  let sources: string[] = [];
+  annotations.forEach(annotation => annotation.masks.forEach((mask, index) => {
+    let source = maskSourceKey(mask, index);
+    if(!sources.includes(source)) sources.push(source);
+  }));
+  return sources;
+}
+
+function maskLabel(source: string): string {
+  return 'Mask ' + source;
+}
+
+function formulaCell(formula: string, value: number | undefined, arrayRange?: string): FormulaCell {
+  let cell: FormulaCell = value === undefined ? { t: "s", v: 'NaN', f: formula } : { t: "n", v: value, f: formula };
+  if(arrayRange) cell.F = arrayRange + ':' + arrayRange;
+  return cell;
+}
+
+function difference(value: number | undefined, reference: number | undefined): number | undefined {
+  return value !== undefined && reference !== undefined ? value - reference : undefined;
+}
+
+function defined(values: (number | undefined)[]): number[] {
+  return values.filter(value => value !== undefined) as number[];
+}
+
+function mean(values: number[]): number | undefined {
+  return values.length !== 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
@@ -0,0 +1,64 @@
+import React from "react";
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import MenuItem from '@mui/material/MenuItem';
+import Select, { SelectChangeEvent } from '@mui/material/Select';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableRow from '@mui/material/TableRow';
+import { defaultSummarySheets, SummaryKey, summaryKeyLabel, summaryKeys, SummarySheet } from "./Summary";
+
+type SummaryDialogProps = {
+  open: boolean,                                                                // Whether the dialog is shown
+  sheets: SummarySheet[],                                                       // Summary sheets added to the workbook
+  extraFields: string[],                                                        // Extra metadata fields of the filename schema
+  onChange: (sheets: SummarySheet[]) => void,                                   // Called when the user edits the keys of a sheet
+  onClose: () => void                                                           // Called when the user closes the dialog
+}
+
+// Dialog to choose the keys the lesions are grouped by in each summary sheet of the workbook
+export class SummaryDialog extends React.Component<SummaryDialogProps> {
+  // Build the change handler of the keys of a sheet, keeping them in the order of the columns of the lesion sheet
+  private handleKeysChange = (index: number) => (e: SelectChangeEvent<SummaryKey[]>) => {
+    let selected = e.target.value as SummaryKey[];
+    let keys = summaryKeys(this.props.extraFields).filter(key => selected.includes(key));
+    this.props.onChange(this.props.sheets.map((sheet, other) => other === index ? { ...sheet, keys: keys } : sheet));
+  }
+
+  public render(): JSX.Element {
+    let keys = summaryKeys(this.props.extraFields);
+    return (
+      <Dialog open={this.props.open} onClose={this.props.onClose}>
+        <DialogTitle>Summary Sheets</DialogTitle>
+        <DialogContent>
+          <p>Each sheet has one row per combination of the selected keys. Sheets without keys are not exported.</p>
+          <Table size="small">
+            <TableBody>
+              {this.props.sheets.map((sheet, index) =>
+                <TableRow key={sheet.name}>
+                  <TableCell>{sheet.name}</TableCell>
+                  <TableCell>
+                    <Select size="small" multiple value={sheet.keys.filter(key => keys.includes(key))} onChange={this.handleKeysChange(index)}
+                      renderValue={selected => selected.map(summaryKeyLabel).join(", ")} sx={{ minWidth: 200 }}>
+                      {keys.map(key => <MenuItem key={key} value={key}>{summaryKeyLabel(key)}</MenuItem>)}
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => this.props.onChange(defaultSummarySheets)}>Reset</Button>
+          <Button onClick={this.props.onClose}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+}
+
+export default SummaryDialog;
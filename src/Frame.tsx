@@ -3,69 +3,125 @@ import Box from '@mui/material/Box';
 import Grid from '@mui/material/Grid';
 import Slider from '@mui/material/Slider';
 import Button from '@mui/material/Button'; 
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import MenuItem from '@mui/material/MenuItem';
+import Select, { SelectChangeEvent } from '@mui/material/Select';
+import TextField from '@mui/material/TextField';
 import { IconButton } from "@mui/material";
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
 import { saveAs } from "file-saver";
 import { Canvas } from './Canvas/Canvas'
 import { PixelLine } from "./Canvas/PixelLine";
+import AbstractLine from "./Canvas/AbstractLine";
 import { FluidLine } from "./Canvas/FluidLine";
+import { firstLesionID, isAnnotationComplete, lesionIDs } from "./Canvas/Lesion";
+import { FrameAnnotation, serializeLine, deserializeLine, metadataToAnnotation, mergeAnnotation } from "./Session/Session";
+import { Calibration, CalibrationScope } from "./Canvas/Calibration";
+import { FrameMetadata } from "./Metadata/FrameMetadata";
+import { FilenameSchema } from "./Metadata/FilenameSchema";
+import { MaskPair } from "./Pairing/PairingStrategy";
+import { QCAMetric } from "./Metrics/QCAMetrics";
+import { isSeparationTooSmall, minBiplaneSeparation, Projection, projectionSeparation } from "./Metrics/Biplane";
+import { ReaderAnnotation, readerLines } from "./Readers/Readers";
+import { activeTimeAfter, AuditEntry, auditEntry } from "./Session/Audit";
+import { defaultExclusionReasons, frameQualities, FrameQuality, frameQualityLabels } from "./Review/Quality";
+import { coronarySegments, Dominance, dominanceLabels, dominances, findSegment, isSegmentAvailable, LesionSegment, segmentLabel, setLesionSegment } from "./Segments/Segments";
+import { CoronaryTree } from "./Segments/CoronaryTree";
 
 // FIXME known issues: when the brightness is changed, two image updates are triggered and a mask update is triggered, even though it wasn't supposed to,
 // slowing down the rendering
 
 export type FrameProps = {
   imageFile: File | null,                                                       // File containing the image
-  maskFile: File | null,                                                        // File containing the mask
-  name: string                                                                  // Name of the image, or mask, if the image is absent
+  imageName: string,                                                            // Name of the image, or the expected one if the image is absent
+  masks: MaskPair[],                                                            // Files and names of the masks, one per source, e.g., ground truth and predictions
+  metadata?: FrameMetadata,                                                     // Metadata of the frame, e.g., from DICOM tags, instead of the filename
+  annotation?: FrameAnnotation,                                                 // Stored annotation of the frame, restored when it is mounted
+  onChange?: (frame: Frame) => void,                                            // Called whenever the lines, filters or calibration of the frame change
+  onAcquisitionCalibrate?: (frame: Frame, calibration: Calibration | null) => void, // Called when a calibration is applied to the whole acquisition
+  metrics?: QCAMetric[],                                                        // Metrics printed for each lesion on the canvases
+  biplaneCandidates?: BiplaneCandidate[],                                       // Frames that can be linked to this one as another projection
+  onBiplaneLink?: (frame: Frame, partner: string | null) => void,               // Called when the user links the frame to another one, or unlinks it
+  readerAnnotations?: ReaderAnnotation[],                                       // Annotations of the frame by other readers, shown on the canvases
+  onConsensus?: (frame: Frame, reader: string | null) => void,                  // Called when the user adopts the lines of a reader, or their average if null
+  reader?: string,                                                              // ID of the reader annotating the frame, recorded in its audit log
+  exclusionReasonOptions?: string[],                                            // Reasons the frame can be excluded for, by default the common ones
+  onDominanceChange?: (frame: Frame, dominance: Dominance | null) => void       // Called when the user sets the coronary dominance of the patient
+}
+export type BiplaneCandidate = Projection & { imageName: string };
+type FrameMask = {
+  source: string,                                                               // Source of the mask, e.g., its suffix
+  image: HTMLImageElement | null,                                               // HTMLImageElement with the mask, or null if absent
+  name: string                                                                  // Name of the mask
 }
 type FrameState = {
   image: HTMLImageElement | null,                                               // HTMLImageElement with the image
-  mask: HTMLImageElement | null,                                                // HTMLImageElement with the mask
+  masks: FrameMask[],                                                           // Masks of the image, one per source
   imageName: string,                                                            // Name of the image
-  maskName: string,                                                             // Name of the mask
 
   // Patient/frame info
-  patientID: number,                                                            // ID of the patient
+  patientID: number | string,                                                   // ID of the patient
   primaryAngle: number,                                                         // Frame primary acquisition angle
   secondaryAngle: number,                                                       // Frame secondary acquisition angle
   frameNumber: number,                                                          // Number of the frame
+  fields: {[field: string]: string},                                            // Extra metadata fields, defined by the filename schema
 
   // Image display info
   brightness: number,                                                           // Canvas brightness
-  contrast: number                                                              // Canvas contrast
+  contrast: number,                                                             // Canvas contrast
+
+  // Calibration info
+  calibration: Calibration | null,                                              // Pixel-to-millimetre calibration, shared by the image and mask
+
+  // Biplane info
+  biplanePartner: string | null,                                                // Image name of the frame showing the same lesions from another projection, if linked
+
+  // Quality info
+  quality: FrameQuality | null,                                                 // Quality of the frame for measurement, if rated
+  exclusionReasons: string[],                                                   // Reasons the frame is excluded from the summary statistics, if any
+  note: string,                                                                 // Free-text comment on the frame
+
+  // Segment info
+  dominance: Dominance | null,                                                  // Coronary dominance of the patient, if known
+  segments: LesionSegment[],                                                    // Coronary segment of each labelled lesion
+  lesions: number[],                                                            // Lesions annotated on the canvases, or the first one if none is
+  segmentPicker: number | null                                                  // Lesion whose segment is being picked on the coronary tree, if any
 }
 
 export class Frame extends React.Component<FrameProps, FrameState> {
   // Class properties
-  private static suffix: string = 'd';                                          // Mask suffix
-  private static maskRegExp: RegExp = new RegExp('([A-Z]|[a-z])+.png$');        // Regex expression to test mask suffix and extension, of form <letter>.png
-  private static maxLines = 3;                                                  // Maximum lines to be drawn in the canvas
+  private static schema = new FilenameSchema(FilenameSchema.defaultTemplate);  // Schema used to parse the metadata from the filenames
   private static sliderTimeout = 0;                                             // Timeout before executing slider update function
 
   // Instance properties
   private imageCanvas: React.RefObject<Canvas>;                                 // Reference to the image canvas       
-  private maskCanvas: React.RefObject<Canvas>;                                  // Reference to the mask canvas
+  private maskCanvases: React.RefObject<Canvas>[];                              // References to the mask canvases, one per source
 
   private brightnessTimeoutID: NodeJS.Timeout | null = null;                    // ID for the brightness update timeout
   private contrastTimeoutID: NodeJS.Timeout | null = null;                      // ID for the contrast update timeout
 
+  private auditLog: AuditEntry[];                                               // Actions performed on the frame, oldest first
+  private activeTime: number;                                                   // Time spent actively annotating the frame, in milliseconds
+  private lastActivity: number | null = null;                                   // Time of the last interaction with the frame, in milliseconds since the epoch
+  private noteOnFocus: string = "";                                             // Note when the user started editing it
+
   constructor(props: FrameProps) {
     super(props);
 
-    // Determine the names of the image and mask
-    let imageName: string, maskName: string;
-    if(Frame.testMaskRegex(this.props.name)) {
-      imageName = Frame.maskNameToImageName(this.props.name);
-      maskName = this.props.name;
-    } else {
-      imageName = this.props.name;
-      maskName = Frame.imageNameToMaskName(this.props.name);
-    }
+    // The names of the image and masks are determined when pairing the uploaded files
+    let imageName = this.props.imageName;
+
+    // Continue the audit trail of the stored annotation, if any
+    this.auditLog = this.props.annotation?.auditLog ?? [];
+    this.activeTime = this.props.annotation?.activeTime ?? 0;
 
     // Create references to the image and mask canvases
     this.imageCanvas = React.createRef();
-    this.maskCanvas = React.createRef();
+    this.maskCanvases = this.props.masks.map(() => React.createRef());
 
     // Create an image object from the url
     let image: HTMLImageElement | null;
@@ -75,72 +131,116 @@ export class Frame extends React.Component<FrameProps, FrameState> {
       image.src = URL.createObjectURL(this.props.imageFile);
     } else image = null;
 
-    // Create a mask object from the url
-    let mask: HTMLImageElement | null;
-    if (this.props.maskFile) {
-      mask = new Image();
-      mask.id = maskName;
-      mask.src = URL.createObjectURL(this.props.maskFile);
-    } else mask = null;
-
-    // Initialize the frame state
-    let parts = imageName.split("_");
+    // Create a mask object from the url of each mask file
+    let masks: FrameMask[] = this.props.masks.map(mask => {
+      let image: HTMLImageElement | null = null;
+      if (mask.file) {
+        image = new Image();
+        image.id = mask.name;
+        image.src = URL.createObjectURL(mask.file);
+      }
+      return { source: mask.source, image: image, name: mask.name };
+    });
+
+    // Initialize the frame state, with the given metadata or, if there is none, the metadata in the filename
+    let metadata = this.props.metadata ?? Frame.schema.parse(imageName);
     this.state = {
       image: image,
-      mask: mask,
+      masks: masks,
       imageName: imageName,
-      maskName: maskName,
-      patientID: parseInt(parts[0]), 
-      primaryAngle: parseFloat(parts[1]),
-      secondaryAngle: parseFloat(parts[2]),
-      frameNumber: parseInt(parts[3]),
-      brightness: Canvas.defaultBrightness,
-      contrast: Canvas.defaultContrast
+      patientID: metadata.patientID, 
+      primaryAngle: metadata.primaryAngle,
+      secondaryAngle: metadata.secondaryAngle,
+      frameNumber: metadata.frameNumber,
+      fields: metadata.fields,
+      brightness: this.props.annotation?.brightness ?? Canvas.defaultBrightness,
+      contrast: this.props.annotation?.contrast ?? Canvas.defaultContrast,
+      calibration: this.props.annotation?.calibration ?? null,
+      biplanePartner: this.props.annotation?.biplanePartner ?? null,
+      quality: this.props.annotation?.quality ?? null,
+      exclusionReasons: this.props.annotation?.exclusionReasons ?? [],
+      note: this.props.annotation?.note ?? "",
+      dominance: this.props.annotation?.dominance ?? null,
+      segments: this.props.annotation?.segments ?? [],
+      lesions: [firstLesionID],
+      segmentPicker: null
     }
   }
 
-  // Getters
-  public get imageURL(): string { return this.imageCanvas.current ? this.imageCanvas.current.getDownloadURL() : "" }
-  public get maskURL(): string { return this.maskCanvas.current ? this.maskCanvas.current.getDownloadURL() : "" }
-  public get imageName(): string { return this.state.imageName ? this.state.imageName : "image.png" }
-  public get maskName(): string { return this.state.maskName ? this.state.maskName : "mask.png" }
-  public static get maskSuffix(): string { return Frame.suffix }
-
-  // Setters
-  public static set maskSuffix(suffix: string) { Frame.suffix = suffix }
+  // Restore the lines of the stored annotation, if any, onto the canvases. The restored lines are not notified, since
+  // they are already stored, so that mounting a frame, e.g., when it scrolls into view, does not save it again
+  componentDidMount() {
+    let annotation = this.props.annotation;
+    if(!annotation) return;
+    this.imageCanvas.current?.setFilters(annotation.brightness, annotation.contrast);
+    if(annotation.imageLines.length !== 0) this.imageCanvas.current?.restoreLines(annotation.imageLines.map(deserializeLine), false);
+    annotation.masks.forEach((mask, index) => {
+      if(mask.lines.length !== 0) this.maskCanvases[index]?.current?.restoreLines(mask.lines.map(deserializeLine), false);
+    });
+    // The canvases update their lines after mounting, so the lesions are read from the stored lines
+    this.updateLesions([...annotation.imageLines, ...annotation.masks.flatMap(mask => mask.lines)].map(deserializeLine));
+  }
 
-  /*********************************** Filename derivation methods ***********************************/
-  // Converts the name of a given mask to the name of the corresponding image
-  public static maskNameToImageName(name: string): string {
-    return name.replace(Frame.suffix + '.png', '.png');
+  // Release the object URLs of the image and masks, so that their decoded data can be freed while the frame is unmounted
+  componentWillUnmount() {
+    [this.state.image, ...this.state.masks.map(mask => mask.image)].forEach(image => {
+      if(!image) return;
+      image.onload = null;
+      URL.revokeObjectURL(image.src);
+    });
   }
 
-  // Converts the name of a given image to the name of the corresponding mask
-  public static imageNameToMaskName(name: string): string {
-    return name.replace('.png', Frame.suffix + '.png');
+  componentDidUpdate(prevProps: FrameProps, prevState: FrameState) {
+    // Notify the parent of filter, calibration, biplane link, quality and segment changes. Line changes are notified by the
+    // canvases, and note changes once the user leaves the note
+    if(prevState.brightness !== this.state.brightness || prevState.contrast !== this.state.contrast || 
+      prevState.calibration !== this.state.calibration || prevState.biplanePartner !== this.state.biplanePartner ||
+      prevState.quality !== this.state.quality || prevState.exclusionReasons !== this.state.exclusionReasons || 
+      prevState.dominance !== this.state.dominance || prevState.segments !== this.state.segments) this.notifyChange();
   }
 
-  // Tests whether a filename corresponds to that of a mask or not
-  public static testMaskRegex(filename: string): boolean {
-    return Frame.maskRegExp.test(filename);
+  // Getters
+  public get imageName(): string { return this.state.imageName ? this.state.imageName : "image.png" }
+  public get maskNames(): string[] { return this.state.masks.map(mask => mask.name ? mask.name : "mask.png") }
+  public static get filenameSchema(): FilenameSchema { return Frame.schema }
+  public get calibration(): Calibration | null { return this.state.calibration }
+
+  // Setters
+  public static set filenameSchema(schema: FilenameSchema) { Frame.schema = schema }
+
+  /************************************ Filename metadata methods ************************************/
+  // Parse the metadata of the frame again with the current filename schema, unless it was given, e.g., by DICOM tags
+  public applyFilenameSchema = () => {
+    if(this.props.metadata) return;
+    let metadata = Frame.schema.parse(this.state.imageName);
+    this.setState({
+      patientID: metadata.patientID,
+      primaryAngle: metadata.primaryAngle,
+      secondaryAngle: metadata.secondaryAngle,
+      frameNumber: metadata.frameNumber,
+      fields: metadata.fields
+    });
   }
 
   /************************************ Line propagation methods *************************************/
-  // Propagate annotation lines from image to mask
+  // Propagate annotation lines from image to every mask
   public propagateLinesToMask = () => {
-    let imageCanvas = this.imageCanvas.current, maskCanvas = this.maskCanvas.current;
-    // If either canvas is not defined, the image canvas does not have enough lines, or the mask canvas has lines already, return
-    if(!imageCanvas || !maskCanvas || imageCanvas.lines.length !== Frame.maxLines || maskCanvas.lines.length !== 0) return;
+    this.maskCanvases.forEach(maskCanvas => { if(maskCanvas.current) this.propagateLinesToMaskCanvas(maskCanvas.current) });
+  }
+
+  // Propagate annotation lines from image to the given mask canvas
+  private propagateLinesToMaskCanvas = (maskCanvas: Canvas) => {
+    let imageCanvas = this.imageCanvas.current;
+    // If the image canvas is not defined or some of its lesions lack lines, or the mask canvas has lines already, return
+    if(!imageCanvas || !isAnnotationComplete(imageCanvas.lines) || maskCanvas.lines.length !== 0) return;
     let rows = maskCanvas.height
 
     // If the mask data is null or undefined, return. Else, assign it and continue
     if(!maskCanvas.getOriginalImageData()) return;
     else var mask = maskCanvas.getOriginalImageData() as Uint8ClampedArray;
-    
-    // Undo all the transformations applied to the mask, including zoom and pan, before drawing the lines
-    maskCanvas.undoAll();
 
-    // Iterate over all the lines in the image
+    // Iterate over all the lines in the image, collecting the lines of the mask, so that they are added as a single, undoable, change
+    let pixelLines: PixelLine[] = [];
     imageCanvas.lines.forEach(line => {
 
       // Compute the slope of the line
@@ -182,27 +282,42 @@ export class Frame extends React.Component<FrameProps, FrameState> {
         roundedRow = Math.round(row); roundedCol = Math.round(col);
       }      
 
-      // Add the line to the mask as a pixel line and draw it
-      this.maskCanvas.current?.addPixelLine(new PixelLine({x: maskStartX, y: maskStartY}, {x: maskEndX, y: maskEndY}));
+      // Create the line of the mask as a pixel line with the same role and lesion
+      let pixelLine = new PixelLine({x: maskStartX, y: maskStartY}, {x: maskEndX, y: maskEndY});
+      pixelLine.role = line.role;
+      pixelLine.lesion = line.lesion;
+      pixelLines.push(pixelLine);
     })
+
+    // Add the lines to the mask and draw them
+    maskCanvas.addPixelLines(pixelLines);
   }
 
-  // Propagate annotation lines from image to mask
+  // Propagate annotation lines to the image from the first mask whose lesions have all their lines
   public propagateLinesToImage = () => {
-    let imageCanvas = this.imageCanvas.current, maskCanvas = this.maskCanvas.current;
+    let index = this.maskCanvases.findIndex(maskCanvas => maskCanvas.current && isAnnotationComplete(maskCanvas.current.lines));
+    if(index !== -1) this.propagateMaskLinesToImage(index);
+  }
+
+  // Propagate annotation lines from the mask with the given index to image
+  public propagateMaskLinesToImage = (index: number) => {
+    let imageCanvas = this.imageCanvas.current, maskCanvas = this.maskCanvases[index]?.current;
 
     // If either the image or mask canvas is not defined, return
     if(!imageCanvas || !maskCanvas) return;
 
-    // Retrieve the lines in the mask canvas and check if they are enough
+    // Retrieve the lines in the mask canvas and check that every lesion has all its lines
     let lines = maskCanvas.lines;
-    if(lines.length !== Frame.maxLines) return;
-
-    // Undo all transformations to the image canvas, including scaling and lines draw
-    imageCanvas.undoAll();
-
-    // For each line in the mask, add a fluid line to the  
-    lines.forEach(line => { this.imageCanvas.current?.addFluidLine(new FluidLine(line.startPoint, line.endPoint)) });
+    if(!isAnnotationComplete(lines)) return;
+
+    // Replace the lines of the image, as a single change that can be undone, by a fluid line with the same role and lesion
+    // for each line in the mask
+    imageCanvas.replaceLines(lines.map(line => {
+      let fluidLine = new FluidLine({ ...line.startPoint }, { ...line.endPoint });
+      fluidLine.role = line.role;
+      fluidLine.lesion = line.lesion;
+      return fluidLine;
+    }));
   }
 
   /************************************** Canvas filter methods **************************************/
@@ -240,12 +355,253 @@ export class Frame extends React.Component<FrameProps, FrameState> {
     }
   }
 
+  // Record the brightness or contrast chosen once the user releases its slider, and store the entry
+  private handleFilterChangeCommitted = (filter: "brightness" | "contrast", value: number | number[]) => {
+    this.logAction(this.state.imageName, "Change " + filter + " to " + value);
+    this.notifyChange();
+  }
+
   // Reset the brightness and contrast filters to their default values
-  private resetFilters = () => {
+  public resetFilters = () => {
+    this.logAction(this.state.imageName, "Reset filters");
     this.setState({brightness: Canvas.defaultBrightness, contrast: Canvas.defaultContrast});
     this.imageCanvas.current?.setFilters(Canvas.defaultBrightness, Canvas.defaultContrast);
   }
 
+  /************************************** Image canvas shortcuts *************************************/
+  // Toggle the edit mode of the image canvas
+  public toggleEditMode = () => {
+    this.imageCanvas.current?.toggleEdit();
+  }
+
+  // Undo the last change of the lines of the image canvas
+  public undo = () => {
+    this.imageCanvas.current?.undo();
+  }
+
+  // Redo the last undone change of the lines of the image canvas
+  public redo = () => {
+    this.imageCanvas.current?.redo();
+  }
+
+  /*************************************** Calibration methods ***************************************/
+  // Set the calibration of the frame
+  public setCalibration = (calibration: Calibration | null) => {
+    this.setState({ calibration: calibration });
+  }
+
+  // Apply a calibration drawn on either canvas to the frame and, if requested, to its whole acquisition
+  private handleCalibrate = (calibration: Calibration | null, scope: CalibrationScope) => {
+    this.logAction("", calibration ? "Apply calibration to the " + scope : "Clear calibration of the " + scope);
+    this.setCalibration(calibration);
+    if(scope === "acquisition") this.props.onAcquisitionCalibrate?.(this, calibration);
+  }
+
+  /***************************************** Biplane methods *****************************************/
+  // Link the frame to the frame showing the same lesions from another projection, or unlink it
+  public setBiplanePartner = (partner: string | null) => {
+    this.setState({ biplanePartner: partner });
+  }
+
+  // Ask the parent to link the selected frame, which also links it back, or to unlink both
+  private handleBiplanePartnerChange = (e: SelectChangeEvent) => {
+    this.props.onBiplaneLink?.(this, e.target.value === "" ? null : e.target.value);
+  }
+
+  // Render the selection of the biplane partner among the candidates, warning if the projections are too close
+  private renderBiplaneLink = (): JSX.Element | null => {
+    let candidates = this.props.biplaneCandidates ?? [];
+    if(candidates.length === 0 && this.state.biplanePartner === null) return null;
+    let partner = candidates.find(candidate => candidate.imageName === this.state.biplanePartner);
+    let separation = partner ? projectionSeparation(this.state, partner) : undefined;
+    return (
+      <div>
+        <Select size="small" value={this.state.biplanePartner ?? ""} onChange={this.handleBiplanePartnerChange} displayEmpty>
+          <MenuItem value="">No biplane pair</MenuItem>
+          {// Keep the current partner selectable even if it is no longer a candidate, e.g., after changing the filename schema
+            this.state.biplanePartner !== null && !partner && <MenuItem value={this.state.biplanePartner}>Biplane: {this.state.biplanePartner}</MenuItem>
+          }
+          {candidates.map(candidate => 
+            <MenuItem key={candidate.imageName} value={candidate.imageName}>
+              Biplane: {candidate.imageName} ({candidate.primaryAngle}º, {candidate.secondaryAngle}º)
+            </MenuItem>
+          )}
+        </Select>
+        {// Warn if the projections are too close, or their angles unknown
+          partner && isSeparationTooSmall(this.state, partner) &&
+            <p style={{ color: "orange" }}>
+              {separation !== undefined ? 
+                "The projections are only " + Math.round(separation) + "º apart, less than " + minBiplaneSeparation + "º" :
+                "The angle between the projections is unknown"}
+            </p>
+        }
+      </div>
+    );
+  }
+
+  /***************************************** Quality methods *****************************************/
+  // Rate the quality of the frame, or clear its rating
+  private handleQualityChange = (e: SelectChangeEvent) => {
+    let quality = e.target.value === "" ? null : e.target.value as FrameQuality;
+    this.logAction("", quality ? "Rate quality as " + frameQualityLabels[quality].toLowerCase() : "Clear quality rating");
+    this.setState({ quality: quality });
+  }
+
+  // Exclude the frame for the selected reasons, or include it back if there are none
+  private handleExclusionReasonsChange = (e: SelectChangeEvent<string[]>) => {
+    let reasons = e.target.value as string[];
+    this.logAction("", reasons.length !== 0 ? "Exclude for " + reasons.join(", ") : "Include frame");
+    this.setState({ exclusionReasons: reasons });
+  }
+
+  private handleNoteChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.setState({ note: e.target.value });
+  }
+
+  // Record the edition of the note and store it once the user leaves it, rather than on every keystroke
+  private handleNoteBlur = () => {
+    if(this.state.note === this.noteOnFocus) return;
+    this.noteOnFocus = this.state.note;
+    this.logAction("", "Edit note");
+    this.notifyChange();
+  }
+
+  // Render the quality rating, exclusion reasons and note of the frame
+  private renderQuality = (): JSX.Element => {
+    let options = this.props.exclusionReasonOptions ?? defaultExclusionReasons;
+    // Keep the reasons of the frame selectable even if they are no longer offered, e.g., after the user changed them
+    let reasons = [...options, ...this.state.exclusionReasons.filter(reason => !options.includes(reason))];
+    return (
+      <div>
+        <Select size="small" value={this.state.quality ?? ""} onChange={this.handleQualityChange} displayEmpty>
+          <MenuItem value="">Quality not rated</MenuItem>
+          {frameQualities.map(quality => <MenuItem key={quality} value={quality}>Quality: {frameQualityLabels[quality]}</MenuItem>)}
+        </Select>
+        <Select size="small" multiple value={this.state.exclusionReasons} onChange={this.handleExclusionReasonsChange} displayEmpty
+          renderValue={selected => selected.length === 0 ? "Not excluded" : "Excluded: " + selected.join(", ")}
+          sx={{ color: this.state.exclusionReasons.length !== 0 ? "red" : undefined, maxWidth: 300 }}>
+          {reasons.map(reason => <MenuItem key={reason} value={reason}>{reason}</MenuItem>)}
+        </Select>
+        <div>
+          <TextField size="small" multiline maxRows={4} label="Note" value={this.state.note} onChange={this.handleNoteChange}
+            onFocus={() => this.noteOnFocus = this.state.note} onBlur={this.handleNoteBlur}/>
+        </div>
+      </div>
+    );
+  }
+
+  /***************************************** Segment methods *****************************************/
+  // Set the coronary dominance of the patient, e.g., when it is set on another frame of the patient
+  public setDominance = (dominance: Dominance | null) => {
+    this.setState({ dominance: dominance });
+  }
+
+  // Set the coronary dominance and ask the parent to apply it to the other frames of the patient
+  private handleDominanceChange = (e: SelectChangeEvent) => {
+    let dominance = e.target.value === "" ? null : e.target.value as Dominance;
+    this.logAction("", dominance ? "Set dominance to " + dominanceLabels[dominance].toLowerCase() : "Clear dominance");
+    this.setDominance(dominance);
+    this.props.onDominanceChange?.(this, dominance);
+  }
+
+  // Label a lesion with a coronary segment, or remove its label
+  private setLesionSegment = (lesion: number, segment: string | null) => {
+    this.logAction("", segment !== null ? "Label lesion " + lesion + " as segment " + segment : "Clear segment of lesion " + lesion);
+    this.setState({ segments: setLesionSegment(this.state.segments, lesion, segment) });
+  }
+
+  // Keep the lesions offered for labelling in line with the lesions annotated on the canvases, or the given lines
+  private updateLesions = (lines?: AbstractLine[]) => {
+    let lesions = lesionIDs(lines ?? [this.imageCanvas, ...this.maskCanvases].flatMap(canvas => canvas.current?.lines ?? []));
+    if(lesions.length === 0) lesions = [firstLesionID];
+    if(lesions.join() !== this.state.lesions.join()) this.setState({ lesions: lesions });
+  }
+
+  private handleLinesChange = () => {
+    this.updateLesions();
+    this.notifyChange();
+  }
+
+  // Render the dominance of the patient, the segment of each lesion and the coronary tree to pick them on
+  private renderSegments = (): JSX.Element => {
+    // Lesions that are no longer annotated keep their labels, so that they are not lost while the lines are redrawn
+    let lesions = Array.from(new Set([...this.state.lesions, ...this.state.segments.map(({ lesion }) => lesion)])).sort((a, b) => a - b);
+    let picked = this.state.segments.find(({ lesion }) => lesion === this.state.segmentPicker);
+    return (
+      <div>
+        <Select size="small" value={this.state.dominance ?? ""} onChange={this.handleDominanceChange} displayEmpty>
+          <MenuItem value="">Dominance unknown</MenuItem>
+          {dominances.map(dominance => <MenuItem key={dominance} value={dominance}>{dominanceLabels[dominance]}</MenuItem>)}
+        </Select>
+        {lesions.map(lesion => {
+          let segment = this.state.segments.find(labelled => labelled.lesion === lesion)?.segment ?? "";
+          // Keep the segment of the lesion selectable even if it does not exist in the dominance set afterwards
+          let options = coronarySegments.filter(option => option.id === segment || isSegmentAvailable(option, this.state.dominance));
+          return (
+            <div key={lesion}>
+              <Select size="small" value={findSegment(segment) ? segment : ""} displayEmpty sx={{ maxWidth: 250 }}
+                onChange={e => this.setLesionSegment(lesion, e.target.value === "" ? null : e.target.value)}>
+                <MenuItem value="">Lesion {lesion}: no segment</MenuItem>
+                {options.map(option => <MenuItem key={option.id} value={option.id}>Lesion {lesion}: {segmentLabel(option)}</MenuItem>)}
+              </Select>
+              <Button size="small" onClick={() => this.setState({ segmentPicker: lesion })}>Tree</Button>
+            </div>
+          );
+        })}
+        <Dialog open={this.state.segmentPicker !== null} onClose={() => this.setState({ segmentPicker: null })}>
+          <DialogTitle>Segment of lesion {this.state.segmentPicker}</DialogTitle>
+          <DialogContent>
+            <CoronaryTree selected={picked?.segment ?? null} dominance={this.state.dominance} onSelect={segment => {
+              if(this.state.segmentPicker !== null) this.setLesionSegment(this.state.segmentPicker, segment);
+              this.setState({ segmentPicker: null });
+            }}/>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => this.setState({ segmentPicker: null })}>Cancel</Button>
+          </DialogActions>
+        </Dialog>
+      </div>
+    );
+  }
+
+  /***************************************** Reader methods ******************************************/
+  // Ask the parent to replace the lines of the frame with those of the selected reader, or with the average of the readers
+  private handleConsensusChange = (e: SelectChangeEvent) => {
+    let annotations = this.props.readerAnnotations ?? [];
+    this.props.onConsensus?.(this, e.target.value === "average" ? null : annotations[Number(e.target.value)].reader);
+  }
+
+  // Render the readers who annotated the frame, in the colors of their lines, and the selection of the consensus lines
+  private renderReaders = (): JSX.Element | null => {
+    let annotations = this.props.readerAnnotations ?? [];
+    if(annotations.length === 0) return null;
+    return (
+      <div>
+        <p>Readers: {annotations.map(({ reader, color }, index) => <span key={reader} style={{ color: color }}>{index > 0 && ", "}{reader}</span>)}</p>
+        <Select size="small" value="" onChange={this.handleConsensusChange} displayEmpty>
+          <MenuItem value="" disabled>Consensus lines</MenuItem>
+          {annotations.map(({ reader }, index) => <MenuItem key={reader} value={String(index)}>Adopt the lines of {reader}</MenuItem>)}
+          <MenuItem value="average">Average the lines of the readers</MenuItem>
+        </Select>
+      </div>
+    );
+  }
+
+  /*************************************** Audit trail methods ***************************************/
+  // Record an action performed by the reader on the canvas of the image or mask with the given name, or on the whole frame
+  private logAction = (canvas: string, action: string) => {
+    this.recordActivity();
+    this.auditLog = [...this.auditLog, auditEntry(this.props.reader ?? "", canvas, action)];
+  }
+
+  // Count the time since the last interaction with the frame as active, unless the reader was idle in between.
+  // The active time is stored along with the next change of the frame
+  private recordActivity = () => {
+    let now = Date.now();
+    this.activeTime = activeTimeAfter(this.activeTime, this.lastActivity, now);
+    this.lastActivity = now;
+  }
+
   /**************************************** Download methods *****************************************/
   // Download the annotated image png
   public downloadImage() {
@@ -253,65 +609,91 @@ export class Frame extends React.Component<FrameProps, FrameState> {
     if(imageURL) saveAs(imageURL, this.state.imageName.replace('.png', '_qca.png'));
   }
 
-  // Download the annotated mask png
-  public downloadMask() {
-    let maskURL = this.maskCanvas.current?.getDownloadURL();
-    if(maskURL) saveAs(maskURL, this.state.maskName.replace('.png', '_qca.png'));
+  // Download the annotated mask pngs
+  public downloadMasks() {
+    this.maskCanvases.forEach((maskCanvas, index) => {
+      let maskURL = maskCanvas.current?.getDownloadURL();
+      if(maskURL) saveAs(maskURL, this.state.masks[index].name.replace('.png', '_qca.png'));
+    });
   }
 
   // Download the annotated image and mask pngs
   public downloadImageAndMask() {
     this.downloadImage();
-    this.downloadMask();
-  }
-
-  // Convert the information associated to the frame into an array of the form [[image_info], [mask_info]]
-  public getSpreadsheetRow = (): (string | number)[][] => {
-    let image = this.imageCanvas.current, mask = this.maskCanvas.current;
-    let imageDiameters: (number | string)[] = [], maskDiameters: (number | string)[] = [];
-    let imageDiameterStenosis, imageAreaStenosis, maskDiameterStenosis, maskAreaStenosis;
-
-    // Compute the diameters of the lines in the image and mask
-    if(image) image.lines.forEach(line => imageDiameters.push(line.length));
-    if(mask) mask.lines.forEach(line => maskDiameters.push(line.length));
-
-    // If there are enough lines, determine the diameter and area stenosis in the image
-    if(imageDiameters.length === Frame.maxLines) {
-      imageDiameterStenosis = (image?.computeDiameterStenosisPercentage() as number)/100;
-      imageAreaStenosis = (image?.computeAreaStenosisPercentage() as number)/100;
-    } else {
-      imageDiameterStenosis = "NaN";
-      imageAreaStenosis = "NaN";
-      while(imageDiameters.length < Frame.maxLines) imageDiameters.push('NaN');
-    }
+    this.downloadMasks();
+  }
 
-    // If there are enough lines, determine the diameter and area stenosis in the mask
-    if(maskDiameters.length === Frame.maxLines) {
-      maskDiameterStenosis = (mask?.computeDiameterStenosisPercentage() as number)/100;
-      maskAreaStenosis = (mask?.computeAreaStenosisPercentage() as number)/100;
-    } else {
-      maskDiameterStenosis = "NaN";
-      maskAreaStenosis = "NaN";
-      while(maskDiameters.length < Frame.maxLines) maskDiameters.push('NaN');
-    }
+  /************************************** Session state methods **************************************/
+  // Notify the parent that the lines or filters of the frame changed
+  private notifyChange = () => {
+    this.props.onChange?.(this);
+  }
 
-    // Return the info as an array of arrays
-    let data = [
-      [this.state.patientID, this.state.primaryAngle, this.state.secondaryAngle, this.state.frameNumber, 'Image', ...imageDiameters, imageDiameterStenosis, imageAreaStenosis],
-      [this.state.patientID, this.state.primaryAngle, this.state.secondaryAngle, this.state.frameNumber, 'Mask', ...maskDiameters, maskDiameterStenosis, maskAreaStenosis]
-    ]
-    return data;
+  // Convert the annotations, filters and metadata of the frame into a serializable object
+  public getAnnotation = (): FrameAnnotation => {
+    return {
+      imageName: this.state.imageName,
+      ...metadataToAnnotation(this.state),
+      brightness: this.state.brightness,
+      contrast: this.state.contrast,
+      calibration: this.state.calibration,
+      biplanePartner: this.state.biplanePartner,
+      quality: this.state.quality,
+      exclusionReasons: this.state.exclusionReasons,
+      note: this.state.note,
+      dominance: this.state.dominance,
+      segments: this.state.segments,
+      imageLines: this.imageCanvas.current ? this.imageCanvas.current.lines.map(serializeLine) : [],
+      masks: this.state.masks.map((mask, index) => ({
+        source: mask.source,
+        name: mask.name,
+        lines: this.maskCanvases[index].current?.lines.map(serializeLine) ?? []
+      })),
+      activeTime: Math.round(this.activeTime),
+      auditLog: this.auditLog
+    };
+  }
+
+  // Restore the annotations, filters and audit trail of the frame from a previously saved object. The metadata is
+  // not restored, since it is always derived from the uploaded files
+  public restoreAnnotation = (saved: FrameAnnotation) => {
+    let annotation = mergeAnnotation(this.getAnnotation(), saved);
+    this.auditLog = annotation.auditLog ?? [];
+    this.activeTime = annotation.activeTime ?? 0;
+    this.setState({ 
+      brightness: annotation.brightness, 
+      contrast: annotation.contrast, 
+      calibration: annotation.calibration ?? null, 
+      biplanePartner: annotation.biplanePartner ?? null,
+      quality: annotation.quality ?? null,
+      exclusionReasons: annotation.exclusionReasons ?? [],
+      note: annotation.note ?? "",
+      dominance: annotation.dominance ?? null,
+      segments: annotation.segments ?? []
+    });
+    this.imageCanvas.current?.setFilters(annotation.brightness, annotation.contrast);
+    this.imageCanvas.current?.restoreLines(annotation.imageLines.map(deserializeLine));
+    annotation.masks.forEach((mask, index) => this.maskCanvases[index].current?.restoreLines(mask.lines.map(deserializeLine)));
   }
 
   /***************************************** Render method *******************************************/
   public render(): JSX.Element {
+    let maskColumns = this.state.masks.length > 1 ? Math.max(2, Math.floor(5 / this.state.masks.length)) : 3;
     return (
-      <Grid container rowSpacing={1} columnGap={0} key={this.state.imageName}>
+      <Grid container rowSpacing={1} columnGap={0} key={this.state.imageName}
+        onPointerDown={this.recordActivity} onKeyDown={this.recordActivity} onWheel={this.recordActivity}>
         <Grid item xs={3} sm={3} md={3} display="flex" flexDirection="column" textAlign="center" alignItems="center" justifyContent="center">
           <p>Patient ID: { this.state.patientID }</p>
           <p>Primary Angle: { this.state.primaryAngle }º</p>
           <p>Secondary Angle: { this.state.secondaryAngle }º</p>
           <p>Frame Number: { this.state.frameNumber }</p>
+          { // Extra metadata fields
+            Object.keys(this.state.fields).map(field => <p key={field}>{FilenameSchema.fieldLabel(field)}: { this.state.fields[field] }</p>)
+          }
+          {this.renderQuality()}
+          {this.renderSegments()}
+          {this.renderBiplaneLink()}
+          {this.renderReaders()}
           <Box sx={{ width: "60%" }}>
             Brightness
             <Slider 
@@ -322,7 +704,8 @@ export class Frame extends React.Component<FrameProps, FrameState> {
               value={this.state.brightness}                
               aria-label="Brightness" 
               valueLabelDisplay="auto" 
-              onChange={this.handleBrightnessChange}/>
+              onChange={this.handleBrightnessChange}
+              onChangeCommitted={(event, value) => this.handleFilterChangeCommitted("brightness", value)}/>
           </Box>
           <Box sx={{ width: "60%" }}>
             Contrast
@@ -334,7 +717,8 @@ export class Frame extends React.Component<FrameProps, FrameState> {
               value={this.state.contrast} 
               aria-label="Contrast" 
               valueLabelDisplay="auto" 
-              onChange={this.handleContrastChange}/>
+              onChange={this.handleContrastChange}
+              onChangeCommitted={(event, value) => this.handleFilterChangeCommitted("contrast", value)}/>
           </Box>
           <Button onClick={this.resetFilters}>Reset</Button>
         </Grid>
@@ -342,11 +726,14 @@ export class Frame extends React.Component<FrameProps, FrameState> {
         {// Image canvas
           this.state.image ?
             <Grid item classes={{ root: "item" }} xs={3} sm={3} md={3}>
-                <Canvas ref={this.imageCanvas} backgroundImage={this.state.image} maxLines={Frame.maxLines}></Canvas>
+                <Canvas ref={this.imageCanvas} backgroundImage={this.state.image} onLinesChange={this.handleLinesChange}
+                  onAction={action => this.logAction(this.state.imageName, action)}
+                  calibration={this.state.calibration} onCalibrate={this.handleCalibrate} metrics={this.props.metrics}
+                  readerLines={readerLines(this.props.readerAnnotations ?? [])}></Canvas>
             </Grid>
           :
             <Grid item classes={{ root: "item" }} xs={3} sm={3} md={3}>
-              <p>No matching image for mask {this.state.maskName}</p>
+              <p>No matching image for mask {this.state.masks.find(mask => mask.image)?.name}</p>
             </Grid>  
         }
 
@@ -358,15 +745,29 @@ export class Frame extends React.Component<FrameProps, FrameState> {
           </div>
         </Grid>
 
-        {// Mask canvas
-          this.state.mask ?
-            <Grid item classes={{ root: "item" }} xs={3} sm={3} md={3}>
-              <Canvas ref={this.maskCanvas} backgroundImage={this.state.mask} maxLines={Frame.maxLines}></Canvas>
-            </Grid>
-          :
-            <Grid item classes={{ root: "item" }} xs={3} sm={3} md={3}>
-              <p>No matching mask for image {this.state.imageName}</p>
+        {// Mask canvases, sharing the remaining columns when there are several mask sources
+          this.state.masks.map((mask, index) => 
+            <Grid item classes={{ root: "item" }} xs={maskColumns} sm={maskColumns} md={maskColumns} key={mask.source}>
+              { // Label the masks with their source, allowing to propagate their lines to the image, if there are several
+                this.state.masks.length > 1 &&
+                  <div>
+                    <IconButton color="primary" component="span" size="small" onClick={() => this.propagateMaskLinesToImage(index)}>
+                      <ArrowBackIcon fontSize="small"/>
+                    </IconButton>
+                    {mask.source}
+                  </div>
+              }
+              { 
+                mask.image ?
+                  <Canvas ref={this.maskCanvases[index]} backgroundImage={mask.image} onLinesChange={this.handleLinesChange}
+                    onAction={action => this.logAction(mask.name, action)}
+                    calibration={this.state.calibration} onCalibrate={this.handleCalibrate} centerlineTracing 
+                    metrics={this.props.metrics} readerLines={readerLines(this.props.readerAnnotations ?? [], { source: mask.source, name: mask.name, lines: [] }, index)}></Canvas>
+                :
+                  <p>No matching mask for image {this.state.imageName}</p>
+              }
             </Grid>
+          )
         }
       </Grid>
     );
@@ -0,0 +1,41 @@
+import { FilenameSchema } from './FilenameSchema';
+
+test('the default template parses the original naming scheme', () => {
+  let schema = new FilenameSchema(FilenameSchema.defaultTemplate);
+  expect(schema.parse("12_-30.5_20_7.png")).toEqual({ patientID: 12, primaryAngle: -30.5, secondaryAngle: 20, frameNumber: 7, fields: {} });
+});
+
+test('templates parse directional angles and extra fields', () => {
+  let schema = new FilenameSchema("P{patientID}-{primaryAngle}-{secondaryAngle}-f{frameNumber}-{vessel}");
+  expect(schema.extraFields).toEqual(["vessel"]);
+  expect(schema.parse("P012-RAO30-CAU20-f045-LAD.png")).toEqual(
+    { patientID: 12, primaryAngle: -30, secondaryAngle: -20, frameNumber: 45, fields: { vessel: "LAD" } }
+  );
+});
+
+test('regular expressions use named groups', () => {
+  let schema = new FilenameSchema("^(?<patientID>[A-Z]+\\d+)_(?<studyDate>\\d{8})_run(?<runNumber>\\d+)", "regex");
+  let metadata = schema.parse("ABC7_20210301_run2.png");
+  expect(metadata.patientID).toBe("ABC7");
+  expect(metadata.primaryAngle).toBeNaN();
+  expect(metadata.fields).toEqual({ studyDate: "20210301", runNumber: "2" });
+});
+
+test('unmatched filenames leave the fields empty', () => {
+  let metadata = new FilenameSchema("P{patientID}-{frameNumber}").parse("other.png");
+  expect(metadata.patientID).toBeNaN();
+  expect(metadata.frameNumber).toBeNaN();
+});
+
+test('invalid patterns are rejected', () => {
+  expect(() => new FilenameSchema("{patient id}")).toThrow();
+  expect(() => new FilenameSchema("(?<patientID>", "regex")).toThrow();
+  expect(() => new FilenameSchema("no fields")).toThrow();
+  expect(FilenameSchema.fieldLabel("studyDate")).toBe("Study Date");
+});
+
+test('the directories of the frame names are ignored', () => {
+  let metadata = new FilenameSchema(FilenameSchema.defaultTemplate).parse("p1/1_30_20_5.png");
+  expect(metadata.patientID).toBe(1);
+  expect(metadata.frameNumber).toBe(5);
+});
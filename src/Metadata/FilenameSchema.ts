@@ -0,0 +1,86 @@
+import { FrameMetadata } from "./FrameMetadata";
+
+// A template uses {field} placeholders, e.g., P{patientID}-{primaryAngle}-{secondaryAngle}-f{frameNumber},
+// and is matched against the whole filename without extension. A regex uses named groups, e.g.,
+// ^P(?<patientID>\d+)-, and is searched in the whole filename
+export type FilenameSchemaMode = "template" | "regex";
+
+// Parses the patient and acquisition metadata of a frame from its filename, according to a user-defined
+// template or regular expression. Fields other than the core ones are kept as text
+export class FilenameSchema {
+  public static coreFields = ["patientID", "primaryAngle", "secondaryAngle", "frameNumber"];
+  public static defaultTemplate = "{patientID}_{primaryAngle}_{secondaryAngle}_{frameNumber}";
+
+  private regExp: RegExp;                                                       // Compiled expression
+  private _fields: string[];                                                    // Names of the fields, in order of appearance
+
+  // Compile the pattern, throwing an error if it is invalid
+  constructor(public readonly pattern: string, public readonly mode: FilenameSchemaMode = "template") {
+    let source: string;
+    if(mode === "template") {
+      source = "^" + pattern.split(/(\{[^}]*\})/).map(part => {
+        if(!part.startsWith("{")) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        let field = part.slice(1, -1);
+        if(!/^[A-Za-z_]\w*$/.test(field)) throw new Error("Invalid field name \"" + field + "\"");
+        return "(?<" + field + ">.+?)";
+      }).join("") + "$";
+    } else source = pattern;
+
+    try {
+      this.regExp = new RegExp(source);
+    } catch(e) {
+      throw new Error(mode === "template" ? "Invalid template: " + (e as Error).message : "Invalid regular expression: " + (e as Error).message);
+    }
+
+    this._fields = [];
+    let groupRegExp = /\(\?<([A-Za-z_]\w*)>/g, match: RegExpExecArray | null;
+    while((match = groupRegExp.exec(source)) !== null) this._fields.push(match[1]);
+    if(this._fields.length === 0) throw new Error("The " + mode + " must define at least one field");
+  }
+
+  // Getters
+  public get fields(): string[] { return this._fields }
+  public get extraFields(): string[] { return this._fields.filter(field => !FilenameSchema.coreFields.includes(field)) }
+
+  // Parse the metadata of a filename, ignoring its directories, if any, leaving NaN in the core fields that are missing
+  // or cannot be parsed, and an empty string in the extra ones
+  public parse = (filename: string): FrameMetadata => {
+    let basename = filename.slice(filename.lastIndexOf("/") + 1);
+    let subject = this.mode === "template" ? basename.replace(/\.[^.]*$/, "") : basename;
+    let groups = this.regExp.exec(subject)?.groups ?? {};
+    let fields: {[field: string]: string} = {};
+    this.extraFields.forEach(field => fields[field] = groups[field] ?? "");
+
+    return {
+      patientID: FilenameSchema.parsePatientID(groups.patientID),
+      primaryAngle: FilenameSchema.parseAngle(groups.primaryAngle),
+      secondaryAngle: FilenameSchema.parseAngle(groups.secondaryAngle),
+      frameNumber: groups.frameNumber !== undefined ? parseInt(groups.frameNumber) : NaN,
+      fields: fields
+    };
+  }
+
+  // Patient IDs made of digits are converted to numbers, as in the original naming scheme
+  private static parsePatientID(value: string | undefined): number | string {
+    if(value === undefined) return NaN;
+    return /^\d+$/.test(value) ? parseInt(value) : value;
+  }
+
+  // Parse an angle, either as a signed number or prefixed by its direction, in which case RAO and CAU
+  // angles are negative, and LAO and CRA angles are positive
+  public static parseAngle(value: string | undefined): number {
+    if(value === undefined) return NaN;
+    let match = /^(LAO|RAO|CRA|CAU)\s*([+-]?\d+(?:\.\d+)?)$/i.exec(value.trim());
+    if(!match) return parseFloat(value);
+    let angle = parseFloat(match[2]);
+    return ["RAO", "CAU"].includes(match[1].toUpperCase()) ? -angle : angle;
+  }
+
+  // Convert a field name into a column label, e.g., studyDate into Study Date
+  public static fieldLabel(field: string): string {
+    let label = field.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/_/g, " ");
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  }
+}
+
+export default FilenameSchema;
@@ -0,0 +1,9 @@
+// Patient and acquisition metadata of a frame, either parsed from its filename or read from the tags
+// of the DICOM file it was extracted from
+export type FrameMetadata = {
+  patientID: number | string,                                                   // ID of the patient
+  primaryAngle: number,                                                         // Frame primary acquisition angle
+  secondaryAngle: number,                                                       // Frame secondary acquisition angle
+  frameNumber: number,                                                          // Number of the frame
+  fields: {[field: string]: string}                                             // Extra fields, such as the study date or vessel
+}
@@ -0,0 +1,38 @@
+import { agreementMeasures, agreementSamples, agreementStatistics } from './Agreement';
+import { frameAnnotation, line } from '../Session/TestFixtures';
+
+test('a constant bias has zero-width limits of agreement and a perfect correlation, but an imperfect absolute agreement', () => {
+  let statistics = agreementStatistics([1, 2, 3, 4].map(value => ({ image: value, mask: value + 1 })));
+  expect(statistics.count).toBe(4);
+  expect(statistics.bias).toBe(1);
+  expect(statistics.lowerLimit).toBe(1);
+  expect(statistics.upperLimit).toBe(1);
+  expect(statistics.pearson).toBeCloseTo(1);
+  expect(statistics.meanAbsoluteError).toBe(1);
+  expect(statistics.icc).toBeCloseTo(10/13);
+  expect(agreementStatistics([1, 2, 3].map(value => ({ image: value, mask: value }))).icc).toBeCloseTo(1);
+});
+
+test('the limits of agreement are 1.96 standard deviations of the differences around the bias', () => {
+  let statistics = agreementStatistics([{ image: 1, mask: 2 }, { image: 2, mask: 1 }, { image: 3, mask: 3 }]);
+  expect(statistics.bias).toBe(0);
+  expect(statistics.lowerLimit).toBeCloseTo(-1.96);
+  expect(statistics.upperLimit).toBeCloseTo(1.96);
+  expect(statistics.meanAbsoluteError).toBeCloseTo(2/3);
+  let single = agreementStatistics([{ image: 1, mask: 2 }]);
+  expect([single.bias, single.lowerLimit, single.icc, single.pearson]).toEqual([1, undefined, undefined, undefined]);
+});
+
+test('samples pair the lesions measured both on the image and on a mask', () => {
+  let annotation = frameAnnotation({
+    imageName: "1_30_20_5.png", frameNumber: 5,
+    imageLines: [line(4, "proximal"), line(2, "mld"), line(4, "distal"), line(3, "mld", 2)],
+    masks: [{ source: "d", name: "1_30_20_5d.png", lines: [line(4, "proximal"), line(3, "mld"), line(4, "distal")] }]
+  });
+  expect(agreementMeasures(["diameterStenosis", "ellipticalAreaStenosis"])).toEqual(["proximal", "mld", "distal", "diameterStenosis"]);
+  expect(agreementSamples([annotation], "mld")).toEqual([
+    { image: 2, mask: 3, imageName: "1_30_20_5.png", lesion: 1, source: "d" }
+  ]);
+  expect(agreementSamples([annotation], "diameterStenosis").map(sample => [sample.image, sample.mask])).toEqual([[50, 25]]);
+  expect(agreementSamples([{ ...annotation, exclusionReasons: ["Mask segmentation failure"] }], "mld")).toEqual([]);
+});
@@ -0,0 +1,126 @@
+import { lesionIDs } from "../Canvas/Lesion";
+import { lineRoleLabels } from "../Canvas/LineRole";
+import { lesionDiameters } from "../Canvas/Stenosis";
+import { isFrameExcluded } from "../Review/Quality";
+import { FrameAnnotation, deserializeLines, maskSourceKey } from "../Session/Session";
+import { computeQCAMetrics, QCAMetric, qcaMetricIsPercentage, qcaMetricLabels, RoleDiameters } from "./QCAMetrics";
+
+// Agreement between the measurements of the same lesions on the images and on their masks, treating the image as the
+// reference. Differences are mask minus image
+export type AgreementPair = {
+  image: number,                                                                // Measurement on the image
+  mask: number                                                                  // Measurement on the mask
+}
+
+// A pair measured on a lesion of a frame, for a mask source
+export type AgreementSample = AgreementPair & {
+  imageName: string,                                                            // Name of the image of the frame
+  lesion: number,                                                               // Lesion the pair was measured on
+  source: string                                                                // Source of the mask, or its position if unknown
+}
+
+// Statistics are undefined when there are too few pairs, or no variability, to compute them
+export type AgreementStatistics = {
+  count: number,                                                                // Number of pairs
+  bias: number | undefined,                                                     // Mean difference (Bland-Altman)
+  lowerLimit: number | undefined,                                               // Bias minus 1.96 standard deviations of the differences
+  upperLimit: number | undefined,                                               // Bias plus 1.96 standard deviations of the differences
+  icc: number | undefined,                                                      // Two-way random, absolute agreement, single measure ICC(A,1)
+  pearson: number | undefined,                                                  // Pearson correlation coefficient
+  meanAbsoluteError: number | undefined                                         // Mean absolute difference
+}
+
+// Measure compared between the images and masks: a diameter, in pixels, or a single-plane QCA metric
+export type AgreementMeasure = keyof RoleDiameters | QCAMetric;
+
+const diameterMeasures: (keyof RoleDiameters)[] = ["proximal", "mld", "distal"];
+
+// Diameters followed by the given metrics, without the elliptical area stenosis, which needs another projection
+export function agreementMeasures(metrics: QCAMetric[]): AgreementMeasure[] {
+  return [...diameterMeasures, ...metrics.filter(metric => metric !== "ellipticalAreaStenosis")];
+}
+
+export function agreementMeasureLabel(measure: AgreementMeasure): string {
+  if(diameterMeasures.includes(measure as keyof RoleDiameters)) return lineRoleLabels[measure as keyof RoleDiameters] + " (px)";
+  return qcaMetricLabels[measure as QCAMetric] + (qcaMetricIsPercentage[measure as QCAMetric] ? " (%)" : "");
+}
+
+// Pairs of a measure on every lesion of every frame measured both on its image and on a mask, leaving out the excluded frames
+export function agreementSamples(annotations: FrameAnnotation[], measure: AgreementMeasure): AgreementSample[] {
+  return annotations.filter(annotation => !isFrameExcluded(annotation)).flatMap(annotation => {
+    let imageLines = deserializeLines(annotation.imageLines);
+    return annotation.masks.flatMap((mask, index) => {
+      let maskLines = deserializeLines(mask.lines);
+      return lesionIDs([...imageLines, ...maskLines]).flatMap(lesion => {
+        let image = measureValue(lesionDiameters(imageLines, lesion), measure), value = measureValue(lesionDiameters(maskLines, lesion), measure);
+        if(image === undefined || value === undefined) return [];
+        return [{ image: image, mask: value, imageName: annotation.imageName, lesion: lesion, source: maskSourceKey(mask, index) }];
+      });
+    });
+  });
+}
+
+// Mask sources of the samples, in the order they first appear
+export function agreementSources(samples: AgreementSample[]): string[] {
+  return Array.from(new Set(samples.map(sample => sample.source)));
+}
+
+export function agreementStatistics(pairs: AgreementPair[]): AgreementStatistics {
+  let n = pairs.length, differences = pairs.map(pair => pair.mask - pair.image);
+  let bias = mean(differences), deviation = standardDeviation(differences);
+  return {
+    count: n,
+    bias: bias,
+    lowerLimit: bias !== undefined && deviation !== undefined ? bias - 1.96*deviation : undefined,
+    upperLimit: bias !== undefined && deviation !== undefined ? bias + 1.96*deviation : undefined,
+    icc: intraclassCorrelation(pairs.map(pair => [pair.image, pair.mask])),
+    pearson: pearsonCorrelation(pairs),
+    meanAbsoluteError: mean(differences.map(Math.abs))
+  };
+}
+
+// ICC(A,1) of McGraw and Wong, from the mean squares of the two-way analysis of variance of the ratings of each subject, e.g.,
+// a lesion, by each rater, e.g., the image and mask or several readers. Every subject must be rated by every rater
+export function intraclassCorrelation(ratings: number[][]): number | undefined {
+  let n = ratings.length, k = ratings[0]?.length ?? 0;
+  if(n < 2 || k < 2) return undefined;
+  let grandMean = mean(ratings.flat()) as number;
+  let rowMeans = ratings.map(row => mean(row) as number);
+  let raterMeans = ratings[0].map((_, rater) => mean(ratings.map(row => row[rater])) as number);
+  let rowsSquares = k * rowMeans.reduce((sum, rowMean) => sum + Math.pow(rowMean - grandMean, 2), 0);
+  let ratersSquares = n * raterMeans.reduce((sum, raterMean) => sum + Math.pow(raterMean - grandMean, 2), 0);
+  let errorSquares = ratings.reduce((sum, row, index) => 
+    sum + row.reduce((rowSum, value, rater) => rowSum + Math.pow(value - rowMeans[index] - raterMeans[rater] + grandMean, 2), 0), 0);
+  let rowsMeanSquare = rowsSquares / (n - 1), ratersMeanSquare = ratersSquares / (k - 1), errorMeanSquare = errorSquares / ((n - 1) * (k - 1));
+  let denominator = rowsMeanSquare + (k - 1)*errorMeanSquare + k*(ratersMeanSquare - errorMeanSquare)/n;
+  return denominator === 0 ? undefined : (rowsMeanSquare - errorMeanSquare) / denominator;
+}
+
+export function mean(values: number[]): number | undefined {
+  return values.length !== 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
+
+// Sample standard deviation
+export function standardDeviation(values: number[]): number | undefined {
+  let average = mean(values);
+  if(average === undefined || values.length < 2) return undefined;
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - (average as number), 2), 0) / (values.length - 1));
+}
+
+/********************************************* Helpers *********************************************/
+function measureValue(diameters: RoleDiameters, measure: AgreementMeasure): number | undefined {
+  if(diameterMeasures.includes(measure as keyof RoleDiameters)) return diameters[measure as keyof RoleDiameters];
+  return computeQCAMetrics(diameters)[measure as QCAMetric];
+}
+
+function pearsonCorrelation(pairs: AgreementPair[]): number | undefined {
+  if(pairs.length < 2) return undefined;
+  let imageMean = mean(pairs.map(pair => pair.image)) as number, maskMean = mean(pairs.map(pair => pair.mask)) as number;
+  let covariance = 0, imageVariance = 0, maskVariance = 0;
+  pairs.forEach(pair => {
+    covariance += (pair.image - imageMean) * (pair.mask - maskMean);
+    imageVariance += Math.pow(pair.image - imageMean, 2);
+    maskVariance += Math.pow(pair.mask - maskMean, 2);
+  });
+  return imageVariance === 0 || maskVariance === 0 ? undefined : covariance / Math.sqrt(imageVariance * maskVariance);
+}
@@ -0,0 +1,170 @@
+import React from "react";
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import MenuItem from '@mui/material/MenuItem';
+import Select, { SelectChangeEvent } from '@mui/material/Select';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import { AgreementMeasure, agreementMeasureLabel, agreementMeasures, AgreementSample, agreementSamples, agreementSources, AgreementStatistics,
+  agreementStatistics } from "./Agreement";
+import { QCAMetric } from "./QCAMetrics";
+import { FrameAnnotation } from "../Session/Session";
+
+type AgreementDialogProps = {
+  open: boolean,                                                                // Whether the dialog is shown
+  annotations: FrameAnnotation[],                                               // Annotations of every frame
+  metrics: QCAMetric[],                                                         // Metrics compared besides the diameters
+  onClose: () => void                                                           // Called when the user closes the dialog
+}
+
+type AgreementDialogState = {
+  measure: AgreementMeasure,                                                    // Measure plotted
+  source: string | null                                                         // Mask source compared with the images, or null for the first one
+}
+
+// Point of a plot, with the pair it represents
+type PlotPoint = { x: number, y: number, sample: AgreementSample };
+
+// Dialog with the agreement between the images and a mask source over every frame, as a table of statistics per measure,
+// and the Bland-Altman and correlation plots of the selected measure
+export class AgreementDialog extends React.Component<AgreementDialogProps, AgreementDialogState> {
+  private static plotSize = 260;                                                // Width and height of the plots, in pixels
+  private static padding = 28;                                                  // Margin around the plots, holding the axis labels, in pixels
+  private static pointColor = '#1976D2';                                        // Color of the pairs
+  private static biasColor = '#00A000';                                         // Color of the bias and identity lines
+  private static limitColor = '#FF00FF';                                        // Color of the limits of agreement
+
+  state: AgreementDialogState = {
+    measure: "mld",
+    source: null
+  }
+
+  private handleSourceChange = (e: SelectChangeEvent) => {
+    this.setState({ source: e.target.value });
+  }
+
+  // Round a statistic to two decimals, or show a dash if it is unknown
+  private format = (value: number | undefined): string => {
+    return value === undefined ? "—" : String(Math.round(value * 100) / 100);
+  }
+
+  // Table of the statistics of each measure, whose rows select the plotted measure
+  private renderTable = (statistics: [AgreementMeasure, AgreementStatistics][]): JSX.Element => {
+    return (
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            {["Measure", "Pairs", "Bias", "Limits of Agreement", "ICC", "Pearson r", "Mean Absolute Error"].map(label => <TableCell key={label}>{label}</TableCell>)}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {statistics.map(([measure, values]) =>
+            <TableRow key={measure} hover selected={measure === this.state.measure} style={{ cursor: "pointer" }} onClick={() => this.setState({ measure: measure })}>
+              <TableCell>{agreementMeasureLabel(measure)}</TableCell>
+              <TableCell>{values.count}</TableCell>
+              <TableCell>{this.format(values.bias)}</TableCell>
+              <TableCell>{this.format(values.lowerLimit)} to {this.format(values.upperLimit)}</TableCell>
+              <TableCell>{this.format(values.icc)}</TableCell>
+              <TableCell>{this.format(values.pearson)}</TableCell>
+              <TableCell>{this.format(values.meanAbsoluteError)}</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  // Scatter plot of points with horizontal lines, e.g., the bias and limits of agreement, and an optional identity line
+  private renderPlot = (title: string, xLabel: string, yLabel: string, points: PlotPoint[], levels: { value: number, color: string, dashed: boolean }[],
+    identity: boolean): JSX.Element => {
+    let { plotSize, padding } = AgreementDialog;
+    let xs = points.map(point => point.x), ys = [...points.map(point => point.y), ...levels.map(level => level.value)];
+    let [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    if(identity) {
+      minX = minY = Math.min(minX, minY);
+      maxX = maxY = Math.max(maxX, maxY);
+    }
+    let toX = (x: number) => padding + (x - minX) / (maxX - minX || 1) * (plotSize - 2*padding);
+    let toY = (y: number) => plotSize - padding - (y - minY) / (maxY - minY || 1) * (plotSize - 2*padding);
+    return (
+      <div style={{ display: "inline-block", marginRight: 16 }}>
+        <div style={{ fontSize: "small", textAlign: "center" }}>{title}</div>
+        <svg width={plotSize} height={plotSize} style={{ border: "1px solid lightgray" }}>
+          {identity && <line x1={toX(minX)} y1={toY(minX)} x2={toX(maxX)} y2={toY(maxX)} stroke={AgreementDialog.biasColor} strokeDasharray="4 3"/>}
+          {levels.map((level, index) =>
+            <line key={index} x1={padding} x2={plotSize - padding} y1={toY(level.value)} y2={toY(level.value)} stroke={level.color}
+              strokeDasharray={level.dashed ? "4 3" : undefined}/>
+          )}
+          {points.map((point, index) =>
+            <circle key={index} cx={toX(point.x)} cy={toY(point.y)} r={3} fill={AgreementDialog.pointColor}>
+              <title>{point.sample.imageName + ", lesion " + point.sample.lesion + ": image " + this.format(point.sample.image) + ", mask " + this.format(point.sample.mask)}</title>
+            </circle>
+          )}
+          <text x={padding} y={plotSize - 8} fontSize={10}>{this.format(minX)}</text>
+          <text x={plotSize - padding} y={plotSize - 8} fontSize={10} textAnchor="end">{this.format(maxX)}</text>
+          <text x={plotSize / 2} y={plotSize - 8} fontSize={10} textAnchor="middle">{xLabel}</text>
+          <text x={4} y={plotSize - padding} fontSize={10}>{this.format(minY)}</text>
+          <text x={4} y={padding} fontSize={10}>{this.format(maxY)}</text>
+          <text x={4} y={12} fontSize={10}>{yLabel}</text>
+        </svg>
+      </div>
+    );
+  }
+
+  // Bland-Altman plot of the differences against the means of the pairs, and correlation plot of the mask against the image
+  private renderPlots = (samples: AgreementSample[], statistics: AgreementStatistics): JSX.Element => {
+    if(samples.length === 0) return <p>No lesion has this measure on both the image and the mask.</p>;
+    let levels = [
+      ...(statistics.bias !== undefined ? [{ value: statistics.bias, color: AgreementDialog.biasColor, dashed: false }] : []),
+      ...[statistics.lowerLimit, statistics.upperLimit].filter(limit => limit !== undefined).map(limit => ({ value: limit as number, color: AgreementDialog.limitColor, dashed: true }))
+    ];
+    return (
+      <div>
+        {this.renderPlot("Bland-Altman", "Mean", "Mask - Image", samples.map(sample => ({ x: (sample.image + sample.mask) / 2, y: sample.mask - sample.image, sample: sample })), levels, false)}
+        {this.renderPlot("Correlation", "Image", "Mask", samples.map(sample => ({ x: sample.image, y: sample.mask, sample: sample })), [], true)}
+      </div>
+    );
+  }
+
+  public render(): JSX.Element {
+    if(!this.props.open) return <Dialog open={false}/>;
+    let measures = agreementMeasures(this.props.metrics);
+    let samples = new Map(measures.map(measure => [measure, agreementSamples(this.props.annotations, measure)]));
+    let sources = agreementSources(Array.from(samples.values()).flat());
+    let source = this.state.source !== null && sources.includes(this.state.source) ? this.state.source : sources[0];
+    let sourceSamples = (measure: AgreementMeasure) => (samples.get(measure) ?? []).filter(sample => sample.source === source);
+    let statistics = measures.map(measure => [measure, agreementStatistics(sourceSamples(measure))] as [AgreementMeasure, AgreementStatistics]);
+    let measure = measures.includes(this.state.measure) ? this.state.measure : measures[0];
+
+    return (
+      <Dialog open={this.props.open} onClose={this.props.onClose} maxWidth="lg">
+        <DialogTitle>Image and Mask Agreement</DialogTitle>
+        <DialogContent>
+          { // Without lesions measured on both an image and a mask, there is nothing to compare
+            sources.length === 0 ? <p>No lesion is measured on both an image and its mask.</p> :
+              <div>
+                <label>Mask source: </label>
+                <Select size="small" value={source} onChange={this.handleSourceChange}>
+                  {sources.map(other => <MenuItem key={other} value={other}>{other}</MenuItem>)}
+                </Select>
+                {this.renderTable(statistics)}
+                <p>{agreementMeasureLabel(measure)}, mask minus image:</p>
+                {this.renderPlots(sourceSamples(measure), (statistics.find(([other]) => other === measure) as [AgreementMeasure, AgreementStatistics])[1])}
+              </div>
+          }
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={this.props.onClose}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+}
+
+export default AgreementDialog;
@@ -0,0 +1,26 @@
+import { biplaneMetrics, isSeparationTooSmall, projectionSeparation } from './Biplane';
+
+test('the separation of the projections combines their primary and secondary angles', () => {
+  expect(projectionSeparation({ primaryAngle: 30, secondaryAngle: 0 }, { primaryAngle: -60, secondaryAngle: 0 })).toBeCloseTo(90);
+  expect(projectionSeparation({ primaryAngle: 0, secondaryAngle: 30 }, { primaryAngle: 0, secondaryAngle: -30 })).toBeCloseTo(60);
+  expect(projectionSeparation({ primaryAngle: 0, secondaryAngle: 0 }, { primaryAngle: 90, secondaryAngle: 90 })).toBeCloseTo(90);
+  expect(projectionSeparation({ primaryAngle: 10, secondaryAngle: 0 }, { primaryAngle: null, secondaryAngle: 0 })).toBeUndefined();
+});
+
+test('projections less than 30 degrees apart, or of unknown angles, are too close', () => {
+  expect(isSeparationTooSmall({ primaryAngle: 30, secondaryAngle: 20 }, { primaryAngle: 10, secondaryAngle: 20 })).toBe(true);
+  expect(isSeparationTooSmall({ primaryAngle: 30, secondaryAngle: 20 }, { primaryAngle: -30, secondaryAngle: 20 })).toBe(false);
+  expect(isSeparationTooSmall({ primaryAngle: NaN, secondaryAngle: 20 }, { primaryAngle: -30, secondaryAngle: 20 })).toBe(true);
+});
+
+test('the lesion areas are ellipses whose axes are the diameters on each projection', () => {
+  // Areas, in units of π/4: proximal 4·2 = 8, MLD 1·2 = 2, distal 2·2 = 4
+  let metrics = biplaneMetrics({ proximal: 4, mld: 1, distal: 2 }, { proximal: 2, mld: 2, distal: 2 });
+  expect(metrics.mldArea).toBeCloseTo(Math.PI / 2);
+  expect(metrics.referenceArea).toBeCloseTo(Math.PI * 1.5);
+  expect(metrics.ellipticalAreaStenosis).toBeCloseTo((1 - 2/6) * 100);
+  let partial = biplaneMetrics({ mld: 1 }, { proximal: 2, mld: 2, distal: 2 });
+  expect(partial.mldArea).toBeCloseTo(Math.PI / 2);
+  expect(partial.referenceArea).toBeUndefined();
+  expect(partial.ellipticalAreaStenosis).toBeUndefined();
+});
@@ -0,0 +1,58 @@
+import { ellipticalAreaStenosis, RoleDiameters } from "./QCAMetrics";
+
+// Biplane QCA combines the diameters of the same lesion measured on two projections, ideally orthogonal, assuming that the
+// lumen cross-section is an ellipse whose axes are the diameters seen on each projection. The projections are given by the
+// angles of the C-arm: the primary angle rotates it around the patient, positive towards the left (LAO) and negative towards
+// the right (RAO), and the secondary angle tilts it, positive towards the head (cranial) and negative towards the feet (caudal)
+export type Projection = {
+  primaryAngle: number | null,                                                  // Primary angle, in degrees, or null if unknown
+  secondaryAngle: number | null                                                 // Secondary angle, in degrees, or null if unknown
+}
+
+// Minimum angle, in degrees, between the projections for the biplane measurements to be reliable
+export const minBiplaneSeparation = 30;
+
+// Angle, in degrees, between the directions from which two projections view the patient, or undefined if an angle is unknown
+export function projectionSeparation(first: Projection, second: Projection): number | undefined {
+  let directions = [first, second].map(viewDirection);
+  if(directions.some(direction => direction === undefined)) return undefined;
+  let [a, b] = directions as number[][];
+  let cosine = a.reduce((sum, component, index) => sum + component*b[index], 0);
+  return Math.acos(Math.min(Math.max(cosine, -1), 1)) * 180 / Math.PI;
+}
+
+// Whether two projections are too close for reliable biplane measurements, unknown angles being taken as too close
+export function isSeparationTooSmall(first: Projection, second: Projection): boolean {
+  let separation = projectionSeparation(first, second);
+  return separation === undefined || separation < minBiplaneSeparation;
+}
+
+// Results of a lesion measured on both projections. Areas are in squared units of the diameters, e.g., mm² if both
+// projections are calibrated
+export type BiplaneMetrics = {
+  ellipticalAreaStenosis: number | undefined,                                   // Area stenosis percentage of the elliptical cross-sections
+  mldArea: number | undefined,                                                  // Elliptical area of the lumen at the MLD
+  referenceArea: number | undefined                                             // Mean elliptical area of the lumen at the references
+}
+
+// Combine the diameters of a lesion on both projections into its elliptical cross-sectional areas and area stenosis
+export function biplaneMetrics(first: RoleDiameters, second: RoleDiameters): BiplaneMetrics {
+  let area = (role: keyof RoleDiameters) => first[role] !== undefined && second[role] !== undefined ?
+    Math.PI * (first[role] as number) * (second[role] as number) / 4 : undefined;
+  let proximalArea = area("proximal"), distalArea = area("distal");
+  return {
+    ellipticalAreaStenosis: ellipticalAreaStenosis(first, second),
+    mldArea: area("mld"),
+    referenceArea: proximalArea !== undefined && distalArea !== undefined ? (proximalArea + distalArea) / 2 : undefined
+  };
+}
+
+/********************************************* Helpers *********************************************/
+// Unit vector of the direction from which a projection views the patient, in a frame where x points to the patient's left,
+// y to the front and z to the head, or undefined if an angle is unknown
+function viewDirection(projection: Projection): number[] | undefined {
+  let { primaryAngle, secondaryAngle } = projection;
+  if(primaryAngle === null || secondaryAngle === null || !Number.isFinite(primaryAngle) || !Number.isFinite(secondaryAngle)) return undefined;
+  let primary = primaryAngle * Math.PI / 180, secondary = secondaryAngle * Math.PI / 180;
+  return [Math.sin(primary) * Math.cos(secondary), Math.cos(primary) * Math.cos(secondary), Math.sin(secondary)];
+}
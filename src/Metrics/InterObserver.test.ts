@@ -0,0 +1,59 @@
+import { interObserverComparisons, interObserverReport, interObserverStatistics, lesionReadings, lesionSpreads } from './InterObserver';
+import { ReaderSet } from '../Readers/Readers';
+import { FrameAnnotation } from '../Session/Session';
+import { frameAnnotation, line } from '../Session/TestFixtures';
+
+// Frame whose lesion has references of 4 px and the given MLD
+function frame(imageName: string, mld: number): FrameAnnotation {
+  return frameAnnotation({ imageName: imageName, imageLines: [line(4, "proximal"), line(mld, "mld"), line(4, "distal")] });
+}
+
+function reader(name: string, mlds: number[]): ReaderSet {
+  return { reader: name, color: "", frames: mlds.map((mld, index) => frame("frame" + index + ".png", mld)) };
+}
+
+const readers = [reader("A", [1, 2, 3]), reader("B", [1, 2, 3]), reader("C", [2, 3])];
+
+test('the readings list the measure of each lesion by each reader, with its spread', () => {
+  let readings = lesionReadings(readers, "mld");
+  expect(readings.map(reading => reading.values)).toEqual([[1, 1, 2], [2, 2, 3], [3, 3, undefined]]);
+  expect(readings[2].standardDeviation).toBe(0);
+  expect(readings[0].mean).toBeCloseTo(4/3);
+  expect(readings[0].coefficientOfVariation).toBeCloseTo(Math.sqrt(1/3) / (4/3) * 100);
+  expect(lesionReadings(readers, "diameterStenosis")[0].values).toEqual([75, 75, 50]);
+});
+
+test('the frames a reader excluded are not measured by them', () => {
+  let excluding = { ...readers[1], frames: [{ ...readers[1].frames[0], exclusionReasons: ["Vessel overlap"] }, ...readers[1].frames.slice(1)] };
+  let readings = lesionReadings([readers[0], excluding], "mld");
+  expect(readings.map(reading => reading.values)).toEqual([[1, undefined], [2, 2], [3, 3]]);
+  expect(readings.map(reading => reading.readers)).toEqual([["A"], ["A", "B"], ["A", "B"]]);
+  expect(readings[0].mean).toBe(1);
+});
+
+test('readers drawing the same lines agree perfectly', () => {
+  let statistics = interObserverStatistics(lesionReadings(readers, "mld"), ["A", "B", "C"], [0, 1]);
+  expect(statistics.readers).toEqual(["A", "B"]);
+  expect(statistics.count).toBe(3);
+  expect(statistics.icc).toBeCloseTo(1);
+  expect(statistics.coefficientOfVariation).toBe(0);
+  expect(statistics.agreement?.bias).toBe(0);
+});
+
+test('the comparisons hold every reader, on the lesions all of them measured, and each pair of readers', () => {
+  let comparisons = interObserverComparisons(lesionReadings(readers, "mld"), ["A", "B", "C"]);
+  expect(comparisons.map(comparison => [comparison.readers.join(), comparison.count])).toEqual([["A,B,C", 2], ["A,B", 3], ["A,C", 2], ["B,C", 2]]);
+  expect(comparisons[0].agreement).toBeNull();
+  expect(comparisons[2].agreement?.bias).toBe(1);
+  expect(interObserverComparisons(lesionReadings(readers.slice(0, 2), "mld"), ["A", "B"]).length).toBe(1);
+});
+
+test('the report compares the readers over every frame, and each lesion by its spread between the readers who measured it', () => {
+  expect(interObserverReport(readers).map(({ measure, statistics }) => [measure, statistics.readers.join()]))
+    .toEqual([["mld", "A,B,C"], ["mld", "A,B"], ["mld", "A,C"], ["mld", "B,C"], ["diameterStenosis", "A,B,C"], ["diameterStenosis", "A,B"],
+      ["diameterStenosis", "A,C"], ["diameterStenosis", "B,C"]]);
+  let spreads = lesionSpreads(readers);
+  expect(spreads.map(spread => [spread.measure, spread.imageName, spread.readers.join()])[2]).toEqual(["mld", "frame2.png", "A,B"]);
+  expect(spreads[2].standardDeviation).toBe(0);
+  expect(spreads.length).toBe(6);
+});
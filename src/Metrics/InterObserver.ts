@@ -0,0 +1,108 @@
+import { lesionIDs } from "../Canvas/Lesion";
+import { lesionDiameters } from "../Canvas/Stenosis";
+import { ReaderSet } from "../Readers/Readers";
+import { isFrameExcluded } from "../Review/Quality";
+import { deserializeLines } from "../Session/Session";
+import { agreementStatistics, AgreementStatistics, intraclassCorrelation, mean, standardDeviation } from "./Agreement";
+import { diameterStenosis } from "./QCAMetrics";
+
+// Measures compared between the readers on the image of each frame: the MLD, in pixels, and the diameter stenosis
+export type InterObserverMeasure = "mld" | "diameterStenosis";
+
+export const interObserverMeasures: InterObserverMeasure[] = ["mld", "diameterStenosis"];
+export const interObserverMeasureLabels: {[measure in InterObserverMeasure]: string} = { mld: "MLD (px)", diameterStenosis: "Diameter Stenosis (%)" };
+
+// Measure of a lesion of a frame by each reader, and its spread over the readers who measured it
+export type LesionReadings = {
+  imageName: string,                                                            // Name of the image of the frame
+  lesion: number,                                                               // Lesion measured
+  values: (number | undefined)[],                                               // Measure by each reader, undefined if they did not measure it
+  readers: string[],                                                            // Readers who measured it
+  mean: number | undefined,                                                     // Mean over the readers
+  standardDeviation: number | undefined,                                        // Standard deviation over the readers
+  coefficientOfVariation: number | undefined                                    // Standard deviation over mean, as a percentage
+}
+
+// Variability of a measure between some readers, on the lesions every one of them measured
+export type InterObserverStatistics = {
+  readers: string[],                                                            // Readers compared
+  count: number,                                                                // Number of lesions measured by every reader
+  icc: number | undefined,                                                      // ICC(A,1) between the readers
+  coefficientOfVariation: number | undefined,                                   // Root mean square of the coefficients of variation of the lesions
+  agreement: AgreementStatistics | null                                         // Bland-Altman of the second reader minus the first, for two readers
+}
+
+// Measure of every lesion of every frame by each reader, the frames being in the order they first appear in the reader sets.
+// The frames a reader excluded count as not measured by them
+export function lesionReadings(sets: ReaderSet[], measure: InterObserverMeasure): LesionReadings[] {
+  let imageNames = Array.from(new Set(sets.flatMap(set => set.frames.map(frame => frame.imageName))));
+  return imageNames.flatMap(imageName => {
+    let lines = sets.map(set => {
+      let frame = set.frames.find(frame => frame.imageName === imageName);
+      return deserializeLines(frame && !isFrameExcluded(frame) ? frame.imageLines : []);
+    });
+    return lesionIDs(lines.flat()).map(lesion => {
+      let values = lines.map(readerLines => {
+        let diameters = lesionDiameters(readerLines, lesion);
+        return measure === "mld" ? diameters.mld : diameterStenosis(diameters);
+      });
+      let measured = values.filter(value => value !== undefined) as number[];
+      let readers = sets.filter((_, index) => values[index] !== undefined).map(set => set.reader);
+      return { imageName: imageName, lesion: lesion, values: values, readers: readers, ...spread(measured) };
+    });
+  });
+}
+
+// Variability between the readers of the given indices, on the lesions every one of them measured
+export function interObserverStatistics(readings: LesionReadings[], readers: string[], indices: number[]): InterObserverStatistics {
+  let ratings = readings.filter(reading => indices.every(index => reading.values[index] !== undefined))
+    .map(reading => indices.map(index => reading.values[index] as number));
+  let coefficients = ratings.map(rating => spread(rating).coefficientOfVariation).filter(coefficient => coefficient !== undefined) as number[];
+  let squares = mean(coefficients.map(coefficient => coefficient * coefficient));
+  return {
+    readers: indices.map(index => readers[index]),
+    count: ratings.length,
+    icc: intraclassCorrelation(ratings),
+    coefficientOfVariation: squares !== undefined ? Math.sqrt(squares) : undefined,
+    agreement: indices.length === 2 ? agreementStatistics(ratings.map(([first, second]) => ({ image: first, mask: second }))) : null
+  };
+}
+
+// Variability between every reader, if there are more than two, and between each pair of readers
+export function interObserverComparisons(readings: LesionReadings[], readers: string[]): InterObserverStatistics[] {
+  let indices = readers.map((_, index) => index);
+  let pairs = indices.flatMap(first => indices.filter(second => second > first).map(second => [first, second]));
+  return [...(readers.length > 2 ? [indices] : []), ...pairs].map(compared => interObserverStatistics(readings, readers, compared));
+}
+
+// Comparison of the readers of a measure over every frame
+export type InterObserverComparison = {
+  measure: InterObserverMeasure,                                                // Measure compared
+  statistics: InterObserverStatistics                                           // Variability between the readers
+}
+
+// Spread of a measure of a lesion between the readers who measured it
+export type LesionSpread = LesionReadings & { measure: InterObserverMeasure };
+
+// Variability between the readers of each measure over every frame, between all the readers and each pair of readers
+export function interObserverReport(sets: ReaderSet[]): InterObserverComparison[] {
+  let readers = sets.map(set => set.reader);
+  return interObserverMeasures.flatMap(measure =>
+    interObserverComparisons(lesionReadings(sets, measure), readers).map(statistics => ({ measure: measure, statistics: statistics })));
+}
+
+// Spread of each measure of each lesion of each frame. Frames usually have a single lesion, too few for an ICC or a
+// Bland-Altman, so they are compared by the mean, standard deviation and coefficient of variation of their lesions instead
+export function lesionSpreads(sets: ReaderSet[]): LesionSpread[] {
+  return interObserverMeasures.flatMap(measure => lesionReadings(sets, measure).map(reading => ({ ...reading, measure: measure })));
+}
+
+/********************************************* Helpers *********************************************/
+function spread(values: number[]): Pick<LesionReadings, "mean" | "standardDeviation" | "coefficientOfVariation"> {
+  let average = mean(values), deviation = standardDeviation(values);
+  return {
+    mean: average,
+    standardDeviation: deviation,
+    coefficientOfVariation: average !== undefined && deviation !== undefined && average !== 0 ? deviation / Math.abs(average) * 100 : undefined
+  };
+}
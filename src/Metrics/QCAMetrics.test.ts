@@ -0,0 +1,42 @@
+import { circularAreaStenosis, computeQCAMetrics, diameterStenosis, ellipticalAreaStenosis, formatQCAMetric, percentOfReference,
+  referenceDiameter, symmetryIndex } from './QCAMetrics';
+
+test('a lesion halving a straight vessel has a 50% diameter and 75% area stenosis', () => {
+  let diameters = { proximal: 4, mld: 2, distal: 4 };
+  expect(referenceDiameter(diameters)).toBe(4);
+  expect(diameterStenosis(diameters)).toBe(50);
+  expect(circularAreaStenosis(diameters)).toBeCloseTo(75);
+  expect(percentOfReference(diameters)).toBe(50);
+  expect(symmetryIndex(diameters)).toBe(1);
+});
+
+test('references of different diameters are averaged, and their areas rather than their diameters for the area stenosis', () => {
+  // Reference diameter (3 + 2) / 2 = 2.5, reference area π(1.5² + 1²) / 2 = 1.625π, MLD area 0.5²π = 0.25π
+  let diameters = { proximal: 3, mld: 1, distal: 2 };
+  expect(referenceDiameter(diameters)).toBe(2.5);
+  expect(diameterStenosis(diameters)).toBeCloseTo(60);
+  expect(percentOfReference(diameters)).toBeCloseTo(40);
+  expect(circularAreaStenosis(diameters)).toBeCloseTo((1 - 0.25/1.625) * 100);
+  expect(symmetryIndex(diameters)).toBeCloseTo(2/3);
+});
+
+test('the elliptical area stenosis combines the diameters of two orthogonal projections', () => {
+  // Areas, in units of π/4: proximal 3·3 = 9, MLD 1·2 = 2, distal 2·2 = 4, so the reference area is 6.5
+  let diameters = { proximal: 3, mld: 1, distal: 2 }, orthogonal = { proximal: 3, mld: 2, distal: 2 };
+  expect(ellipticalAreaStenosis(diameters, orthogonal)).toBeCloseTo((1 - 2/6.5) * 100);
+  expect(ellipticalAreaStenosis(diameters, diameters)).toBeCloseTo(circularAreaStenosis(diameters) as number);
+  expect(ellipticalAreaStenosis(diameters, { proximal: 3, distal: 2 })).toBeUndefined();
+});
+
+test('metrics are undefined when a diameter is missing or the references are zero', () => {
+  let metrics = computeQCAMetrics({ mld: 2, distal: 4 });
+  expect(Object.values(metrics).every(value => value === undefined)).toBe(true);
+  let zero = computeQCAMetrics({ proximal: 0, mld: 0, distal: 0 }, { proximal: 0, mld: 0, distal: 0 });
+  expect(Object.values(zero).every(value => value === undefined)).toBe(true);
+  expect(computeQCAMetrics({ proximal: 4, mld: 2, distal: 4 }).ellipticalAreaStenosis).toBeUndefined();
+});
+
+test('percentages are formatted with a percent sign and two decimals', () => {
+  expect(formatQCAMetric("diameterStenosis", 100/3)).toBe("33.33%");
+  expect(formatQCAMetric("symmetryIndex", 2/3)).toBe("0.67");
+});
@@ -0,0 +1,97 @@
+// Metrics of quantitative coronary angiography computed from the diameters of a lesion, tagged by the role of the line
+// they were measured on, independently of how they were measured. Percentages are returned between 0 and 100, and a
+// metric is undefined when a diameter it needs is missing or its reference is zero
+export type RoleDiameters = {
+  proximal?: number,                                                            // Proximal reference diameter
+  mld?: number,                                                                 // Minimum lumen diameter
+  distal?: number                                                               // Distal reference diameter
+}
+
+// Selectable metrics:
+//  - diameterStenosis: 1 - MLD / mean reference diameter
+//  - circularAreaStenosis: 1 - MLD area / mean reference area, assuming circular cross-sections
+//  - ellipticalAreaStenosis: 1 - MLD area / mean reference area, assuming elliptical cross-sections whose axes are the
+//    diameters measured on two orthogonal projections
+//  - percentOfReference: MLD / mean reference diameter
+//  - symmetryIndex: smaller reference diameter / larger one, 1 when the vessel does not taper across the lesion
+export type QCAMetric = "diameterStenosis" | "circularAreaStenosis" | "ellipticalAreaStenosis" | "percentOfReference" | "symmetryIndex";
+
+export const qcaMetrics: QCAMetric[] = ["diameterStenosis", "circularAreaStenosis", "ellipticalAreaStenosis", "percentOfReference", "symmetryIndex"];
+export const defaultQCAMetrics: QCAMetric[] = ["diameterStenosis", "circularAreaStenosis"];
+
+// Labels of the metrics, used on the canvas and as spreadsheet headers, and whether they are percentages
+export const qcaMetricLabels: {[metric in QCAMetric]: string} = {
+  diameterStenosis: "Diameter Stenosis",
+  circularAreaStenosis: "Area Stenosis",
+  ellipticalAreaStenosis: "Elliptical Area Stenosis",
+  percentOfReference: "Percent of Reference",
+  symmetryIndex: "Symmetry Index"
+};
+export const qcaMetricIsPercentage: {[metric in QCAMetric]: boolean} = {
+  diameterStenosis: true, circularAreaStenosis: true, ellipticalAreaStenosis: true, percentOfReference: true, symmetryIndex: false
+};
+
+// Mean of the proximal and distal reference diameters
+export function referenceDiameter(diameters: RoleDiameters): number | undefined {
+  let { proximal, distal } = diameters;
+  if(proximal === undefined || distal === undefined) return undefined;
+  return (proximal + distal) / 2;
+}
+
+export function diameterStenosis(diameters: RoleDiameters): number | undefined {
+  let ratio = percentOfReference(diameters);
+  return ratio === undefined ? undefined : 100 - ratio;
+}
+
+export function circularAreaStenosis(diameters: RoleDiameters): number | undefined {
+  let { proximal, mld, distal } = diameters;
+  if(proximal === undefined || mld === undefined || distal === undefined) return undefined;
+  let referenceArea = (circleArea(proximal) + circleArea(distal)) / 2;
+  return referenceArea === 0 ? undefined : (1 - circleArea(mld) / referenceArea) * 100;
+}
+
+// Area stenosis from the diameters of the same lesion measured on two orthogonal projections
+export function ellipticalAreaStenosis(diameters: RoleDiameters, orthogonal: RoleDiameters): number | undefined {
+  let axes = [diameters, orthogonal];
+  if(axes.some(axis => axis.proximal === undefined || axis.mld === undefined || axis.distal === undefined)) return undefined;
+  let area = (role: keyof RoleDiameters) => ellipseArea(diameters[role] as number, orthogonal[role] as number);
+  let referenceArea = (area("proximal") + area("distal")) / 2;
+  return referenceArea === 0 ? undefined : (1 - area("mld") / referenceArea) * 100;
+}
+
+export function percentOfReference(diameters: RoleDiameters): number | undefined {
+  let reference = referenceDiameter(diameters);
+  if(reference === undefined || diameters.mld === undefined || reference === 0) return undefined;
+  return diameters.mld / reference * 100;
+}
+
+export function symmetryIndex(diameters: RoleDiameters): number | undefined {
+  let { proximal, distal } = diameters;
+  if(proximal === undefined || distal === undefined || Math.max(proximal, distal) === 0) return undefined;
+  return Math.min(proximal, distal) / Math.max(proximal, distal);
+}
+
+// Compute every metric of a lesion. The elliptical area stenosis needs the diameters on an orthogonal projection
+export function computeQCAMetrics(diameters: RoleDiameters, orthogonal: RoleDiameters | null = null): {[metric in QCAMetric]: number | undefined} {
+  return {
+    diameterStenosis: diameterStenosis(diameters),
+    circularAreaStenosis: circularAreaStenosis(diameters),
+    ellipticalAreaStenosis: orthogonal ? ellipticalAreaStenosis(diameters, orthogonal) : undefined,
+    percentOfReference: percentOfReference(diameters),
+    symmetryIndex: symmetryIndex(diameters)
+  };
+}
+
+// Format the value of a metric with two decimals, followed by "%" for percentages
+export function formatQCAMetric(metric: QCAMetric, value: number): string {
+  return Math.round(value * 100) / 100 + (qcaMetricIsPercentage[metric] ? "%" : "");
+}
+
+/********************************************* Helpers *********************************************/
+function circleArea(diameter: number): number {
+  return Math.PI * Math.pow(diameter / 2, 2);
+}
+
+function ellipseArea(firstAxis: number, secondAxis: number): number {
+  return Math.PI * firstAxis * secondAxis / 4;
+}
@@ -0,0 +1,140 @@
+import React from "react";
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import MenuItem from '@mui/material/MenuItem';
+import Select, { SelectChangeEvent } from '@mui/material/Select';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import { FramePair, pairFiles, PairingOptions, PairingResult, PairingStrategyType } from "./PairingStrategy";
+
+type PairingDialogProps = {
+  open: boolean,                                                                // Whether the dialog is shown
+  files: File[],                                                                // Uploaded files to be paired
+  options: PairingOptions,                                                      // Current pairing options
+  onOptionsChange: (options: PairingOptions) => void,                           // Called when the user edits the options
+  onLoad: (pairs: FramePair[]) => void,                                         // Called when the user accepts the pairs
+  onClose: () => void                                                           // Called when the user closes the dialog
+}
+
+// Labels of the pairing strategies
+const strategyLabels: {[type in PairingStrategyType]: string} = {
+  suffix: "Mask suffix",
+  prefix: "Mask prefix",
+  directory: "Parallel directories",
+  regex: "Custom regex"
+};
+
+// Dialog to choose how the uploaded images and masks are paired, previewing the resulting pairs and the
+// unmatched and ignored files
+export class PairingDialog extends React.Component<PairingDialogProps> {
+  // Update the selected strategy
+  private handleTypeChange = (e: SelectChangeEvent) => {
+    this.props.onOptionsChange({ ...this.props.options, type: e.target.value as PairingStrategyType });
+  }
+
+  // Build the change handler of a text option
+  private handleOptionChange = (option: keyof PairingOptions) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.props.onOptionsChange({ ...this.props.options, [option]: e.target.value });
+  }
+
+  // Pair the files with the current options, returning the result or the error in the options
+  private pair = (): PairingResult | string => {
+    try {
+      return pairFiles(this.props.files, this.props.options);
+    } catch(error) {
+      return (error as Error).message;
+    }
+  }
+
+  // Render the inputs of the options used by the selected strategy
+  private renderOptions = (): JSX.Element => {
+    let options = this.props.options;
+    let field = (option: keyof PairingOptions, label: string) =>
+      <TextField size="small" label={label} value={options[option]} onChange={this.handleOptionChange(option)} sx={{ marginLeft: 1 }}/>;
+
+    switch(options.type) {
+      case "suffix": return field("suffix", "Suffixes, e.g., d, pred1");
+      case "prefix": return field("prefix", "Prefixes");
+      case "directory": return <>{field("imageDirectory", "Image directory")}{field("maskDirectory", "Mask directories")}</>;
+      case "regex": return <>{field("imageRegex", "Image regex")}{field("maskRegex", "Mask regex")}</>;
+    }
+  }
+
+  // Render the table of pairs, with the unmatched files highlighted, and the list of ignored files
+  private renderPreview = (result: PairingResult): JSX.Element => {
+    let missing = <TableCell style={{ color: "red" }}>—</TableCell>;
+    return (
+      <div>
+        <p>
+          {result.pairs.filter(pair => pair.image && pair.masks.some(mask => mask.file)).length} pairs, {result.incompletePairs.length} lacking
+          some masks, {result.unmatchedImages.length} unmatched images, {result.unmatchedMasks.length} unmatched
+          masks, {result.ignored.length} ignored files
+        </p>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Image</TableCell>
+              {result.sources.map(source => <TableCell key={source}>Mask ({source})</TableCell>)}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {result.pairs.map((pair, index) =>
+              <TableRow key={index}>
+                {pair.image ? <TableCell>{pair.image.webkitRelativePath || pair.image.name}</TableCell> : missing}
+                {pair.masks.map(mask =>
+                  mask.file ? <TableCell key={mask.source}>{mask.file.webkitRelativePath || mask.file.name}</TableCell> :
+                    <TableCell key={mask.source} style={{ color: "red" }}>—</TableCell>
+                )}
+              </TableRow>
+            )}
+            {result.ignored.map((file, index) =>
+              <TableRow key={"ignored" + index}>
+                <TableCell colSpan={1 + result.sources.length} style={{ color: "gray" }}>Ignored: {file.webkitRelativePath || file.name}</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  }
+
+  public render(): JSX.Element {
+    let result = this.props.open ? this.pair() : null;
+    return (
+      <Dialog open={this.props.open} onClose={this.props.onClose} maxWidth="lg">
+        <DialogTitle>Image and Mask Pairing</DialogTitle>
+        <DialogContent>
+          <div style={{ paddingTop: 8 }}>
+            <Select size="small" value={this.props.options.type} onChange={this.handleTypeChange}>
+              {Object.entries(strategyLabels).map(([type, label]) => <MenuItem key={type} value={type}>{label}</MenuItem>)}
+            </Select>
+            {this.renderOptions()}
+          </div>
+          { // Show the error in the options, if any
+            typeof result === "string" && <p style={{ color: "red" }}>{result}</p>
+          }
+          { // Otherwise, preview the pairs
+            result && typeof result !== "string" && this.renderPreview(result)
+          }
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={this.props.onClose}>Cancel</Button>
+          <Button
+            disabled={!result || typeof result === "string" || result.pairs.length === 0}
+            onClick={() => { if(result && typeof result !== "string") this.props.onLoad(result.pairs) }}>
+            Load Frames
+          </Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+}
+
+export default PairingDialog;
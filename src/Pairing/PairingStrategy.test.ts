@@ -0,0 +1,85 @@
+import { defaultPairingOptions, pairFiles, PairingOptions } from './PairingStrategy';
+import { frameKey } from '../Session/AnnotationStore';
+
+const file = (name: string, path: string = "") => {
+  let file = new File(["data"], name);
+  if(path !== "") Object.defineProperty(file, "webkitRelativePath", { value: path });
+  return file;
+}
+const options = (changes: Partial<PairingOptions>): PairingOptions => ({ ...defaultPairingOptions, ...changes });
+
+test('longer suffixes are tested first', () => {
+  let result = pairFiles([file("a.png"), file("ad.png"), file("apd.png")], options({ suffix: "d,pd" }));
+  expect(result.sources).toEqual(["d", "pd"]);
+  expect(result.pairs).toHaveLength(1);
+  expect(result.pairs[0].masks.map(mask => mask.name)).toEqual(["ad.png", "apd.png"]);
+});
+
+test('images without masks and masks without images are reported', () => {
+  let result = pairFiles([file("a.png"), file("ad.png"), file("b.png"), file("cd.png"), file("notes.txt")], defaultPairingOptions);
+  expect(result.pairs.map(pair => pair.imageName)).toEqual(["a.png", "b.png", "c.png"]);
+  expect(result.unmatchedImages.map(image => image.name)).toEqual(["b.png"]);
+  expect(result.unmatchedMasks.map(mask => mask.name)).toEqual(["cd.png"]);
+  expect(result.pairs[1].masks[0]).toEqual({ source: "d", file: null, name: "bd.png" });
+  expect(result.ignored.map(ignored => ignored.name)).toEqual(["notes.txt"]);
+});
+
+test('images lacking the masks of some sources are incomplete', () => {
+  let result = pairFiles([file("mask_a.png"), file("a.png"), file("b.png"), file("pred_b.png")], options({ type: "prefix", prefix: "mask_,pred_" }));
+  expect(result.incompletePairs.map(pair => pair.imageName)).toEqual(["a.png", "b.png"]);
+  expect(result.incompletePairs[0].masks[1]).toEqual({ source: "pred_", file: null, name: "pred_a.png" });
+  expect(result.unmatchedImages).toEqual([]);
+});
+
+test('the regex source group decides the source of the masks', () => {
+  let result = pairFiles([file("a.png"), file("a_gt.png"), file("a_model.png")],
+    options({ type: "regex", imageRegex: "^(?<key>[^_]+)\\.png$", maskRegex: "^(?<key>[^_]+)_(?<source>\\w+)\\.png$" }));
+  expect(result.sources).toEqual(["gt", "model"]);
+  expect(result.pairs[0].masks.map(mask => mask.name)).toEqual(["a_gt.png", "a_model.png"]);
+
+  let sourceless = pairFiles([file("a.png"), file("a_mask.png")], options({ type: "regex" }));
+  expect(sourceless.sources).toEqual(["mask"]);
+});
+
+test('frames of the directory strategy are named after their path, keeping the subdirectories apart', () => {
+  let files = [
+    file("x.png", "study/images/p1/x.png"), file("x.png", "study/masks/p1/x.png"),
+    file("x.png", "study/images/p2/x.png"), file("x.png", "study/masks/p2/x.png")
+  ];
+  let result = pairFiles(files, options({ type: "directory" }));
+  expect(result.pairs.map(pair => pair.imageName)).toEqual(["p1/x.png", "p2/x.png"]);
+  expect(result.pairs.map(pair => pair.masks[0].name)).toEqual(["p1/x.png", "p2/x.png"]);
+  expect(new Set(result.pairs.map(frameKey)).size).toBe(2);
+});
+
+test('invalid options are rejected', () => {
+  expect(() => pairFiles([], options({ suffix: " , " }))).toThrow("The mask suffix cannot be empty");
+  expect(() => pairFiles([], options({ type: "prefix", prefix: "" }))).toThrow("The mask prefix cannot be empty");
+  expect(() => pairFiles([], options({ type: "directory", maskDirectory: "images" }))).toThrow("must be different");
+  expect(() => pairFiles([], options({ type: "directory", imageDirectory: "" }))).toThrow("cannot be empty");
+  expect(() => pairFiles([], options({ type: "regex", maskRegex: "(" }))).toThrow("Invalid mask regular expression");
+  expect(() => pairFiles([], options({ type: "regex", imageRegex: "^.+\\.png$" }))).toThrow("must have a (?<key>...) group");
+});
+
+test('each frame has one mask per source, in the order of the sources', () => {
+  let result = pairFiles([file("a_gt.png"), file("a.png"), file("a_pred.png"), file("b.png"), file("b_pred.png")], options({ suffix: "_pred,_gt" }));
+  expect(result.sources).toEqual(["_pred", "_gt"]);
+  expect(result.pairs.map(pair => pair.masks.map(mask => [mask.source, mask.file?.name ?? null, mask.name]))).toEqual([
+    [["_pred", "a_pred.png", "a_pred.png"], ["_gt", "a_gt.png", "a_gt.png"]],
+    [["_pred", "b_pred.png", "b_pred.png"], ["_gt", null, "b_gt.png"]]
+  ]);
+  expect(result.incompletePairs.map(pair => pair.imageName)).toEqual(["b.png"]);
+});
+
+test('masks without an image make a frame without an image, named after the expected image', () => {
+  let result = pairFiles([file("c_gt.png"), file("c_pred.png"), file("c_gt.png")], options({ suffix: "_pred,_gt" }));
+  expect(result.pairs).toHaveLength(1);
+  expect(result.pairs[0].image).toBeNull();
+  expect(result.pairs[0].imageName).toBe("c.png");
+  expect(result.pairs[0].masks.map(mask => mask.name)).toEqual(["c_pred.png", "c_gt.png"]);
+  expect(result.unmatchedMasks.map(mask => mask.name).sort()).toEqual(["c_gt.png", "c_pred.png"]);
+  expect(result.ignored.map(ignored => ignored.name)).toEqual(["c_gt.png"]);
+
+  let partial = pairFiles([file("d_gt.png")], options({ suffix: "_pred,_gt" }));
+  expect(partial.pairs[0].masks.map(mask => [mask.file?.name ?? null, mask.name])).toEqual([[null, "d_pred.png"], ["d_gt.png", "d_gt.png"]]);
+});
@@ -0,0 +1,221 @@
+// Strategies used to pair the uploaded images with their masks:
+//  - suffix: the mask is named <image name><suffix>.<extension>, e.g., 1_30_20_5d.png
+//  - prefix: the mask is named <prefix><image name>, e.g., mask_1_30_20_5.png
+//  - directory: the mask has the same name as the image, in a parallel directory, e.g., images/x.png and masks/x.png.
+//    The frames are named after their path below the images or masks directory, e.g., p1/x.png, so that the files of
+//    different subdirectories are told apart
+//  - regex: images and masks are matched by two regular expressions, and paired when their key groups are equal
+// An image may have masks from several sources, e.g., a ground truth and model predictions. The suffixes, prefixes
+// and mask directories are then given as comma-separated lists, each entry being a source, and the mask regex
+// may have a source group
+export type PairingStrategyType = "suffix" | "prefix" | "directory" | "regex";
+
+export type PairingOptions = {
+  type: PairingStrategyType,                                                    // Pairing strategy
+  suffix: string,                                                               // Mask suffixes, for the suffix strategy
+  prefix: string,                                                               // Mask prefixes, for the prefix strategy
+  imageDirectory: string,                                                       // Name of the images directory, for the directory strategy
+  maskDirectory: string,                                                        // Names of the masks directories, for the directory strategy
+  imageRegex: string,                                                           // Image expression with a key group, for the regex strategy
+  maskRegex: string                                                             // Mask expression with a key and optional source group, for the regex strategy
+}
+
+export type MaskPair = {
+  source: string,                                                               // Source of the mask, e.g., its suffix
+  file: File | null,                                                            // Mask file, or null if unmatched
+  name: string                                                                  // Name of the mask, or the expected one if unmatched
+}
+
+export type FramePair = {
+  image: File | null,                                                           // Image file, or null if unmatched
+  imageName: string,                                                            // Name of the image, or the expected one if unmatched
+  masks: MaskPair[]                                                             // Masks of the image, one per source, in the order of the sources
+}
+
+export type PairingResult = {
+  sources: string[],                                                            // Mask sources
+  pairs: FramePair[],                                                           // Frames, including the unmatched images and masks, sorted by name
+  unmatchedImages: File[],                                                      // Images without any mask
+  unmatchedMasks: File[],                                                       // Masks without an image
+  incompletePairs: FramePair[],                                                 // Images lacking the masks of some sources
+  ignored: File[]                                                               // Files that are neither images nor masks
+}
+
+export const defaultPairingOptions: PairingOptions = {
+  type: "suffix",
+  suffix: "d",
+  prefix: "mask_",
+  imageDirectory: "images",
+  maskDirectory: "masks",
+  imageRegex: "^(?<key>.+)\\.png$",
+  maskRegex: "^(?<key>.+)_mask\\.png$"
+};
+
+// Extensions of the files that can be displayed as images or masks
+const imageExtensions = /\.(png|jpe?g|bmp|gif|webp)$/i;
+
+type Classification = { role: "image", key: string } | { role: "mask", key: string, source: string };
+
+// Default source of the masks matched by a regex without a source group
+const defaultRegexSource = "mask";
+
+// Split a comma-separated list of sources, ignoring empty entries
+export function splitSources(list: string): string[] {
+  return list.split(",").map(source => source.trim()).filter(source => source !== "");
+}
+
+// Pair the given files according to the strategy in the options, throwing an error if the options are invalid
+export function pairFiles(files: File[], options: PairingOptions): PairingResult {
+  let classify = classifier(options);
+  let images = new Map<string, File>(), masks = new Map<string, Map<string, File>>();
+  let ignored: File[] = [];
+
+  // Sort the files into images and masks, by key and source
+  files.forEach(file => {
+    let classification = imageExtensions.test(file.name) ? classify(file) : null;
+    if(!classification) ignored.push(file);
+    else if(classification.role === "image") {
+      if(images.has(classification.key)) ignored.push(file);
+      else images.set(classification.key, file);
+    } else {
+      let keyMasks = masks.get(classification.key) ?? new Map<string, File>();
+      if(keyMasks.has(classification.source)) ignored.push(file);
+      else masks.set(classification.key, keyMasks.set(classification.source, file));
+    }
+  });
+
+  // The sources are the configured ones or, for the regex strategy, the ones found
+  let sources: string[];
+  if(options.type === "suffix") sources = splitSources(options.suffix);
+  else if(options.type === "prefix") sources = splitSources(options.prefix);
+  else if(options.type === "directory") sources = splitSources(options.maskDirectory);
+  else {
+    let found = new Set<string>();
+    masks.forEach(keyMasks => keyMasks.forEach((file, source) => found.add(source)));
+    sources = found.size !== 0 ? Array.from(found).sort() : [defaultRegexSource];
+  }
+
+  // Name the frames after their key for the directory strategy, since the files of different subdirectories may share names
+  let frameName = (file: File, key: string) => options.type === "directory" ? key : file.name;
+
+  // Pair the images and masks with the same key
+  let pairs: FramePair[] = [], unmatchedImages: File[] = [], unmatchedMasks: File[] = [], incompletePairs: FramePair[] = [];
+  images.forEach((image, key) => {
+    let keyMasks = masks.get(key) ?? new Map<string, File>();
+    let pair: FramePair = {
+      image: image,
+      imageName: frameName(image, key),
+      masks: sources.map(source => {
+        let mask = keyMasks.get(source) ?? null;
+        return { source: source, file: mask, name: mask ? frameName(mask, key) : expectedMaskName(frameName(image, key), source, options) };
+      })
+    };
+    if(keyMasks.size === 0) unmatchedImages.push(image);
+    else if(pair.masks.some(mask => mask.file === null)) incompletePairs.push(pair);
+    pairs.push(pair);
+  });
+  masks.forEach((keyMasks, key) => {
+    if(images.has(key)) return;
+    keyMasks.forEach(mask => unmatchedMasks.push(mask));
+    let [firstSource, firstMask] = Array.from(keyMasks.entries())[0];
+    let imageName = expectedImageName(frameName(firstMask, key), firstSource, options);
+    pairs.push({
+      image: null,
+      imageName: imageName,
+      masks: sources.map(source => {
+        let mask = keyMasks.get(source) ?? null;
+        return { source: source, file: mask, name: mask ? frameName(mask, key) : expectedMaskName(imageName, source, options) };
+      })
+    });
+  });
+
+  pairs.sort((a, b) => a.imageName.localeCompare(b.imageName));
+  return {
+    sources: sources, pairs: pairs, unmatchedImages: unmatchedImages, unmatchedMasks: unmatchedMasks,
+    incompletePairs: incompletePairs, ignored: ignored
+  };
+}
+
+// Build the function that decides whether a file is an image or a mask, its pairing key and its mask source
+function classifier(options: PairingOptions): (file: File) => Classification | null {
+  switch(options.type) {
+    case "suffix": {
+      // Longer suffixes are tested first, so that, e.g., pred1 is not taken for the suffix 1
+      let suffixes = splitSources(options.suffix).sort((a, b) => b.length - a.length);
+      if(suffixes.length === 0) throw new Error("The mask suffix cannot be empty");
+      return (file: File) => {
+        let [base, extension] = splitExtension(file.name);
+        let suffix = suffixes.find(suffix => base.endsWith(suffix) && base.length > suffix.length);
+        if(suffix !== undefined) return { role: "mask", key: base.slice(0, -suffix.length) + extension, source: suffix };
+        return { role: "image", key: file.name };
+      };
+    }
+    case "prefix": {
+      let prefixes = splitSources(options.prefix).sort((a, b) => b.length - a.length);
+      if(prefixes.length === 0) throw new Error("The mask prefix cannot be empty");
+      return (file: File) => {
+        let prefix = prefixes.find(prefix => file.name.startsWith(prefix) && file.name.length > prefix.length);
+        if(prefix !== undefined) return { role: "mask", key: file.name.slice(prefix.length), source: prefix };
+        return { role: "image", key: file.name };
+      };
+    }
+    case "directory": {
+      let maskDirectories = splitSources(options.maskDirectory);
+      if(options.imageDirectory === "" || maskDirectories.length === 0) throw new Error("The directory names cannot be empty");
+      if(maskDirectories.includes(options.imageDirectory)) throw new Error("The image and mask directories must be different");
+      // The key is the path below the images or masks directory, so that subdirectories, e.g., per patient, are kept apart
+      return (file: File) => {
+        let segments = (file.webkitRelativePath || file.name).split("/");
+        let maskIndex = segments.findIndex((segment, index) => maskDirectories.includes(segment) && index < segments.length - 1);
+        if(maskIndex !== -1) return { role: "mask", key: segments.slice(maskIndex + 1).join("/"), source: segments[maskIndex] };
+        let imageIndex = segments.indexOf(options.imageDirectory);
+        if(imageIndex !== -1 && imageIndex < segments.length - 1) return { role: "image", key: segments.slice(imageIndex + 1).join("/") };
+        return null;
+      };
+    }
+    case "regex": {
+      let imageRegExp = compileKeyRegExp(options.imageRegex, "image"), maskRegExp = compileKeyRegExp(options.maskRegex, "mask");
+      // Masks are tested first, since the image expression often matches the masks as well
+      return (file: File) => {
+        let mask = maskRegExp.exec(file.name)?.groups;
+        if(mask?.key !== undefined) return { role: "mask", key: mask.key, source: mask.source || defaultRegexSource };
+        let image = imageRegExp.exec(file.name)?.groups?.key;
+        return image !== undefined ? { role: "image", key: image } : null;
+      };
+    }
+  }
+}
+
+// Compile an expression of the regex strategy, which must have a named group called key
+function compileKeyRegExp(source: string, role: string): RegExp {
+  let regExp: RegExp;
+  try {
+    regExp = new RegExp(source);
+  } catch(e) {
+    throw new Error("Invalid " + role + " regular expression: " + (e as Error).message);
+  }
+  if(!source.includes("(?<key>")) throw new Error("The " + role + " regular expression must have a (?<key>...) group");
+  return regExp;
+}
+
+// Split a filename into its base name and extension, including the dot
+function splitExtension(name: string): [string, string] {
+  let index = name.lastIndexOf(".");
+  return index > 0 ? [name.slice(0, index), name.slice(index)] : [name, ""];
+}
+
+// Name the mask of a given source would have for an image, or the image name if it cannot be derived
+function expectedMaskName(imageName: string, source: string, options: PairingOptions): string {
+  let [base, extension] = splitExtension(imageName);
+  if(options.type === "suffix") return base + source + extension;
+  if(options.type === "prefix") return source + imageName;
+  return imageName;
+}
+
+// Name the image of a mask of a given source would have, or the mask name if it cannot be derived
+function expectedImageName(maskName: string, source: string, options: PairingOptions): string {
+  let [base, extension] = splitExtension(maskName);
+  if(options.type === "suffix") return base.slice(0, -source.length) + extension;
+  if(options.type === "prefix") return maskName.slice(source.length);
+  return maskName;
+}
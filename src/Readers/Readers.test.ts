@@ -0,0 +1,52 @@
+import { addReaderSet, averageLines, consensusAnnotation, readerAnnotations, removeReaderSet } from './Readers';
+import { FrameAnnotation, SerializedLine } from '../Session/Session';
+import { frameAnnotation } from '../Session/TestFixtures';
+
+// Build a horizontal line between the given abscissas
+function line(startX: number, endX: number, y: number, role: SerializedLine["role"], lesion: number = 1): SerializedLine {
+  return { type: "FluidLine", start: { x: startX, y: y }, end: { x: endX, y: y }, role: role, lesion: lesion };
+}
+
+function frame(imageName: string, imageLines: SerializedLine[], maskLines: SerializedLine[] = []): FrameAnnotation {
+  return frameAnnotation({ imageName: imageName, imageLines: imageLines, masks: [{ source: "d", name: imageName.replace(".png", "d.png"), lines: maskLines }] });
+}
+
+test('readers are recolored in order as they are added and removed, replacing the sets of the same reader', () => {
+  let session = (frames: FrameAnnotation[]) => ({ format: "qca-annotator-session" as const, version: 2, created: "", frames: frames });
+  let sets = addReaderSet(addReaderSet([], "A", session([])), "B", session([]));
+  sets = addReaderSet(sets, "A", session([frame("a.png", [])]));
+  expect(sets.map(set => [set.reader, set.frames.length])).toEqual([["B", 0], ["A", 1]]);
+  expect(sets[0].color).not.toBe(sets[1].color);
+  expect(removeReaderSet(sets, "B")[0].color).toBe(sets[0].color);
+});
+
+test('the annotations of a frame are matched by image name, or by mask name', () => {
+  let sets = [{ reader: "A", color: "red", frames: [frame("a.png", [])] }, { reader: "B", color: "blue", frames: [{ ...frame("a.png", []), imageName: "other.png" }] }];
+  expect(readerAnnotations(sets, frame("a.png", [])).map(annotation => annotation.reader)).toEqual(["A", "B"]);
+  expect(readerAnnotations(sets, frame("b.png", []))).toEqual([]);
+});
+
+test('lines of the same lesion and role are averaged, whichever direction they were drawn in', () => {
+  let averaged = averageLines([
+    [line(0, 10, 0, "proximal"), line(2, 8, 10, "mld"), line(0, 10, 20, "distal", 2)],
+    [line(12, 2, 2, "proximal"), line(4, 6, 10, "mld")]
+  ]);
+  expect(averaged).toEqual([
+    { type: "FluidLine", start: { x: 1, y: 1 }, end: { x: 11, y: 1 }, role: "proximal", lesion: 1 },
+    { type: "FluidLine", start: { x: 3, y: 10 }, end: { x: 7, y: 10 }, role: "mld", lesion: 1 },
+    { type: "FluidLine", start: { x: 0, y: 20 }, end: { x: 10, y: 20 }, role: "distal", lesion: 2 }
+  ]);
+});
+
+test('the consensus adopts the lines of the chosen reader, or their average', () => {
+  let current = frame("a.png", [line(0, 1, 0, "mld")], [line(0, 1, 0, "mld")]);
+  let annotations = [
+    { reader: "A", color: "red", annotation: frame("a.png", [line(0, 4, 0, "mld")]) },
+    { reader: "B", color: "blue", annotation: frame("a.png", [line(0, 8, 0, "mld")], [line(0, 2, 0, "mld")]) }
+  ];
+  expect(consensusAnnotation(current, annotations, "A").imageLines).toEqual(annotations[0].annotation.imageLines);
+  let average = consensusAnnotation(current, annotations, null);
+  expect(average.imageLines.map(line => line.end.x)).toEqual([6]);
+  expect(average.masks[0].lines.map(line => line.end.x)).toEqual([2]);
+  expect(average.brightness).toBe(100);
+});
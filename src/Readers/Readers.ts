@@ -0,0 +1,107 @@
+import AbstractLine from "../Canvas/AbstractLine";
+import { lesionIDs, lesionLines } from "../Canvas/Lesion";
+import { findLineByRole, qcaLineRoles } from "../Canvas/LineRole";
+import { PixelLine } from "../Canvas/PixelLine";
+import { Point } from "../Canvas/Point";
+import { deserializeLines, findMaskAnnotation, FrameAnnotation, MaskAnnotation, SerializedLine, Session } from "../Session/Session";
+
+// Annotations of every frame by one reader, imported from a session they exported
+export type ReaderSet = {
+  reader: string,                                                               // Name of the reader
+  color: string,                                                                // Color of the lines of the reader on the canvases
+  frames: FrameAnnotation[]                                                     // Annotations of the frames the reader annotated
+}
+
+// Annotation of a frame by one reader
+export type ReaderAnnotation = {
+  reader: string,                                                               // Name of the reader
+  color: string,                                                                // Color of the lines of the reader on the canvases
+  annotation: FrameAnnotation                                                   // Annotation of the frame by the reader
+}
+
+// Lines drawn by one reader on a canvas, shown over the lines being edited
+export type ReaderLines = {
+  reader: string,                                                               // Name of the reader
+  color: string,                                                                // Color of the lines
+  lines: AbstractLine[]                                                         // Lines drawn by the reader
+}
+
+// Colors of the readers, in the order they are imported, distinct from the colors of the lines being edited
+export const readerColors = ['#FF9800', '#00BCD4', '#E040FB', '#CDDC39', '#FF5252', '#8D6E63'];
+
+// Add the annotations of a reader, imported from a session they exported, replacing those of the same reader, if any
+export function addReaderSet(sets: ReaderSet[], reader: string, session: Session): ReaderSet[] {
+  return recolor([...sets.filter(set => set.reader !== reader), { reader: reader, color: "", frames: session.frames }]);
+}
+
+export function removeReaderSet(sets: ReaderSet[], reader: string): ReaderSet[] {
+  return recolor(sets.filter(set => set.reader !== reader));
+}
+
+// Annotations of a frame by each reader who annotated it, matched by image name or, failing that, by any mask name
+export function readerAnnotations(sets: ReaderSet[], frame: FrameAnnotation): ReaderAnnotation[] {
+  return sets.flatMap(set => {
+    let annotation = set.frames.find(other => other.imageName === frame.imageName) ??
+      set.frames.find(other => other.masks.some(mask => frame.masks.some(frameMask => frameMask.name === mask.name)));
+    return annotation ? [{ reader: set.reader, color: set.color, annotation: annotation }] : [];
+  });
+}
+
+// Lines of each reader on the image, or on the given mask of the frame
+export function readerLines(annotations: ReaderAnnotation[], mask: MaskAnnotation | null = null, maskIndex: number = 0): ReaderLines[] {
+  return annotations.map(({ reader, color, annotation }) => {
+    let lines = mask ? findMaskAnnotation(annotation.masks, mask, maskIndex)?.lines ?? [] : annotation.imageLines;
+    return { reader: reader, color: color, lines: deserializeLines(lines) };
+  });
+}
+
+// Annotation of a frame adopting the lines of one reader, or the average of the lines of every reader if none is given,
+// on the image and on each mask. The masks the chosen reader did not annotate keep their lines
+export function consensusAnnotation(current: FrameAnnotation, annotations: ReaderAnnotation[], reader: string | null): FrameAnnotation {
+  let chosen = annotations.find(annotation => annotation.reader === reader);
+  if(chosen) return { ...current, imageLines: chosen.annotation.imageLines, masks: chosen.annotation.masks };
+  return {
+    ...current,
+    imageLines: averageLines(annotations.map(annotation => annotation.annotation.imageLines)),
+    masks: current.masks.map((mask, index) =>
+      ({ ...mask, lines: averageLines(annotations.map(annotation => findMaskAnnotation(annotation.annotation.masks, mask, index)?.lines ?? [])) }))
+  };
+}
+
+// Average the lines of the same lesion and role drawn by several readers, keeping the lines drawn by a single reader.
+// Lines are matched by role, so that lines without a role are left out. The end points of each line are paired with the
+// nearest end points of the first reader's line before being averaged, since readers may draw them in either direction
+export function averageLines(lineSets: SerializedLine[][]): SerializedLine[] {
+  let sets = lineSets.map(deserializeLines);
+  return lesionIDs(sets.flat()).flatMap(lesion => qcaLineRoles.flatMap(role => {
+    let lines = sets.map(lines => findLineByRole(lesionLines(lines, lesion), role)).filter(line => line !== undefined) as AbstractLine[];
+    if(lines.length === 0) return [];
+    let first = lines[0];
+    let ends = lines.map(line => {
+      let direct = distance(line.startPoint, first.startPoint) + distance(line.endPoint, first.endPoint);
+      let reversed = distance(line.endPoint, first.startPoint) + distance(line.startPoint, first.endPoint);
+      return direct <= reversed ? [line.startPoint, line.endPoint] : [line.endPoint, line.startPoint];
+    });
+    return [{
+      type: first instanceof PixelLine ? "PixelLine" : "FluidLine",
+      start: average(ends.map(([start]) => start)),
+      end: average(ends.map(([, end]) => end)),
+      role: role,
+      lesion: lesion
+    }];
+  }));
+}
+
+/********************************************* Helpers *********************************************/
+// Color the readers in order, so that they keep distinct colors as they are added and removed
+function recolor(sets: ReaderSet[]): ReaderSet[] {
+  return sets.map((set, index) => ({ ...set, color: readerColors[index % readerColors.length] }));
+}
+
+function distance(first: Point, second: Point): number {
+  return Math.hypot(first.x - second.x, first.y - second.y);
+}
+
+function average(points: Point[]): Point {
+  return { x: points.reduce((sum, point) => sum + point.x, 0) / points.length, y: points.reduce((sum, point) => sum + point.y, 0) / points.length };
+}
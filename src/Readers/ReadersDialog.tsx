@@ -0,0 +1,113 @@
+import React from "react";
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import IconButton from '@mui/material/IconButton';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import ClearIcon from '@mui/icons-material/Clear';
+import { InterObserverComparison, interObserverMeasureLabels, interObserverReport, LesionSpread, lesionSpreads } from "../Metrics/InterObserver";
+import { ReaderSet } from "./Readers";
+
+type ReadersDialogProps = {
+  open: boolean,                                                                // Whether the dialog is shown
+  sets: ReaderSet[],                                                            // Annotations imported for each reader
+  onRemove: (reader: string) => void,                                           // Called when the user removes the annotations of a reader
+  onClose: () => void                                                           // Called when the user closes the dialog
+}
+
+// Dialog listing the imported readers and the variability of their measures, over every frame and on each frame
+export class ReadersDialog extends React.Component<ReadersDialogProps> {
+  // Round a statistic to two decimals, or show a dash if it is unknown
+  private format = (value: number | undefined): string => {
+    return value === undefined ? "—" : String(Math.round(value * 100) / 100);
+  }
+
+  // Table of the comparisons of the readers over every frame, one per row
+  private renderComparisons = (comparisons: InterObserverComparison[]): JSX.Element => {
+    return (
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            {["Measure", "Readers", "Lesions", "ICC", "CV (%)", "Bias", "Limits of Agreement"].map(label => <TableCell key={label}>{label}</TableCell>)}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {comparisons.map(({ measure, statistics }, index) =>
+            <TableRow key={index}>
+              <TableCell>{interObserverMeasureLabels[measure]}</TableCell>
+              <TableCell>{statistics.readers.join(", ")}</TableCell>
+              <TableCell>{statistics.count}</TableCell>
+              <TableCell>{this.format(statistics.icc)}</TableCell>
+              <TableCell>{this.format(statistics.coefficientOfVariation)}</TableCell>
+              <TableCell>{this.format(statistics.agreement?.bias)}</TableCell>
+              <TableCell>{statistics.agreement ? this.format(statistics.agreement.lowerLimit) + " to " + this.format(statistics.agreement.upperLimit) : "—"}</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  // Table of the spread of each lesion of each frame between the readers who measured it, one per row
+  private renderLesionSpreads = (spreads: LesionSpread[]): JSX.Element => {
+    return (
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            {["Measure", "Image", "Lesion", "Measured By", "Mean", "SD", "CV (%)"].map(label => <TableCell key={label}>{label}</TableCell>)}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {spreads.map((spread, index) =>
+            <TableRow key={index}>
+              <TableCell>{interObserverMeasureLabels[spread.measure]}</TableCell>
+              <TableCell>{spread.imageName}</TableCell>
+              <TableCell>{spread.lesion}</TableCell>
+              <TableCell>{spread.readers.join(", ")}</TableCell>
+              <TableCell>{this.format(spread.mean)}</TableCell>
+              <TableCell>{this.format(spread.standardDeviation)}</TableCell>
+              <TableCell>{this.format(spread.coefficientOfVariation)}</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  public render(): JSX.Element {
+    if(!this.props.open) return <Dialog open={false}/>;
+    let sets = this.props.sets;
+    return (
+      <Dialog open={this.props.open} onClose={this.props.onClose} maxWidth="lg">
+        <DialogTitle>Readers</DialogTitle>
+        <DialogContent>
+          {sets.map(set =>
+            <p key={set.reader} style={{ color: set.color }}>
+              {set.reader}: {set.frames.length} frames
+              <IconButton size="small" onClick={() => this.props.onRemove(set.reader)}><ClearIcon fontSize="small"/></IconButton>
+            </p>
+          )}
+          { // The statistics need at least two readers
+            sets.length < 2 ? <p>Import the annotations of at least two readers to compare them.</p> :
+              <>
+                {this.renderComparisons(interObserverReport(sets))}
+                <p>Spread of each lesion between the readers who measured it:</p>
+                {this.renderLesionSpreads(lesionSpreads(sets))}
+              </>
+          }
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={this.props.onClose}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+}
+
+export default ReadersDialog;
@@ -0,0 +1,63 @@
+import React from "react";
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import TextField from '@mui/material/TextField';
+import { defaultExclusionReasons, parseExclusionReasons } from "./Quality";
+
+type ExclusionReasonsDialogProps = {
+  open: boolean,                                                                // Whether the dialog is shown
+  reasons: string[],                                                            // Exclusion reasons offered on every frame
+  onChange: (reasons: string[]) => void,                                        // Called when the user saves the reasons
+  onClose: () => void                                                           // Called when the user closes the dialog
+}
+type ExclusionReasonsDialogState = {
+  text: string                                                                  // Reasons being edited, one per line
+}
+
+// Dialog to configure the reasons a frame can be excluded for. Frames keep the reasons they were excluded for, even if
+// they are no longer offered
+export class ExclusionReasonsDialog extends React.Component<ExclusionReasonsDialogProps, ExclusionReasonsDialogState> {
+  state: ExclusionReasonsDialogState = { text: this.props.reasons.join("\n") }
+
+  // Start editing the current reasons whenever the dialog is opened
+  componentDidUpdate(prevProps: ExclusionReasonsDialogProps) {
+    if(this.props.open && !prevProps.open) this.setState({ text: this.props.reasons.join("\n") });
+  }
+
+  private handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.setState({ text: e.target.value });
+  }
+
+  // Save the reasons typed, unless there are none, and close the dialog
+  private save = () => {
+    let reasons = parseExclusionReasons(this.state.text);
+    if(reasons.length === 0) {
+      alert("Enter at least one exclusion reason");
+      return;
+    }
+    this.props.onChange(reasons);
+    this.props.onClose();
+  }
+
+  public render(): JSX.Element {
+    return (
+      <Dialog open={this.props.open} onClose={this.props.onClose}>
+        <DialogTitle>Exclusion Reasons</DialogTitle>
+        <DialogContent>
+          <p>Enter one reason per line. Frames excluded for any reason are left out of the summary statistics.</p>
+          <TextField multiline fullWidth minRows={4} value={this.state.text} onChange={this.handleTextChange}/>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => this.setState({ text: defaultExclusionReasons.join("\n") })}>Reset</Button>
+          <Button onClick={this.props.onClose}>Cancel</Button>
+          <Button onClick={this.save}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+}
+
+export default ExclusionReasonsDialog;
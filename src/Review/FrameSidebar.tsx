@@ -0,0 +1,47 @@
+import React from "react";
+import List from '@mui/material/List';
+import ListItemButton from '@mui/material/ListItemButton';
+import ListItemText from '@mui/material/ListItemText';
+import { FrameStatus } from "../Session/AutosaveStore";
+
+type FrameSidebarProps = {
+  names: string[],                                                              // Names of the frames, in display order
+  statuses: FrameStatus[],                                                      // Annotation status of each frame
+  current: number,                                                              // Index of the frame under review
+  onSelect: (index: number) => void                                             // Called when the user clicks a frame
+}
+
+// Colors and labels of the annotation statuses
+const statusColors: {[status in FrameStatus]: string} = { empty: "gray", incomplete: "orange", complete: "green" };
+const statusLabels: {[status in FrameStatus]: string} = { empty: "Not annotated", incomplete: "Incomplete", complete: "Complete" };
+
+// List of every frame with its annotation status, used to navigate the frames in review mode
+export class FrameSidebar extends React.Component<FrameSidebarProps> {
+  private currentItem = React.createRef<HTMLDivElement>();                      // Reference to the item of the frame under review
+
+  // Keep the frame under review visible when it changes, e.g., when navigating with the keyboard
+  componentDidUpdate(prevProps: FrameSidebarProps) {
+    if(prevProps.current !== this.props.current) this.currentItem.current?.scrollIntoView({ block: "nearest" });
+  }
+
+  public render(): JSX.Element {
+    return (
+      <List dense sx={{ maxHeight: "85vh", overflow: "auto" }}>
+        {this.props.names.map((name, index) => {
+          let status = this.props.statuses[index] ?? "empty";
+          return (
+            <ListItemButton key={index} selected={index === this.props.current} onClick={() => this.props.onSelect(index)}
+              ref={index === this.props.current ? this.currentItem : undefined}>
+              <ListItemText 
+                primary={(index + 1) + ". " + name} 
+                secondary={statusLabels[status]} 
+                secondaryTypographyProps={{ style: { color: statusColors[status] } }}/>
+            </ListItemButton>
+          );
+        })}
+      </List>
+    );
+  }
+}
+
+export default FrameSidebar;
@@ -0,0 +1,57 @@
+import React from "react";
+
+type LazyMountProps = {
+  render: () => JSX.Element,                                                    // Renders the content, called only while it is mounted
+  placeholderHeight: number                                                     // Height of the placeholder before the content is first measured
+}
+type LazyMountState = {
+  visible: boolean,                                                             // Whether the container is near the viewport
+  height: number                                                                // Height of the placeholder shown while the content is unmounted
+}
+
+// Mounts its content only while it is within a margin of the viewport, e.g., so that the frames of long cine runs only
+// decode their images when scrolled into view. While unmounted, a placeholder keeps the last height of the content, so
+// that the scroll position does not jump
+export class LazyMount extends React.Component<LazyMountProps, LazyMountState> {
+  private static rootMargin = "600px 0px";                                      // Margin around the viewport in which the content is mounted
+
+  private container = React.createRef<HTMLDivElement>();                       // Reference to the container of the content
+  private observer: IntersectionObserver | null = null;                         // Observer of the container visibility
+
+  state: LazyMountState = {
+    visible: false,
+    height: this.props.placeholderHeight
+  }
+
+  // Observe the visibility of the container or, if the browser cannot, mount the content right away
+  componentDidMount() {
+    if(typeof IntersectionObserver === "undefined" || !this.container.current) {
+      this.setState({ visible: true });
+      return;
+    }
+    this.observer = new IntersectionObserver(this.handleIntersection, { rootMargin: LazyMount.rootMargin });
+    this.observer.observe(this.container.current);
+  }
+
+  componentWillUnmount() {
+    this.observer?.disconnect();
+  }
+
+  // Mount or unmount the content as the container enters or leaves the margin, measuring the content before unmounting it
+  private handleIntersection = (entries: IntersectionObserverEntry[]) => {
+    let visible = entries.some(entry => entry.isIntersecting);
+    if(visible === this.state.visible) return;
+    if(!visible && this.container.current) this.setState({ visible: false, height: this.container.current.offsetHeight });
+    else this.setState({ visible: visible });
+  }
+
+  public render(): JSX.Element {
+    return (
+      <div ref={this.container} style={this.state.visible ? undefined : { height: this.state.height }}>
+        {this.state.visible && this.props.render()}
+      </div>
+    );
+  }
+}
+
+export default LazyMount;
@@ -0,0 +1,14 @@
+import { isFrameExcluded, parseExclusionReasons } from './Quality';
+import { frameAnnotation } from '../Session/TestFixtures';
+
+const annotation = frameAnnotation();
+
+test('frames are excluded once they have an exclusion reason, whatever their quality', () => {
+  expect(isFrameExcluded(annotation)).toBe(false);
+  expect(isFrameExcluded({ ...annotation, quality: "poor", exclusionReasons: [] })).toBe(false);
+  expect(isFrameExcluded({ ...annotation, exclusionReasons: ["Foreshortening"] })).toBe(true);
+});
+
+test('exclusion reasons are read one per line, skipping blank and repeated lines', () => {
+  expect(parseExclusionReasons(" Vessel overlap\n\nCalcification \nVessel overlap\n")).toEqual(["Vessel overlap", "Calcification"]);
+});
@@ -0,0 +1,20 @@
+import { FrameAnnotation } from "../Session/Session";
+
+// Quality of a frame for measurement, as rated by the reader
+export type FrameQuality = "good" | "fair" | "poor";
+
+export const frameQualities: FrameQuality[] = ["good", "fair", "poor"];
+export const frameQualityLabels: {[quality in FrameQuality]: string} = { good: "Good", fair: "Fair", poor: "Poor" };
+
+// Reasons offered for excluding a frame, until the user configures their own
+export const defaultExclusionReasons = ["Vessel overlap", "Foreshortening", "Poor opacification", "Mask segmentation failure"];
+
+// Whether a frame is left out of the summary statistics, which it is as soon as it has an exclusion reason
+export function isFrameExcluded(annotation: FrameAnnotation): boolean {
+  return (annotation.exclusionReasons ?? []).length !== 0;
+}
+
+// Exclusion reasons typed one per line, trimmed, without empty or repeated ones
+export function parseExclusionReasons(text: string): string[] {
+  return Array.from(new Set(text.split("\n").map(reason => reason.trim()).filter(reason => reason !== "")));
+}
@@ -0,0 +1,52 @@
+import React from "react";
+import { coronarySegments, Dominance, isSegmentAvailable, segmentLabel } from "./Segments";
+
+type CoronaryTreeProps = {
+  selected: string | null,                                                      // ID of the selected segment, if any
+  dominance: Dominance | null,                                                  // Dominance of the patient, which decides the segments shown as available
+  onSelect: (segment: string) => void                                           // Called when the user clicks an available segment
+}
+
+// Points of the polyline of each segment in the diagram, the right coronary artery on the left and the left coronary
+// artery on the right, as in the schematic of the SYNTAX score
+const segmentPaths: {[id: string]: [number, number][]} = {
+  "1": [[110, 30], [70, 60]], "2": [[70, 60], [50, 130]], "3": [[50, 130], [80, 190]], "4": [[80, 190], [110, 235]],
+  "16": [[80, 190], [140, 200]], "16a": [[100, 193], [108, 215]], "16b": [[115, 196], [125, 216]], "16c": [[128, 198], [142, 214]],
+  "5": [[160, 30], [180, 50]], "6": [[180, 50], [176, 100]], "7": [[176, 100], [170, 160]], "8": [[170, 160], [165, 230]],
+  "9": [[177, 85], [140, 112]], "9a": [[158, 99], [140, 95]], "10": [[173, 130], [136, 160]], "10a": [[154, 145], [136, 140]],
+  "11": [[180, 50], [230, 62]], "12": [[180, 50], [205, 105]], "12a": [[228, 62], [232, 118]], "12b": [[252, 82], [254, 140]],
+  "13": [[230, 62], [265, 110]], "14": [[265, 110], [270, 160]], "14a": [[267, 128], [286, 142]], "14b": [[269, 148], [286, 166]],
+  "15": [[270, 160], [250, 225]]
+};
+
+// Segments drawn thicker, being the main vessels rather than their branches
+const mainSegments = ["1", "2", "3", "5", "6", "7", "8", "11", "13"];
+
+// Schematic coronary tree on which the user picks a segment by clicking it. The segments that do not exist in the
+// dominance of the patient are dashed and cannot be picked
+export class CoronaryTree extends React.Component<CoronaryTreeProps> {
+  public render(): JSX.Element {
+    return (
+      <svg width={300} height={250} viewBox="0 0 300 250">
+        <text x={60} y={15} fontSize={11}>RCA</text>
+        <text x={160} y={15} fontSize={11}>LM</text>
+        {coronarySegments.map(segment => {
+          let points = segmentPaths[segment.id], available = isSegmentAvailable(segment, this.props.dominance);
+          let selected = segment.id === this.props.selected;
+          let [start, end] = [points[0], points[points.length - 1]];
+          return (
+            <g key={segment.id} style={{ cursor: available ? "pointer" : "default" }} onClick={() => available && this.props.onSelect(segment.id)}>
+              <title>{segmentLabel(segment)}</title>
+              <polyline points={points.map(point => point.join(",")).join(" ")} fill="none" strokeLinecap="round"
+                stroke={selected ? "red" : available ? "#B71C1C" : "lightgray"} strokeOpacity={selected ? 1 : 0.6}
+                strokeWidth={mainSegments.includes(segment.id) ? 7 : 4} strokeDasharray={available ? undefined : "3 3"}/>
+              <text x={(start[0] + end[0]) / 2 + 5} y={(start[1] + end[1]) / 2} fontSize={9} fill={available ? "black" : "gray"}>{segment.id}</text>
+            </g>
+          );
+        })}
+      </svg>
+    );
+  }
+}
+
+export default CoronaryTree;
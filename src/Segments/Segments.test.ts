@@ -0,0 +1,24 @@
+import { coronarySegments, findSegment, isSegmentAvailable, lesionSegment, setLesionSegment } from './Segments';
+import { frameAnnotation } from '../Session/TestFixtures';
+
+test('the posterior descending and posterolateral segments depend on the dominance', () => {
+  let available = (dominance: "right" | "left" | "balanced" | null) =>
+    coronarySegments.filter(segment => isSegmentAvailable(segment, dominance)).map(segment => segment.id);
+  expect(available("right")).toContain("4");
+  expect(available("right")).not.toContain("15");
+  expect(available("left")).toContain("15");
+  expect(available("left")).not.toContain("16");
+  expect(available(null).length).toBe(coronarySegments.length);
+  expect(new Set(coronarySegments.map(segment => segment.id)).size).toBe(coronarySegments.length);
+});
+
+test('lesions are labelled with one segment each, ordered by lesion', () => {
+  let segments = setLesionSegment(setLesionSegment([], 2, "13"), 1, "6");
+  expect(setLesionSegment(segments, 2, "11")).toEqual([{ lesion: 1, segment: "6" }, { lesion: 2, segment: "11" }]);
+  expect(setLesionSegment(segments, 1, null)).toEqual([{ lesion: 2, segment: "13" }]);
+
+  let annotation = frameAnnotation({ segments: segments });
+  expect(lesionSegment(annotation, 1)).toBe(findSegment("6"));
+  expect(lesionSegment(annotation, 1)?.vessel).toBe("LAD");
+  expect(lesionSegment(annotation, 3)).toBeUndefined();
+});
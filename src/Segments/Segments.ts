@@ -0,0 +1,84 @@
+import { FrameAnnotation } from "../Session/Session";
+
+// Coronary dominance, i.e., the artery supplying the posterior descending and posterolateral branches
+export type Dominance = "right" | "left" | "balanced";
+
+export const dominances: Dominance[] = ["right", "left", "balanced"];
+export const dominanceLabels: {[dominance in Dominance]: string} = { right: "Right dominant", left: "Left dominant", balanced: "Balanced" };
+
+// Vessels the segments belong to, which the results can be grouped by
+export type CoronaryVessel = "RCA" | "LM" | "LAD" | "LCx" | "RI";
+
+export const coronaryVesselLabels: {[vessel in CoronaryVessel]: string} = {
+  RCA: "Right Coronary Artery", LM: "Left Main", LAD: "Left Anterior Descending", LCx: "Left Circumflex", RI: "Ramus Intermedius"
+};
+
+// Segment of the coronary tree, numbered as in the SYNTAX score, which extends the AHA 16-segment model with the
+// branches lettered a to c
+export type CoronarySegment = {
+  id: string,                                                                   // SYNTAX number of the segment, e.g., "6" or "16a"
+  name: string,                                                                 // Name of the segment
+  vessel: CoronaryVessel,                                                       // Vessel the segment belongs to
+  dominances: Dominance[]                                                       // Dominances in which the segment exists
+}
+
+// Coronary segment of a lesion of a frame
+export type LesionSegment = {
+  lesion: number,                                                               // Lesion labelled
+  segment: string                                                               // ID of its segment
+}
+
+const all = dominances, rightOrBalanced: Dominance[] = ["right", "balanced"];
+
+export const coronarySegments: CoronarySegment[] = [
+  { id: "1", name: "Proximal RCA", vessel: "RCA", dominances: all },
+  { id: "2", name: "Mid RCA", vessel: "RCA", dominances: all },
+  { id: "3", name: "Distal RCA", vessel: "RCA", dominances: all },
+  { id: "4", name: "Right posterior descending", vessel: "RCA", dominances: rightOrBalanced },
+  { id: "16", name: "Right posterolateral", vessel: "RCA", dominances: rightOrBalanced },
+  { id: "16a", name: "Right posterolateral branch a", vessel: "RCA", dominances: rightOrBalanced },
+  { id: "16b", name: "Right posterolateral branch b", vessel: "RCA", dominances: rightOrBalanced },
+  { id: "16c", name: "Right posterolateral branch c", vessel: "RCA", dominances: rightOrBalanced },
+  { id: "5", name: "Left main", vessel: "LM", dominances: all },
+  { id: "6", name: "Proximal LAD", vessel: "LAD", dominances: all },
+  { id: "7", name: "Mid LAD", vessel: "LAD", dominances: all },
+  { id: "8", name: "Apical LAD", vessel: "LAD", dominances: all },
+  { id: "9", name: "First diagonal", vessel: "LAD", dominances: all },
+  { id: "9a", name: "First diagonal a", vessel: "LAD", dominances: all },
+  { id: "10", name: "Second diagonal", vessel: "LAD", dominances: all },
+  { id: "10a", name: "Second diagonal a", vessel: "LAD", dominances: all },
+  { id: "11", name: "Proximal LCx", vessel: "LCx", dominances: all },
+  { id: "12", name: "Intermediate/anterolateral", vessel: "RI", dominances: all },
+  { id: "12a", name: "Obtuse marginal a", vessel: "LCx", dominances: all },
+  { id: "12b", name: "Obtuse marginal b", vessel: "LCx", dominances: all },
+  { id: "13", name: "Distal LCx", vessel: "LCx", dominances: all },
+  { id: "14", name: "Left posterolateral", vessel: "LCx", dominances: all },
+  { id: "14a", name: "Left posterolateral a", vessel: "LCx", dominances: all },
+  { id: "14b", name: "Left posterolateral b", vessel: "LCx", dominances: all },
+  { id: "15", name: "Left posterior descending", vessel: "LCx", dominances: ["left"] }
+];
+
+export function findSegment(id: string): CoronarySegment | undefined {
+  return coronarySegments.find(segment => segment.id === id);
+}
+
+// Whether a segment exists in the given dominance. Every segment is offered while the dominance is unknown
+export function isSegmentAvailable(segment: CoronarySegment, dominance: Dominance | null): boolean {
+  return dominance === null || segment.dominances.includes(dominance);
+}
+
+export function segmentLabel(segment: CoronarySegment): string {
+  return segment.id + " - " + segment.name;
+}
+
+// Segment of a lesion of a frame, if it was labelled with a known one
+export function lesionSegment(annotation: FrameAnnotation, lesion: number): CoronarySegment | undefined {
+  let labelled = (annotation.segments ?? []).find(labelled => labelled.lesion === lesion);
+  return labelled ? findSegment(labelled.segment) : undefined;
+}
+
+// Label a lesion with a segment, or remove its label if none is given, keeping the labels ordered by lesion
+export function setLesionSegment(segments: LesionSegment[], lesion: number, segment: string | null): LesionSegment[] {
+  let others = segments.filter(labelled => labelled.lesion !== lesion);
+  return (segment !== null ? [...others, { lesion: lesion, segment: segment }] : others).sort((first, second) => first.lesion - second.lesion);
+}
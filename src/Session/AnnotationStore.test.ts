@@ -0,0 +1,44 @@
+import { AnnotationStore, frameStatus } from './AnnotationStore';
+import { FilenameSchema } from '../Metadata/FilenameSchema';
+import { FramePair } from '../Pairing/PairingStrategy';
+import { mergeAnnotation, SerializedLine } from './Session';
+
+const image = new File(["image"], "1_30_20_5.png"), mask = new File(["mask"], "1_30_20_5d.png");
+const pairs: FramePair[] = [
+  { image: image, imageName: image.name, masks: [{ source: "d", file: mask, name: mask.name }, { source: "p", file: null, name: "1_30_20_5p.png" }] }
+];
+const lines: SerializedLine[] = ["proximal", "mld", "distal"].map(role => 
+  ({ type: "FluidLine", start: { x: 0, y: 0 }, end: { x: 0, y: 1 }, role: role as SerializedLine["role"] }));
+
+test('frames are loaded with empty annotations and the metadata in their names', () => {
+  let store = new AnnotationStore();
+  store.load(pairs, new FilenameSchema(FilenameSchema.defaultTemplate), new Map());
+  expect(store.length).toBe(1);
+  expect(store.get(0).annotation).toMatchObject({ patientID: 1, primaryAngle: 30, frameNumber: 5, imageLines: [] });
+  expect(store.get(0).annotation.masks.map(saved => saved.source)).toEqual(["d", "p"]);
+  expect(frameStatus(store.get(0))).toBe("empty");
+  expect(store.indexOfKey(store.get(0).key)).toBe(0);
+});
+
+test('the status ignores the masks that are absent', () => {
+  let store = new AnnotationStore();
+  store.load(pairs, new FilenameSchema(FilenameSchema.defaultTemplate), new Map());
+  let annotation = store.get(0).annotation;
+  store.update(0, { ...annotation, imageLines: lines });
+  expect(frameStatus(store.get(0))).toBe("incomplete");
+  store.update(0, { ...annotation, imageLines: lines, masks: [{ ...annotation.masks[0], lines: lines }, annotation.masks[1]] });
+  expect(frameStatus(store.get(0))).toBe("complete");
+});
+
+test('saved annotations are restored onto the masks with the same source, and matched by image or mask name', () => {
+  let store = new AnnotationStore();
+  store.load(pairs, new FilenameSchema(FilenameSchema.defaultTemplate), new Map());
+  let saved = { ...store.get(0).annotation, imageName: "other.png", brightness: 50, masks: [{ source: "d", name: mask.name, lines: lines }] };
+  expect(store.indexOfAnnotation(saved)).toBe(0);
+  expect(store.indexOfAnnotation({ ...saved, masks: [] })).toBe(-1);
+
+  let merged = mergeAnnotation(store.get(0).annotation, saved);
+  expect(merged.imageName).toBe(image.name);
+  expect(merged.brightness).toBe(50);
+  expect(merged.masks.map(restored => restored.lines.length)).toEqual([3, 0]);
+});
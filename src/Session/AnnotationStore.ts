@@ -0,0 +1,113 @@
+import { FramePair } from "../Pairing/PairingStrategy";
+import { FrameMetadata } from "../Metadata/FrameMetadata";
+import { FilenameSchema } from "../Metadata/FilenameSchema";
+import { Calibration } from "../Canvas/Calibration";
+import { DicomFrame } from "../Dicom/DicomFrames";
+import { Canvas } from "../Canvas/Canvas";
+import { isAnnotationComplete } from "../Canvas/Lesion";
+import { FrameAnnotation, deserializeLines, metadataToAnnotation } from "./Session";
+import { AutosaveStore, FrameStatus } from "./AutosaveStore";
+
+export type StoredFrame = {
+  key: string,                                                                  // Key identifying the frame, e.g., in the autosave store
+  pair: FramePair,                                                              // Image and mask files of the frame
+  metadata: FrameMetadata | null,                                               // Metadata read from DICOM tags, or null if parsed from the filename
+  annotation: FrameAnnotation                                                   // Latest annotations, filters and metadata of the frame
+}
+
+// Holds the annotations of every uploaded frame, whether or not its Frame component is mounted. Mounted frames
+// write their annotations to the store whenever they change and read them back when they are mounted again, so that
+// the exports and session operations only depend on the store
+export class AnnotationStore {
+  private _frames: StoredFrame[] = [];                                          // Stored frames, in display order
+
+  // Getters
+  public get frames(): StoredFrame[] { return this._frames }
+  public get length(): number { return this._frames.length }
+
+  // Replace the stored frames by empty annotations of the given pairs, with the metadata and calibration of the DICOM
+  // frames they were extracted from, if any, or the metadata parsed by the given schema
+  public load = (pairs: FramePair[], schema: FilenameSchema, dicomFrames: Map<string, DicomFrame>) => {
+    this._frames = pairs.map(pair => {
+      let dicomFrame = pair.image ? dicomFrames.get(pair.image.name) : undefined;
+      let metadata = dicomFrame?.metadata ?? null;
+      return { 
+        key: frameKey(pair), 
+        pair: pair, 
+        metadata: metadata, 
+        annotation: emptyAnnotation(pair, metadata ?? schema.parse(pair.imageName), dicomFrame?.calibration ?? null) 
+      };
+    });
+  }
+
+  // Retrieve the frame with the given index
+  public get = (index: number): StoredFrame => {
+    return this._frames[index];
+  }
+
+  // Replace the annotation of the frame with the given index
+  public update = (index: number, annotation: FrameAnnotation) => {
+    this._frames[index] = { ...this._frames[index], annotation: annotation };
+  }
+
+  // Index of the frame with the given key, or -1 if there is none
+  public indexOfKey = (key: string): number => {
+    return this._frames.findIndex(frame => frame.key === key);
+  }
+
+  // Index of the frame with the given image name, or -1 if there is none
+  public indexOfImageName = (imageName: string): number => {
+    return this._frames.findIndex(frame => frame.pair.imageName === imageName);
+  }
+
+  // Index of the frame matching a saved annotation by image name or, failing that, by any mask name, or -1 if there is none
+  public indexOfAnnotation = (annotation: FrameAnnotation): number => {
+    let index = this.indexOfImageName(annotation.imageName);
+    if(index !== -1) return index;
+    return this._frames.findIndex(frame => annotation.masks.some(mask => frame.pair.masks.some(pairMask => pairMask.name === mask.name)));
+  }
+
+  // Parse the metadata of the frames again with the given schema, except those read from DICOM tags
+  public applyFilenameSchema = (schema: FilenameSchema) => {
+    this._frames = this._frames.map(frame => frame.metadata ? frame : 
+      { ...frame, annotation: { ...frame.annotation, ...metadataToAnnotation(schema.parse(frame.pair.imageName)) } });
+  }
+}
+
+// Key of a frame, built from its image file or, if it has none, its first mask file, and their names in the frame,
+// which tell apart the files of different subdirectories
+export function frameKey(pair: FramePair): string {
+  let mask = pair.masks.find(mask => mask.file);
+  if(pair.image) return AutosaveStore.frameKey(pair.image, pair.imageName);
+  return mask?.file ? AutosaveStore.frameKey(mask.file, mask.name) : pair.imageName;
+}
+
+// Annotation of a frame without lines, with the default filters
+export function emptyAnnotation(pair: FramePair, metadata: FrameMetadata, calibration: Calibration | null): FrameAnnotation {
+  return {
+    imageName: pair.imageName,
+    ...metadataToAnnotation(metadata),
+    brightness: Canvas.defaultBrightness,
+    contrast: Canvas.defaultContrast,
+    calibration: calibration,
+    imageLines: [],
+    masks: pair.masks.map(mask => ({ source: mask.source, name: mask.name, lines: [] }))
+  };
+}
+
+// Annotation status of a frame: complete if every lesion of the image and every mask present has all its lines, empty if none has any
+export function frameStatus(frame: StoredFrame): FrameStatus {
+  let imageLines = deserializeLines(frame.annotation.imageLines);
+  let maskLines = frame.annotation.masks.map(mask => deserializeLines(mask.lines));
+  if(imageLines.length === 0 && maskLines.every(lines => lines.length === 0)) return "empty";
+  else if((!frame.pair.image || isAnnotationComplete(imageLines)) && 
+    frame.pair.masks.every((mask, index) => !mask.file || isAnnotationComplete(maskLines[index] ?? []))) return "complete";
+  else return "incomplete";
+}
+
+// Key identifying the acquisition of a frame, shared by every frame of the same patient and angles
+export function acquisitionKey(annotation: FrameAnnotation): string {
+  return [annotation.patientID, annotation.primaryAngle, annotation.secondaryAngle].join("_");
+}
+
+export default AnnotationStore;
@@ -0,0 +1,14 @@
+import { activeTimeAfter, auditEntry, auditReaders, idleTimeout } from './Audit';
+
+test('the time between interactions is active unless the reader was idle', () => {
+  expect(activeTimeAfter(0, null, 1000)).toBe(0);
+  expect(activeTimeAfter(500, 1000, 3000)).toBe(2500);
+  expect(activeTimeAfter(500, 1000, 1000 + idleTimeout + 1)).toBe(500);
+});
+
+test('the readers of an audit log are listed once, in order, skipping unknown readers', () => {
+  let log = [auditEntry("B", "a.png", "Draw line"), auditEntry("", "a.png", "Undo draw line"), auditEntry("A", "", "Change brightness"),
+    auditEntry("B", "a.png", "Draw line")];
+  expect(auditReaders(log)).toEqual(["B", "A"]);
+  expect(Number.isNaN(Date.parse(log[0].time))).toBe(false);
+});
@@ -0,0 +1,27 @@
+// Action performed on a frame, recorded in its audit log
+export type AuditEntry = {
+  time: string,                                                                 // ISO date of the action
+  reader: string,                                                               // ID of the reader who performed it, or "" if unknown
+  canvas: string,                                                               // Name of the image or mask it was performed on, or "" for the whole frame
+  action: string                                                                // Description of the action, e.g., "Draw line" or "Undo propagate lines"
+}
+
+// Time without interacting with a frame after which the reader is considered idle, in milliseconds. The time between two
+// interactions further apart is not counted as active time
+export const idleTimeout = 60 * 1000;
+
+// Record an action performed now by the given reader
+export function auditEntry(reader: string, canvas: string, action: string): AuditEntry {
+  return { time: new Date().toISOString(), reader: reader, canvas: canvas, action: action };
+}
+
+// Active time of a frame after an interaction at the given time, adding the time since the previous interaction, if any,
+// unless the reader was idle in between. Times are in milliseconds
+export function activeTimeAfter(activeTime: number, lastActivity: number | null, now: number): number {
+  return lastActivity !== null && now - lastActivity <= idleTimeout ? activeTime + Math.max(0, now - lastActivity) : activeTime;
+}
+
+// Readers who performed the actions of an audit log, in the order they first appear
+export function auditReaders(log: AuditEntry[]): string[] {
+  return Array.from(new Set(log.map(entry => entry.reader).filter(reader => reader !== "")));
+}
@@ -0,0 +1,20 @@
+import { AutosaveRecord, summarizeSessions } from './AutosaveStore';
+import { frameAnnotation } from './TestFixtures';
+
+const annotation = frameAnnotation();
+const record = (key: string, sessionID: string, savedAt: string, status: AutosaveRecord["status"]): AutosaveRecord =>
+  ({ key: key, sessionID: sessionID, savedAt: savedAt, status: status, annotation: annotation });
+
+test('stored frames are grouped by upload, most recently saved first', () => {
+  let sessions = summarizeSessions([
+    record("a.png:1", "2024-01-01", "2024-01-01T10:00:00.000Z", "complete"),
+    record("b.png:1", "2024-02-01", "2024-02-01T09:00:00.000Z", "incomplete"),
+    record("c.png:1", "2024-01-01", "2024-01-01T12:00:00.000Z", "empty"),
+    record("d.png:1", "2024-01-01", "2024-01-01T11:00:00.000Z", "complete")
+  ]);
+  expect(sessions).toEqual([
+    { sessionID: "2024-02-01", frameCount: 1, completeCount: 0, lastSavedAt: "2024-02-01T09:00:00.000Z" },
+    { sessionID: "2024-01-01", frameCount: 3, completeCount: 2, lastSavedAt: "2024-01-01T12:00:00.000Z" }
+  ]);
+  expect(summarizeSessions([])).toEqual([]);
+});
@@ -0,0 +1,128 @@
+import { FrameAnnotation, parseAnnotation } from "./Session";
+
+export type FrameStatus = "empty" | "incomplete" | "complete";
+
+export type AutosaveRecord = {
+  key: string,                                                                  // Frame key, of the form <frame name>:<file size>
+  sessionID: string,                                                            // ID of the upload in which the frame was last annotated
+  savedAt: string,                                                              // ISO date of the last save
+  status: FrameStatus,                                                          // Annotation status of the frame
+  annotation: FrameAnnotation                                                   // Annotations, filters and metadata of the frame
+}
+
+export type StoredSessionSummary = {
+  sessionID: string,                                                            // ID of the upload
+  frameCount: number,                                                           // Number of frames stored for the upload
+  completeCount: number,                                                        // Number of completely annotated frames
+  lastSavedAt: string                                                           // ISO date of the most recent save
+}
+
+// Persists the in-progress annotations of each frame in the browser's IndexedDB, so that they survive
+// page reloads and tab crashes
+export class AutosaveStore {
+  private static databaseName = "qca-annotator";                                // Name of the IndexedDB database
+  private static databaseVersion = 1;                                           // Version of the database schema
+  private static storeName = "frames";                                          // Name of the object store holding the frames
+
+  private database: Promise<IDBDatabase> | null = null;                         // Lazily opened database connection
+
+  // Build the key under which a frame is stored, from the size of its file and its name, by default the filename
+  public static frameKey(file: File, name: string = file.name): string {
+    return name + ":" + file.size;
+  }
+
+  // Save or overwrite the record of a frame
+  public saveFrame = (record: AutosaveRecord): Promise<void> => {
+    return this.transaction("readwrite", store => store.put(record)).then(() => undefined);
+  }
+
+  // Retrieve the stored records of the given keys, ignoring the keys with no record. Records saved by
+  // older versions are migrated to the current annotation format, and malformed records are ignored
+  public getFrames = (keys: string[]): Promise<AutosaveRecord[]> => {
+    return this.getAllFrames().then(records => {
+      let keySet = new Set(keys);
+      return records.filter(record => keySet.has(record.key)).flatMap(record => {
+        try {
+          return [{ ...record, annotation: parseAnnotation(record.annotation, "Autosaved frame " + record.key) }];
+        } catch(error) {
+          return [];
+        }
+      });
+    });
+  }
+
+  // List the stored uploads, most recent first
+  public listSessions = (): Promise<StoredSessionSummary[]> => {
+    return this.getAllFrames().then(summarizeSessions);
+  }
+
+  // Delete every frame stored for the given upload
+  public deleteSession = (sessionID: string): Promise<void> => {
+    return this.getAllFrames().then(records => {
+      let keys = records.filter(record => record.sessionID === sessionID).map(record => record.key);
+      return this.transaction("readwrite", store => { keys.forEach(key => store.delete(key)); return null; });
+    }).then(() => undefined);
+  }
+
+  // Delete every stored frame
+  public clear = (): Promise<void> => {
+    return this.transaction("readwrite", store => store.clear()).then(() => undefined);
+  }
+
+  /*************************************** IndexedDB helpers *****************************************/
+  // Retrieve every stored record
+  private getAllFrames = (): Promise<AutosaveRecord[]> => {
+    return this.transaction<AutosaveRecord[]>("readonly", store => store.getAll()).then(records => records ?? []);
+  }
+
+  // Open the database, creating the object store on the first use
+  private open = (): Promise<IDBDatabase> => {
+    if(this.database) return this.database;
+
+    this.database = new Promise<IDBDatabase>((resolve, reject) => {
+      if(typeof window === "undefined" || !window.indexedDB) {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      let request = window.indexedDB.open(AutosaveStore.databaseName, AutosaveStore.databaseVersion);
+      request.onupgradeneeded = () => {
+        if(!request.result.objectStoreNames.contains(AutosaveStore.storeName))
+          request.result.createObjectStore(AutosaveStore.storeName, { keyPath: "key" });
+      }
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening the database failed
+    this.database.catch(() => this.database = null);
+    return this.database;
+  }
+
+  // Run an operation in a transaction over the frames store, resolving with the result of the
+  // operation's request, if any, once the transaction completes
+  private transaction = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T> | null): Promise<T | undefined> => {
+    return this.open().then(database => new Promise<T | undefined>((resolve, reject) => {
+      let transaction = database.transaction(AutosaveStore.storeName, mode);
+      let request = operation(transaction.objectStore(AutosaveStore.storeName));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    }));
+  }
+}
+
+// Group the stored records by upload, counting their frames and complete frames, most recent upload first
+export function summarizeSessions(records: AutosaveRecord[]): StoredSessionSummary[] {
+  let sessions = new Map<string, StoredSessionSummary>();
+  records.forEach(record => {
+    let session = sessions.get(record.sessionID) ??
+      { sessionID: record.sessionID, frameCount: 0, completeCount: 0, lastSavedAt: record.savedAt };
+    session.frameCount += 1;
+    if(record.status === "complete") session.completeCount += 1;
+    if(record.savedAt > session.lastSavedAt) session.lastSavedAt = record.savedAt;
+    sessions.set(record.sessionID, session);
+  });
+  return Array.from(sessions.values()).sort((a, b) => b.lastSavedAt.localeCompare(a.lastSavedAt));
+}
+
+export default AutosaveStore;
@@ -0,0 +1,38 @@
+import { createSession, parseSession, SerializedLine, sessionVersion } from './Session';
+import { frameAnnotation } from './TestFixtures';
+
+const line: SerializedLine = { type: "FluidLine", start: { x: 1, y: 2 }, end: { x: 3, y: 4 }, role: "mld", lesion: 1 };
+const annotation = frameAnnotation({
+  brightness: 120, contrast: 90,
+  calibration: { source: "catheter", referencePixels: 20, referenceMillimetres: 2, frenchSize: 6, mmPerPixel: 0.1 },
+  imageLines: [line], masks: [{ source: "d", name: "1_30_20_1d.png", lines: [line] }],
+  segments: [{ lesion: 1, segment: "6" }], quality: "good", exclusionReasons: [], note: "Calcified",
+  activeTime: 1000, auditLog: [{ time: "2024-01-01T00:00:00.000Z", reader: "A", canvas: "", action: "Rate quality as good" }]
+});
+const sessionText = (frames: unknown[], version: number = sessionVersion) =>
+  JSON.stringify({ format: "qca-annotator-session", version: version, created: "2024-01-01T00:00:00.000Z", frames: frames });
+
+test('exported sessions are imported unchanged', () => {
+  let session = createSession([annotation], "A");
+  expect(parseSession(JSON.stringify(session))).toEqual(session);
+});
+
+test('sessions of version 1, with a single mask, are migrated to one mask of unknown source', () => {
+  let { masks, ...frame } = annotation;
+  let session = parseSession(sessionText([{ ...frame, maskName: "1_30_20_1d.png", maskLines: [line] }], 1));
+  expect(session.frames[0].masks).toEqual([{ source: "", name: "1_30_20_1d.png", lines: [line] }]);
+  expect(session.frames[0]).not.toHaveProperty("maskLines");
+});
+
+test('malformed sessions, frames and lines are rejected', () => {
+  expect(() => parseSession("{")).toThrow("not valid JSON");
+  expect(() => parseSession(JSON.stringify({ format: "other", frames: [] }))).toThrow("not a QCA annotator session");
+  expect(() => parseSession(sessionText([], sessionVersion + 1))).toThrow("Unsupported session version");
+  expect(() => parseSession(sessionText([null]))).toThrow("Frame 0 of the session file is malformed");
+  expect(() => parseSession(sessionText([{ ...annotation, brightness: "high" }]))).toThrow("Frame 0 of the session file has no brightness");
+  expect(() => parseSession(sessionText([annotation, { ...annotation, quality: "great" }]))).toThrow("Frame 1 of the session file has an unknown quality");
+  expect(() => parseSession(sessionText([{ ...annotation, imageLines: [{ ...line, start: { x: 1 } }] }])))
+    .toThrow("Frame 1_30_20_1.png contains a malformed line");
+  expect(() => parseSession(sessionText([{ ...annotation, masks: [{ source: "d", name: "1_30_20_1d.png", lines: [{ ...line, role: "stent" }] }] }])))
+    .toThrow("Frame 1_30_20_1.png contains a malformed line");
+});
@@ -0,0 +1,290 @@
+import AbstractLine from "../Canvas/AbstractLine";
+import { FluidLine } from "../Canvas/FluidLine";
+import { PixelLine } from "../Canvas/PixelLine";
+import { Point } from "../Canvas/Point";
+import { Calibration } from "../Canvas/Calibration";
+import { inferLineRoles, LineRole, qcaLineRoles } from "../Canvas/LineRole";
+import { firstLesionID, lesionIDs, lesionLines } from "../Canvas/Lesion";
+import { FrameMetadata } from "../Metadata/FrameMetadata";
+import { AuditEntry } from "./Audit";
+import { frameQualities, FrameQuality } from "../Review/Quality";
+import { Dominance, dominances, LesionSegment } from "../Segments/Segments";
+
+// Identifier and version of the session file format. The version must be increased whenever the
+// format changes in a backwards-incompatible way, so that older files can be detected and migrated
+// or rejected. New optional fields do not require a new version
+export const sessionFormat = "qca-annotator-session";
+export const sessionVersion = 2;
+
+export type LineType = "FluidLine" | "PixelLine";
+
+export type SerializedLine = {
+  type: LineType,                                                               // Class of the line
+  start: Point,                                                                 // Starting point of the line, in image coordinates
+  end: Point,                                                                   // Ending point of the line, in image coordinates
+  role?: LineRole | null,                                                       // Role of the line, absent in sessions saved before roles existed
+  lesion?: number,                                                              // Lesion of the line, absent in sessions saved before lesions existed
+  raw?: { start: Point, end: Point },                                           // End points as drawn, if they were snapped to the vessel edges
+  created?: string,                                                             // ISO date when the line was drawn, absent in sessions saved before it was recorded
+  modified?: string                                                             // ISO date when the line was last changed, idem
+}
+
+export type MaskAnnotation = {
+  source: string,                                                               // Source of the mask, e.g., its suffix, or "" if unknown
+  name: string,                                                                 // Name of the mask
+  lines: SerializedLine[]                                                       // Lines drawn on the mask canvas
+}
+
+export type FrameAnnotation = {
+  imageName: string,                                                            // Name of the image
+
+  // Patient/frame info, null when it could not be parsed
+  patientID: number | string | null,                                            // ID of the patient
+  primaryAngle: number | null,                                                  // Frame primary acquisition angle
+  secondaryAngle: number | null,                                                // Frame secondary acquisition angle
+  frameNumber: number | null,                                                   // Number of the frame
+  fields?: {[field: string]: string},                                           // Extra metadata fields
+
+  // Image display info
+  brightness: number,                                                           // Image canvas brightness
+  contrast: number,                                                             // Image canvas contrast
+  calibration?: Calibration | null,                                             // Pixel-to-millimetre calibration
+
+  // Biplane info
+  biplanePartner?: string | null,                                               // Image name of the frame showing the same lesions from another projection, if linked
+
+  // Anatomy info
+  dominance?: Dominance | null,                                                 // Coronary dominance of the patient, if known
+  segments?: LesionSegment[],                                                   // Coronary segment of each labelled lesion
+
+  // Quality info
+  quality?: FrameQuality | null,                                                // Quality of the frame for measurement, if rated
+  exclusionReasons?: string[],                                                  // Reasons the frame is excluded from the summary statistics, if any
+  note?: string,                                                                // Free-text comment on the frame
+
+  // Annotations
+  imageLines: SerializedLine[],                                                 // Lines drawn on the image canvas
+  masks: MaskAnnotation[],                                                      // Lines drawn on the canvas of each mask
+
+  // Audit info
+  activeTime?: number,                                                          // Time spent actively annotating the frame, in milliseconds
+  auditLog?: AuditEntry[]                                                       // Actions performed on the frame, oldest first
+}
+
+export type Session = {
+  format: typeof sessionFormat,                                                 // File format identifier
+  version: number,                                                              // File format version
+  created: string,                                                              // ISO date of the export
+  reader?: string,                                                              // ID of the reader who exported the session, if entered
+  frames: FrameAnnotation[]                                                     // Annotations of every frame
+}
+
+/************************************* Line (de)serialization **************************************/
+// Convert a line into its serializable representation
+export function serializeLine(line: AbstractLine): SerializedLine {
+  return {
+    type: line instanceof PixelLine ? "PixelLine" : "FluidLine",
+    start: { x: line.startX, y: line.startY },
+    end: { x: line.endX, y: line.endY },
+    role: line.role,
+    lesion: line.lesion,
+    ...(line.raw ? { raw: { start: { ...line.raw.start }, end: { ...line.raw.end } } } : {}),
+    ...(line.created ? { created: line.created } : {}),
+    ...(line.modified ? { modified: line.modified } : {})
+  };
+}
+
+// Rebuild a line object from its serialized representation
+export function deserializeLine(line: SerializedLine): AbstractLine {
+  let start = { x: line.start.x, y: line.start.y }, end = { x: line.end.x, y: line.end.y };
+  let deserialized = line.type === "PixelLine" ? new PixelLine(start, end) : new FluidLine(start, end);
+  deserialized.role = line.role ?? null;
+  deserialized.lesion = line.lesion ?? firstLesionID;
+  deserialized.raw = line.raw ? { start: { ...line.raw.start }, end: { ...line.raw.end } } : null;
+  deserialized.created = line.created ?? null;
+  deserialized.modified = line.modified ?? null;
+  return deserialized;
+}
+
+// Rebuild the line objects of a canvas, giving the lines saved without roles the roles they were implicitly given
+// before roles existed, as the canvas does when restoring them
+export function deserializeLines(lines: SerializedLine[]): AbstractLine[] {
+  let deserialized = lines.map(deserializeLine);
+  lesionIDs(deserialized).forEach(lesion => inferLineRoles(lesionLines(deserialized, lesion)));
+  return deserialized;
+}
+
+/*************************************** Frame annotations *****************************************/
+// Convert the metadata of a frame into the fields of its annotation
+export function metadataToAnnotation(metadata: FrameMetadata): Pick<FrameAnnotation, "patientID" | "primaryAngle" | "secondaryAngle" | "frameNumber" | "fields"> {
+  return {
+    patientID: typeof metadata.patientID === "number" ? toNullableNumber(metadata.patientID) : metadata.patientID,
+    primaryAngle: toNullableNumber(metadata.primaryAngle),
+    secondaryAngle: toNullableNumber(metadata.secondaryAngle),
+    frameNumber: toNullableNumber(metadata.frameNumber),
+    fields: metadata.fields
+  };
+}
+
+// Convert the fields of an annotation back into the metadata of its frame, with NaN for the values that could not be parsed
+export function annotationToMetadata(annotation: FrameAnnotation): FrameMetadata {
+  return {
+    patientID: annotation.patientID ?? NaN,
+    primaryAngle: annotation.primaryAngle ?? NaN,
+    secondaryAngle: annotation.secondaryAngle ?? NaN,
+    frameNumber: annotation.frameNumber ?? NaN,
+    fields: annotation.fields ?? {}
+  };
+}
+
+// Key identifying the source of a mask across frames: its source or, if unknown, its position among the masks of its frame
+export function maskSourceKey(mask: MaskAnnotation, index: number): string {
+  return mask.source !== "" ? mask.source : String(index + 1);
+}
+
+// Restore the lines, filters, calibration, biplane link, dominance, segments, quality, exclusion reasons, note and audit trail of a saved
+// annotation onto the current annotation of a frame. The metadata is not restored, since it is always derived from the uploaded files,
+// and the masks without a saved annotation keep their lines
+export function mergeAnnotation(current: FrameAnnotation, saved: FrameAnnotation): FrameAnnotation {
+  return {
+    ...current,
+    brightness: saved.brightness,
+    contrast: saved.contrast,
+    calibration: saved.calibration ?? null,
+    biplanePartner: saved.biplanePartner ?? null,
+    dominance: saved.dominance ?? null,
+    segments: saved.segments ?? [],
+    quality: saved.quality ?? null,
+    exclusionReasons: saved.exclusionReasons ?? [],
+    note: saved.note ?? "",
+    imageLines: saved.imageLines,
+    masks: current.masks.map((mask, index) => ({ ...mask, lines: findMaskAnnotation(saved.masks, mask, index)?.lines ?? mask.lines })),
+    activeTime: saved.activeTime ?? current.activeTime,
+    auditLog: saved.auditLog ?? current.auditLog
+  };
+}
+
+// Find the saved annotation of a mask, by source or name or, for annotations of unknown source, by position
+export function findMaskAnnotation(masks: MaskAnnotation[], mask: MaskAnnotation, index: number): MaskAnnotation | undefined {
+  return masks.find(saved => saved.source !== "" && saved.source === mask.source) ?? 
+    masks.find(saved => saved.name === mask.name) ?? 
+    (masks[index]?.source === "" ? masks[index] : undefined);
+}
+
+/************************************ Session (de)serialization ************************************/
+// Replace values that cannot be represented in JSON, such as NaN, by null
+export function toNullableNumber(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+// Build a session object from the annotations of every frame, exported by the given reader, if known
+export function createSession(frames: FrameAnnotation[], reader: string = ""): Session {
+  return {
+    format: sessionFormat,
+    version: sessionVersion,
+    created: new Date().toISOString(),
+    ...(reader !== "" ? { reader: reader } : {}),
+    frames: frames
+  };
+}
+
+// Parse and validate the contents of a session file, throwing an error if they are invalid
+export function parseSession(text: string): Session {
+  let session: unknown;
+  try {
+    session = JSON.parse(text);
+  } catch(e) {
+    throw new Error("The session file is not valid JSON");
+  }
+
+  if(!isObject(session) || session.format !== sessionFormat)
+    throw new Error("The file is not a QCA annotator session");
+  if(typeof session.version !== "number" || session.version > sessionVersion)
+    throw new Error("Unsupported session version " + session.version + ", expected at most " + sessionVersion);
+  if(!Array.isArray(session.frames))
+    throw new Error("The session file does not contain a frames array");
+  if(session.reader !== undefined && typeof session.reader !== "string")
+    throw new Error("The reader of the session file is malformed");
+
+  return {
+    format: sessionFormat,
+    version: session.version,
+    created: typeof session.created === "string" ? session.created : "",
+    ...(typeof session.reader === "string" ? { reader: session.reader } : {}),
+    frames: session.frames.map((frame: unknown, index: number) => parseAnnotation(frame, "Frame " + index + " of the session file"))
+  };
+}
+
+// Migrate and validate a frame annotation read from a session file or the autosave, throwing an error that starts
+// with the given description of the frame if it is invalid
+export function parseAnnotation(frame: unknown, description: string): FrameAnnotation {
+  const annotation = migrateAnnotation(frame);
+  if(!isObject(annotation)) throw new Error(description + " is malformed");
+  Object.entries(frameFieldValidators).forEach(([field, [isValid, problem]]) => {
+    if(!isValid(annotation[field])) throw new Error(description + " " + problem);
+  });
+  let validated = annotation as FrameAnnotation;
+  [...validated.imageLines, ...validated.masks.flatMap(mask => mask.lines)].forEach(line => {
+    if(!isValidLine(line)) throw new Error("Frame " + validated.imageName + " contains a malformed line");
+  });
+  return validated;
+}
+
+// Convert a frame annotation of version 1, which had a single mask, into the current format. Annotations
+// that are already in the current format, or are not annotations at all, are returned unchanged
+export function migrateAnnotation(frame: unknown): unknown {
+  if(!isObject(frame) || Array.isArray(frame.masks) || !Array.isArray(frame.maskLines)) return frame;
+  let { maskName, maskLines, ...annotation } = frame;
+  return { ...annotation, masks: [{ source: "", name: typeof maskName === "string" ? maskName : "", lines: maskLines }] };
+}
+
+/************************************** Frame field validators *************************************/
+type FieldValidator = [(value: unknown) => boolean, string];                   // Test of a field and the problem reported if it fails
+
+const isObject = (value: unknown): value is {[field: string]: unknown} => typeof value === "object" && value !== null && !Array.isArray(value);
+const isString = (value: unknown): boolean => typeof value === "string";
+const isNumber = (value: unknown): boolean => typeof value === "number";
+const optional = (isValid: (value: unknown) => boolean) => (value: unknown): boolean => value === undefined || isValid(value);
+const nullable = (isValid: (value: unknown) => boolean) => (value: unknown): boolean => value === null || isValid(value);
+const arrayOf = (isValid: (value: unknown) => boolean) => (value: unknown): boolean => Array.isArray(value) && value.every(isValid);
+const oneOf = (values: readonly unknown[]) => (value: unknown): boolean => values.includes(value);
+
+// Validators of the fields of a frame annotation. The lines are validated separately, so that their errors name the frame
+const frameFieldValidators: {[field in keyof FrameAnnotation]?: FieldValidator} = {
+  imageName: [isString, "has no image name"],
+  fields: [optional(value => isObject(value) && Object.values(value).every(isString)), "has malformed metadata fields"],
+  brightness: [isNumber, "has no brightness"],
+  contrast: [isNumber, "has no contrast"],
+  calibration: [optional(nullable(isValidCalibration)), "has a malformed calibration"],
+  imageLines: [Array.isArray, "has no image lines"],
+  masks: [arrayOf(mask => isObject(mask) && isString(mask.source) && isString(mask.name) && Array.isArray(mask.lines)), "has a malformed mask"],
+  biplanePartner: [optional(nullable(isString)), "has a malformed biplane partner"],
+  dominance: [optional(nullable(oneOf(dominances))), "has an unknown dominance"],
+  segments: [optional(arrayOf(segment => isObject(segment) && Number.isInteger(segment.lesion) && isString(segment.segment))),
+    "has a malformed lesion segment"],
+  quality: [optional(nullable(oneOf(frameQualities))), "has an unknown quality"],
+  exclusionReasons: [optional(arrayOf(isString)), "has malformed exclusion reasons"],
+  note: [optional(isString), "has a malformed note"],
+  activeTime: [optional(isNumber), "has a malformed active time"],
+  auditLog: [optional(arrayOf(entry => isObject(entry) && isString(entry.action))), "has a malformed audit log"]
+};
+
+// Test whether an object is a valid calibration
+function isValidCalibration(calibration: unknown): boolean {
+  return isObject(calibration) && oneOf(["catheter", "length", "dicom"])(calibration.source) && isNumber(calibration.referencePixels) &&
+    isNumber(calibration.referenceMillimetres) && nullable(isNumber)(calibration.frenchSize) && isNumber(calibration.mmPerPixel);
+}
+
+// Test whether an object is a valid serialized line
+function isValidLine(line: unknown): boolean {
+  return isObject(line) && (line.type === "FluidLine" || line.type === "PixelLine") && isValidPoint(line.start) && isValidPoint(line.end) &&
+    optional(nullable(oneOf(qcaLineRoles)))(line.role) &&
+    (line.lesion === undefined || (Number.isInteger(line.lesion) && (line.lesion as number) >= firstLesionID)) &&
+    (line.raw === undefined || (isObject(line.raw) && isValidPoint(line.raw.start) && isValidPoint(line.raw.end))) &&
+    optional(isString)(line.created) && optional(isString)(line.modified);
+}
+
+// Test whether an object is a valid point
+function isValidPoint(point: unknown): boolean {
+  return isObject(point) && isNumber(point.x) && isNumber(point.y);
+}
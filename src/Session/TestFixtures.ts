@@ -0,0 +1,16 @@
+import { FrameAnnotation, SerializedLine } from "./Session";
+
+// Builders of the lines and frame annotations shared by the tests
+
+// Build a vertical line of the given length
+export function line(length: number, role: SerializedLine["role"], lesion: number = 1): SerializedLine {
+  return { type: "FluidLine", start: { x: 0, y: 0 }, end: { x: 0, y: length }, role: role, lesion: lesion };
+}
+
+// Build the annotation of frame 1 of patient 1, at 30º and 20º, without lines or masks unless given in the changes
+export function frameAnnotation(changes: Partial<FrameAnnotation> = {}): FrameAnnotation {
+  return {
+    imageName: "1_30_20_1.png", patientID: 1, primaryAngle: 30, secondaryAngle: 20, frameNumber: 1, fields: {}, brightness: 100, contrast: 100,
+    imageLines: [], masks: [], ...changes
+  };
+}